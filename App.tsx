@@ -1,5 +1,5 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useCallback } from 'react';
 import { 
   FileUp, 
   Settings2, 
@@ -27,54 +27,116 @@ import {
   MapPin,
   Tag,
   Calculator,
-  Edit3
+  Edit3,
+  Sparkles,
+  WifiOff,
+  SlidersHorizontal,
+  Send,
+  Building2,
+  Plus,
+  Wallet,
+  Receipt,
+  Save,
+  Upload,
+  ListOrdered,
+  ArrowUp,
+  ArrowDown,
+  Package
 } from 'lucide-react';
-import { identifyHeaders } from './services/geminiService';
-import { generateTallyXml } from './services/tallyXmlGenerator';
-import { AppStep, MarketplaceTransaction, ColumnMapping } from './types';
-
-interface FileData {
-  name: string;
-  headers: string[];
-  rawData: string[][];
-}
-
-const parseCSV = (csvText: string): string[][] => {
-  const lines = csvText.split(/\r?\n/);
-  return lines.map(line => {
-    return line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
-  }).filter(line => line.length > 1);
-};
-
-const REQUIRED_FIELDS: (keyof ColumnMapping)[] = [
-  "date", 
-  "invoiceNo", 
-  "customerName", 
-  "taxableValue", 
-  "totalAmount", 
-  "gstRate",
-  "productName",
-  "quantity"
-];
+import { createHeaderIdentifier, loadIdentifierSettings, saveIdentifierSettings } from './services/headerIdentifier';
+import { exportableVouchers, tallyVouchers, findHeldBackVouchers, resolveTransactionLedgers } from './services/tallyXmlGenerator';
+import { createLedgerRule, findLedgerRule, LEDGER_RULE_FIELDS, LEDGER_RULE_OPERATORS } from './services/ledgerRules';
+import { findUnmappedSkus, upsertCatalogueEntries, catalogueEntryFromSku, parseCatalogueCsv, catalogueToCsv, resolveStockItem, UnmappedSku } from './services/skuCatalogue';
+import { pushToTally, mapPushErrorsToRows, loadTallyConnection, saveTallyConnection, TallyPushReport } from './services/tallyGateway';
+import { createEmptyMapping } from './services/columnMapping';
+import { isValidGstin, stateCodeFor, GST_STATE_CODES } from './services/gstin';
+import { validateTransactions, sellerStateCode } from './services/taxValidator';
+import { DATE_FORMATS, EXCEL_SERIAL_FORMAT } from './services/dateParser';
+import { detectReportProfile, REPORT_PROFILES } from './services/reportProfiles';
+import { mapHeadersHeuristically } from './services/heuristicMapper';
+import { readReportFiles, buildWorkbookReportFile, ReportFile, ReportReadError } from './services/reportFiles';
+import { REQUIRED_FIELDS, detectFileDateFormats, validateMapping } from './services/conversionPipeline';
+import { readReportFilesInWorker, buildTransactionsInWorker, generateXmlInWorker, ProcessingJob } from './services/processingClient';
+import { ProcessingProgress, XmlExportKind } from './services/processingWorker';
+import { applyTransactionEdits, includedTransactions, isExcluded, isNumericField, parseFieldValue, editTransactions, setExcluded, revertTransactions, transactionChanges, countEdits } from './services/transactionEdits';
+import { findDuplicateRows, resolveDuplicates, duplicateResolution, DuplicateGroup, DuplicateResolution } from './services/duplicateDetector';
+import { loadExportLedger, saveExportLedger, clearExportLedger, recordExportedVouchers, findPreviouslyExported, exportedInvoiceCount, ExportLedger } from './services/exportLedger';
+import { SETTLEMENT_MAPPING_KEYS, createEmptySettlementMapping, mapSettlementHeaders, buildSettlementEntries, isLongLayout, detectSettlementMarketplace } from './services/settlementParser';
+import { createMappingProfile, findProfileForHeaders, upsertProfile, loadMappingProfiles, saveMappingProfiles, exportProfilesJson, parseProfilesJson } from './services/mappingProfiles';
+import { buildGstr1, summarizeGstr1, gstr1Periods } from './services/gstr1Generator';
+import { summarizeSettlements, generateSettlementXml, findHeldBackSettlements, SETTLEMENT_LEDGERS, FEE_LOCAL_GST_LEDGERS } from './services/settlementVoucherGenerator';
+import { createClientConfig, loadClients, saveClients, loadActiveClientId, saveActiveClientId, marketplaceReceivableLedger, resolveB2cPartyLedger } from './services/clientConfig';
+import { AppStep, MarketplaceTransaction, ColumnMapping, ReportProfile, MappingConfidence, HeaderIdentifierSettings, CancelHandling, TransactionType, TallyConnectionSettings, ClientConfig, TallyExportSettings, VoucherTypeNames, TaxValidationSettings, SettlementMapping, B2cConsolidation, MappingProfile, LedgerRule, LedgerRuleCondition, SkuCatalogueEntry, EditableField, TransactionEdits } from './types';
 
-const NUMERIC_FIELDS: (keyof ColumnMapping)[] = [
-  "taxableValue", "igst", "cgst", "sgst", "totalAmount", "gstRate", "quantity"
-];
+const MARKETPLACES = Array.from(new Set(REPORT_PROFILES.map(p => p.marketplace)));
 
-const DATE_FIELDS: (keyof ColumnMapping)[] = ["date"];
+// The review table only renders the rows in view, plus this many either side
+const REVIEW_ROW_HEIGHT = 53;
+const REVIEW_OVERSCAN = 10;
 
 const App: React.FC = () => {
   const [step, setStep] = useState<AppStep>(AppStep.UPLOAD);
-  const [uploadedFiles, setUploadedFiles] = useState<FileData[]>([]);
-  const [mapping, setMapping] = useState<ColumnMapping>({
-    date: "", invoiceNo: "", customerName: "", state: "",
-    taxableValue: "", igst: "", cgst: "", sgst: "",
-    totalAmount: "", gstRate: "", productName: "", quantity: ""
-  });
-  const [transactions, setTransactions] = useState<MarketplaceTransaction[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState<ReportFile[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(createEmptyMapping);
+  // Rows as parsed from the reports; review edits are applied on top of these
+  const [parsedTransactions, setParsedTransactions] = useState<MarketplaceTransaction[]>([]);
+  const [transactionEdits, setTransactionEdits] = useState<TransactionEdits>({});
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(() => new Set());
+  const [editingCell, setEditingCell] = useState<{ row: number; field: EditableField } | null>(null);
+  const [editValue, setEditValue] = useState("");
+  const [bulkState, setBulkState] = useState("");
+  const [bulkRate, setBulkRate] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [processingError, setProcessingError] = useState("");
+  // Files from the last upload that could not be read, one line each
+  const [readErrors, setReadErrors] = useState<ReportReadError[]>([]);
   const [expandedRowIndex, setExpandedRowIndex] = useState<number | null>(null);
+  const [expandedRowHeight, setExpandedRowHeight] = useState(0);
+  const [reviewViewport, setReviewViewport] = useState({ top: 0, height: 800 });
   const [ledgerOverrides, setLedgerOverrides] = useState<Record<string, string>>({});
+  const [detectedProfile, setDetectedProfile] = useState<ReportProfile | null>(null);
+  // Set only when the offline matcher produced the mapping
+  const [mappingConfidence, setMappingConfidence] = useState<MappingConfidence | null>(null);
+  const [identifierSettings, setIdentifierSettings] = useState<HeaderIdentifierSettings>(loadIdentifierSettings);
+  const [mappedBy, setMappedBy] = useState<string>("");
+  const [showSettings, setShowSettings] = useState(false);
+  const [cancelHandling, setCancelHandling] = useState<CancelHandling>("skip");
+  const [reviewFilter, setReviewFilter] = useState<TransactionType | "All" | "Issues" | "Edited" | "Excluded" | "Duplicates">("All");
+  const [tallyConnection, setTallyConnection] = useState<TallyConnectionSettings>(loadTallyConnection);
+  const [pushProgress, setPushProgress] = useState<{ done: number; total: number } | null>(null);
+  const [pushReport, setPushReport] = useState<TallyPushReport | null>(null);
+  const [pushError, setPushError] = useState("");
+  // Tally import errors keyed by index into `transactions`
+  const [rowErrors, setRowErrors] = useState<Record<number, string[]>>({});
+  const pushAbort = useRef<AbortController | null>(null);
+  const jobRef = useRef<ProcessingJob<unknown> | null>(null);
+  const reviewScrollRef = useRef<HTMLDivElement | null>(null);
+  const editCancelled = useRef(false);
+  const [clients, setClients] = useState<ClientConfig[]>(loadClients);
+  const [activeClientId, setActiveClientId] = useState<string>(() => loadActiveClientId(loadClients()));
+  // Invoices already exported for the active client
+  const [exportLedger, setExportLedger] = useState<ExportLedger>(() => loadExportLedger(loadActiveClientId(loadClients())));
+  const [newClientName, setNewClientName] = useState("");
+  const [gstr1Period, setGstr1Period] = useState("");
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>(loadMappingProfiles);
+  const [appliedProfile, setAppliedProfile] = useState<MappingProfile | null>(null);
+  const [profileName, setProfileName] = useState("");
+  const [profileMessage, setProfileMessage] = useState("");
+  const [showRules, setShowRules] = useState(false);
+  const [showCatalogue, setShowCatalogue] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [catalogueFilter, setCatalogueFilter] = useState("");
+  const [catalogueMessage, setCatalogueMessage] = useState("");
+  // Existing stock item typed against each unmapped SKU, keyed by SKU
+  const [skuTargets, setSkuTargets] = useState<Record<string, string>>({});
+  const [settlementFiles, setSettlementFiles] = useState<ReportFile[]>([]);
+  const [settlementMapping, setSettlementMapping] = useState<SettlementMapping>(createEmptySettlementMapping);
+  const [settlementMarketplace, setSettlementMarketplace] = useState("");
+
+  const activeClient = clients.find(c => c.id === activeClientId) || clients[0];
+  const exportSettings = activeClient.exportSettings;
+  const taxSettings = activeClient.taxValidation;
 
   // The union of all unique headers across all uploaded files
   const allHeaders = useMemo(() => {
@@ -83,139 +145,330 @@ const App: React.FC = () => {
     return Array.from(headerSet);
   }, [uploadedFiles]);
 
-  // Helper to get sample data for a mapped column (from first file that has it)
-  const getSampleData = (header: string, count: number = 3) => {
-    for (const file of uploadedFiles) {
-      const idx = file.headers.indexOf(header);
-      if (idx !== -1) {
-        return file.rawData.slice(0, count).map(row => row[idx]).filter(val => val !== undefined);
-      }
-    }
-    return [];
-  };
+  const settlementHeaders = useMemo(() => {
+    const headerSet = new Set<string>();
+    settlementFiles.forEach(f => f.headers.forEach(h => headerSet.add(h)));
+    return Array.from(headerSet);
+  }, [settlementFiles]);
+
+  const settlements = useMemo(() => {
+    const entries = settlementFiles.flatMap(f => buildSettlementEntries(f.headers, f.rawData, settlementMapping, f.dateFormat));
+    return summarizeSettlements(entries, settlementMarketplace);
+  }, [settlementFiles, settlementMapping, settlementMarketplace]);
+  const heldBackSettlements = useMemo(() => findHeldBackSettlements(settlements), [settlements]);
+
+  // Date format in effect for each uploaded file, null when none fits its values
+  const fileDateFormats = useMemo(
+    () => detectFileDateFormats(uploadedFiles, mapping.date),
+    [uploadedFiles, mapping.date]
+  );
 
   // Validation logic for data integrity
-  const validationResults = useMemo(() => {
-    const errors: Record<string, string> = {};
-    const warnings: Record<string, string> = {};
-    const samples: Record<string, string[]> = {};
-    const usedHeaders = new Map<string, string[]>();
-
-    (Object.keys(mapping) as (keyof ColumnMapping)[]).forEach((key) => {
-      const header = mapping[key];
-      
-      if (REQUIRED_FIELDS.includes(key) && !header) {
-        errors[key] = "This field is required for Tally import.";
-        return;
-      }
+  const validationResults = useMemo(
+    () => validateMapping(mapping, uploadedFiles, detectedProfile, fileDateFormats),
+    [mapping, uploadedFiles, detectedProfile, fileDateFormats]
+  );
 
-      if (header) {
-        if (!usedHeaders.has(header)) {
-          usedHeaders.set(header, []);
-        }
-        usedHeaders.get(header)?.push(key);
-
-        const sampleValues = getSampleData(header);
-        samples[key] = sampleValues;
-
-        if (NUMERIC_FIELDS.includes(key) && sampleValues.length > 0) {
-          const isNumeric = sampleValues.every(val => {
-            if (!val) return true;
-            const num = val.replace(/[^0-9.-]+/g, "");
-            return !isNaN(parseFloat(num)) && isFinite(Number(num));
-          });
-          if (!isNumeric) {
-            warnings[key] = "Values in some files don't look like numbers.";
-          }
-        }
+  const hasCriticalErrors = useMemo(() => {
+    return Object.keys(validationResults.errors).length > 0;
+  }, [validationResults.errors]);
 
-        if (DATE_FIELDS.includes(key) && sampleValues.length > 0) {
-          const isDate = sampleValues.every(val => {
-            if (!val) return true;
-            return !isNaN(Date.parse(val));
-          });
-          if (!isDate) {
-            warnings[key] = "Values in some files don't look like valid dates.";
-          }
-        }
+  // Every row with its edits applied, excluded ones included, indexed like parsedTransactions
+  const transactions = useMemo(
+    () => applyTransactionEdits(parsedTransactions, transactionEdits),
+    [parsedTransactions, transactionEdits]
+  );
+
+  // What the export, the GSTR-1 and the push to Tally work from
+  const exportTransactions = useMemo(
+    () => includedTransactions(transactions, transactionEdits),
+    [transactions, transactionEdits]
+  );
+
+  const editCounts = useMemo(() => countEdits(transactionEdits), [transactionEdits]);
+
+  // Every sales and tax ledger the vouchers will post to, default or from a ledger rule
+  const suggestedLedgers = useMemo(() => {
+    const ledgers = new Map<string, { name: string; type: string; rate: number }>();
+    const add = (name: string, type: string, rate: number) => {
+      if (!ledgers.has(name)) ledgers.set(name, { name, type, rate });
+    };
+
+    exportTransactions.forEach(t => {
+      if (!(t.gstRate > 0)) return;
+      const resolved = resolveTransactionLedgers(t, exportSettings);
+      add(resolved.sales, 'Sales Ledger', t.gstRate);
+      if (t.igst > 0) add(resolved.igst, 'Tax Ledger', t.gstRate);
+      if (t.cgst > 0 || t.sgst > 0) {
+        add(resolved.cgst, 'Tax Ledger', t.gstRate);
+        add(resolved.sgst, 'Tax Ledger', t.gstRate);
       }
     });
 
-    usedHeaders.forEach((keys, header) => {
-      if (keys.length > 1) {
-        keys.forEach(key => {
-          errors[key] = `Duplicate mapping: "${header}" is also used for ${keys.filter(k => k !== key).map(k => k.replace(/([A-Z])/g, ' $1')).join(', ')}.`;
-        });
-      }
+    return Array.from(ledgers.values()).sort((a, b) => a.rate - b.rate || (a.type === b.type ? 0 : a.type === 'Sales Ledger' ? -1 : 1));
+  }, [exportTransactions, exportSettings]);
+
+  const ruleMatchCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    exportTransactions.forEach(t => {
+      const rule = findLedgerRule(t, exportSettings.ledgerRules);
+      if (rule) counts[rule.id] = (counts[rule.id] || 0) + 1;
     });
+    return counts;
+  }, [exportTransactions, exportSettings.ledgerRules]);
 
-    return { errors, warnings, samples };
-  }, [mapping, uploadedFiles]);
+  const unmappedSkus = useMemo(
+    () => findUnmappedSkus(exportTransactions, exportSettings.skuCatalogue),
+    [exportTransactions, exportSettings.skuCatalogue]
+  );
 
-  const hasCriticalErrors = useMemo(() => {
-    return Object.keys(validationResults.errors).length > 0;
-  }, [validationResults.errors]);
+  const stockItemNames = useMemo(
+    () => Array.from(new Set(exportSettings.skuCatalogue.map(e => e.stockItem.trim()).filter(Boolean))).sort(),
+    [exportSettings.skuCatalogue]
+  );
 
-  // Extract unique tax rates and suggest ledgers
-  const suggestedLedgers = useMemo(() => {
-    const rates = new Set<number>();
-    const hasIgst = transactions.some(t => t.igst > 0);
-    const hasCgstSgst = transactions.some(t => t.cgst > 0 || t.sgst > 0);
-    
-    transactions.forEach(t => {
-      if (t.gstRate > 0) rates.add(t.gstRate);
+  const filteredCatalogue = useMemo(() => {
+    const query = catalogueFilter.trim().toLowerCase();
+    if (!query) return exportSettings.skuCatalogue;
+    return exportSettings.skuCatalogue.filter(e => `${e.sku} ${e.stockItem} ${e.hsn} ${e.godown}`.toLowerCase().includes(query));
+  }, [exportSettings.skuCatalogue, catalogueFilter]);
+
+  const typeCounts = useMemo(() => {
+    const counts: Record<TransactionType, number> = { Sale: 0, Refund: 0, Cancel: 0 };
+    transactions.forEach(t => counts[t.transactionType]++);
+    return counts;
+  }, [transactions]);
+
+  const rowIndexOf = useMemo(() => new Map(transactions.map((t, i) => [t, i])), [transactions]);
+
+  // Row index -> tax split problems, re-run whenever the seller settings change
+  const taxIssues = useMemo(
+    () => validateTransactions(transactions, taxSettings, cancelHandling),
+    [transactions, taxSettings, cancelHandling]
+  );
+  // Excluded rows are listed but don't block the export
+  const taxIssueCount = Object.keys(taxIssues).filter(i => !isExcluded(transactionEdits, Number(i))).length;
+  const exportBlocked = taxSettings.mode === "block" && taxIssueCount > 0;
+
+  // Rows of vouchers that won't be exported: unreadable dates or differences above the round-off limit
+  const heldBackErrors = useMemo(() => {
+    const errors: Record<number, string[]> = {};
+    findHeldBackVouchers(exportTransactions, { cancelHandling, exportSettings }).forEach(({ group, reason }) => {
+      (group.summary?.sources || group.lines).forEach(tx => {
+        const idx = rowIndexOf.get(tx);
+        if (idx !== undefined) errors[idx] = [reason];
+      });
     });
+    return errors;
+  }, [exportTransactions, cancelHandling, exportSettings, rowIndexOf]);
+  const heldBackRowCount = Object.keys(heldBackErrors).length;
 
-    const ledgers: { name: string; type: string; rate?: number }[] = [];
-    Array.from(rates).sort((a, b) => a - b).forEach(rate => {
-      ledgers.push({ name: `Sales @ ${rate}%`, type: 'Sales Ledger', rate });
-      if (hasIgst) {
-        ledgers.push({ name: `Output IGST @ ${rate}%`, type: 'Tax Ledger', rate });
-      }
-      if (hasCgstSgst) {
-        ledgers.push({ name: `Output CGST @ ${rate / 2}%`, type: 'Tax Ledger', rate });
-        ledgers.push({ name: `Output SGST @ ${rate / 2}%`, type: 'Tax Ledger', rate });
-      }
+  // Lines repeated within or across the reports, found on the values as parsed
+  const duplicateGroups = useMemo(() => findDuplicateRows(parsedTransactions), [parsedTransactions]);
+  const duplicateOf = useMemo(() => {
+    const groups = new Map<number, DuplicateGroup>();
+    duplicateGroups.forEach(group => group.rows.forEach(idx => groups.set(idx, group)));
+    return groups;
+  }, [duplicateGroups]);
+  const unresolvedDuplicateCount = useMemo(
+    () => duplicateGroups.filter(group => duplicateResolution(transactionEdits, group) === "keep").length,
+    [duplicateGroups, transactionEdits]
+  );
+
+  // Per-invoice vouchers, before B2C summaries replace them
+  const exportGroups = useMemo(
+    () => exportableVouchers(exportTransactions, { cancelHandling, exportSettings }),
+    [exportTransactions, cancelHandling, exportSettings]
+  );
+
+  const previouslyExported = useMemo(() => findPreviouslyExported(exportLedger, exportGroups), [exportLedger, exportGroups]);
+  // When each row's invoice was last exported, keyed by index into `transactions`
+  const exportedAtRows = useMemo(() => {
+    const rows: Record<number, string> = {};
+    previouslyExported.forEach(({ group, previous }) => {
+      group.lines.forEach(tx => {
+        const idx = rowIndexOf.get(tx);
+        if (idx !== undefined) rows[idx] = previous.exportedAt;
+      });
     });
+    return rows;
+  }, [previouslyExported, rowIndexOf]);
+  const previouslyExportedMonths = useMemo(
+    () => Array.from(new Set(previouslyExported.map(({ previous }) => previous.month).filter(Boolean))).sort(),
+    [previouslyExported]
+  );
 
-    return ledgers;
-  }, [transactions]);
+  // Rows to look at before exporting; excluded rows are out of the export, so they don't count
+  const issueRows = useMemo(
+    () => transactions.filter((_, i) => !isExcluded(transactionEdits, i) && (taxIssues[i] || heldBackErrors[i])),
+    [transactions, taxIssues, heldBackErrors, transactionEdits]
+  );
+  const issueCount = issueRows.length;
+
+  const reviewTransactions = useMemo(() => {
+    if (reviewFilter === "All") return transactions;
+    if (reviewFilter === "Issues") return issueRows;
+    if (reviewFilter === "Edited") return transactions.filter((_, i) => Object.keys(transactionEdits[i]?.changes || {}).length > 0);
+    if (reviewFilter === "Excluded") return transactions.filter((_, i) => isExcluded(transactionEdits, i));
+    if (reviewFilter === "Duplicates") return transactions.filter((_, i) => duplicateOf.has(i));
+    return transactions.filter(t => t.transactionType === reviewFilter);
+  }, [transactions, reviewFilter, issueRows, transactionEdits, duplicateOf]);
+
+  const filteredRowsSelected = useMemo(
+    () => reviewTransactions.length > 0 && reviewTransactions.every(tx => selectedRows.has(rowIndexOf.get(tx) ?? -1)),
+    [reviewTransactions, selectedRows, rowIndexOf]
+  );
+
+  // Rows are a fixed height; the expanded row's details add their measured height below it
+  const reviewWindow = useMemo(() => {
+    const count = reviewTransactions.length;
+    const extra = expandedRowIndex !== null ? expandedRowHeight : 0;
+    const offsetOf = (i: number) => i * REVIEW_ROW_HEIGHT + (expandedRowIndex !== null && i > expandedRowIndex ? extra : 0);
+    const indexAt = (y: number) => {
+      if (expandedRowIndex !== null && y >= (expandedRowIndex + 1) * REVIEW_ROW_HEIGHT) {
+        return Math.max(expandedRowIndex, Math.floor((y - extra) / REVIEW_ROW_HEIGHT));
+      }
+      return Math.floor(y / REVIEW_ROW_HEIGHT);
+    };
+    const start = Math.max(0, indexAt(reviewViewport.top) - REVIEW_OVERSCAN);
+    const end = Math.min(count, indexAt(reviewViewport.top + reviewViewport.height) + REVIEW_OVERSCAN + 1);
+    return { start, end, padTop: offsetOf(start), padBottom: offsetOf(count) - offsetOf(end) };
+  }, [reviewTransactions, reviewViewport, expandedRowIndex, expandedRowHeight]);
+
+  const measureExpandedRow = useCallback((row: HTMLTableRowElement | null) => {
+    if (row) setExpandedRowHeight(row.offsetHeight);
+  }, []);
+
+  // Multi-SKU invoices collapse into one voucher, so this can be below the row count
+  const invoiceCount = exportGroups.length;
+
+  // What is actually written, after B2C summary vouchers replace their invoices
+  const voucherCount = useMemo(() => {
+    if (exportSettings.b2cConsolidation === "none") return invoiceCount;
+    return tallyVouchers(exportTransactions, { cancelHandling, exportSettings }).length;
+  }, [exportTransactions, cancelHandling, exportSettings, invoiceCount]);
+
+  const periods = useMemo(() => gstr1Periods(exportTransactions), [exportTransactions]);
+  const activeGstr1Period = periods.includes(gstr1Period) ? gstr1Period : periods[0] || "";
+
+  const gstr1 = useMemo(() => {
+    if (step !== AppStep.EXPORT || !activeGstr1Period) return null;
+    const build = buildGstr1(exportTransactions, { cancelHandling, exportSettings, taxValidation: taxSettings, period: activeGstr1Period });
+    return { ...build, summary: summarizeGstr1(build.json) };
+  }, [step, exportTransactions, cancelHandling, exportSettings, taxSettings, activeGstr1Period]);
+
+  // Runs a worker job with the progress bar up; null when the user cancelled
+  const runJob = async <T,>(job: ProcessingJob<T>): Promise<T | null> => {
+    jobRef.current = job;
+    setProcessingError("");
+    setIsProcessing(true);
+    try {
+      return await job.result;
+    } catch (err) {
+      setProcessingError(err instanceof Error ? err.message : String(err));
+      return null;
+    } finally {
+      jobRef.current = null;
+      setProgress(null);
+      setIsProcessing(false);
+    }
+  };
+
+  const cancelProcessing = () => jobRef.current?.cancel();
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
+    const read = await runJob(readReportFilesInWorker(Array.from(files), setProgress));
+    event.target.value = "";
+    if (!read) return;
+    setReadErrors(read.errors);
+    setUploadedFiles(prev => [...prev, ...read.files]);
+  };
+
+  const handleSettlementUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
     setIsProcessing(true);
-    const newFiles: FileData[] = [];
-    
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      const text = await file.text();
-      const data = parseCSV(text);
-      if (data.length > 0) {
-        newFiles.push({
-          name: file.name,
-          headers: data[0],
-          rawData: data.slice(1)
-        });
-      }
+    const { files: newFiles, errors } = await readReportFiles(files);
+    setReadErrors(errors);
+    if (newFiles.length > 0) {
+      const detected = mapSettlementHeaders(newFiles[0].headers);
+      setSettlementFiles(newFiles);
+      setSettlementMapping(detected);
+      setSettlementMarketplace(detectSettlementMarketplace(newFiles[0].headers, detected));
+      setStep(AppStep.SETTLEMENT);
     }
-
-    setUploadedFiles(prev => [...prev, ...newFiles]);
     setIsProcessing(false);
   };
 
+  const handleSettlementDownload = (includeMasters: boolean) => {
+    const xml = generateSettlementXml(settlements, ledgerOverrides, exportSettings, includeMasters, sellerStateCode(taxSettings));
+    const blob = new Blob([xml], { type: 'text/xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${includeMasters ? "SettlementMastersAndVouchers" : "SettlementVouchers"}_${new Date().toISOString().split('T')[0]}.xml`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const setFileDateFormat = (index: number, dateFormat: string) => {
+    setUploadedFiles(prev => prev.map((f, i) => (i === index ? { ...f, dateFormat } : f)));
+  };
+
   const removeFile = (index: number) => {
     setUploadedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  const selectWorkbookSheet = (index: number, sheetName: string, headerRow?: number) => {
+    setUploadedFiles(prev => prev.map((f, i) => 
+      i === index && f.workbook
+        ? { ...buildWorkbookReportFile(f.name, f.workbook.sheets, sheetName, headerRow), dateFormat: f.dateFormat }
+        : f
+    ));
+  };
+
   const startMapping = async () => {
     if (uploadedFiles.length === 0) return;
     setIsProcessing(true);
     try {
-      // Use headers from the first file as a baseline for AI identification
-      const aiMapping = await identifyHeaders(uploadedFiles[0].headers);
-      setMapping(aiMapping);
+      // Known marketplace layouts are mapped deterministically without an AI call
+      const baseFile = uploadedFiles[0];
+      const match = detectReportProfile(baseFile.headers);
+      const saved = findProfileForHeaders(mappingProfiles, baseFile.headers);
+      setDetectedProfile(match ? match.profile : null);
+      setMappingConfidence(null);
+      setMappedBy("");
+      setAppliedProfile(saved);
+      if (saved) {
+        setMapping(saved.mapping);
+        setLedgerOverrides(saved.ledgerOverrides);
+      } else if (match) {
+        setMapping(match.mapping);
+      } else {
+        const samples: Record<string, string[]> = {};
+        baseFile.headers.forEach((h, idx) => {
+          samples[h] = baseFile.rawData.slice(0, 20).map(row => row[idx] ?? "");
+        });
+        const identifier = createHeaderIdentifier(identifierSettings);
+        try {
+          // Use headers from the first file as a baseline for AI identification
+          const aiMapping = await identifier.identify(
+            baseFile.headers,
+            identifierSettings.sendSampleValues ? samples : undefined
+          );
+          setMapping(aiMapping);
+          setMappedBy(identifier.label);
+        } catch {
+          const guess = mapHeadersHeuristically(baseFile.headers, samples);
+          setMapping(guess.mapping);
+          setMappingConfidence(guess.confidence);
+        }
+      }
       setStep(AppStep.MAPPING);
     } catch (err) {
       console.error(err);
@@ -224,63 +477,392 @@ const App: React.FC = () => {
     setIsProcessing(false);
   };
 
-  const processMapping = () => {
+  const processMapping = async () => {
     if (hasCriticalErrors) return;
 
-    setIsProcessing(true);
-    let allProcessed: MarketplaceTransaction[] = [];
-
-    uploadedFiles.forEach(file => {
-      const fileTransactions: MarketplaceTransaction[] = file.rawData.map(row => {
-        const getVal = (field: keyof ColumnMapping) => {
-          const header = mapping[field];
-          const idx = file.headers.indexOf(header);
-          return idx !== -1 ? row[idx] : "";
-        };
-
-        const parseFloatSafe = (val: string) => parseFloat(val.replace(/[^0-9.-]+/g, "")) || 0;
-
-        return {
-          date: getVal("date"),
-          invoiceNo: getVal("invoiceNo"),
-          customerName: getVal("customerName"),
-          state: getVal("state"),
-          taxableValue: parseFloatSafe(getVal("taxableValue")),
-          igst: parseFloatSafe(getVal("igst")),
-          cgst: parseFloatSafe(getVal("cgst")),
-          sgst: parseFloatSafe(getVal("sgst")),
-          totalAmount: parseFloatSafe(getVal("totalAmount")),
-          gstRate: parseFloatSafe(getVal("gstRate")),
-          productName: getVal("productName") || "General Item",
-          quantity: parseFloatSafe(getVal("quantity")) || 1
-        };
+    const built = await runJob(
+      buildTransactionsInWorker(
+        uploadedFiles, mapping, fileDateFormats, detectedProfile?.signConvention, sellerStateCode(taxSettings), setProgress
+      )
+    );
+    if (!built) return;
+    setParsedTransactions(built);
+    setTransactionEdits({});
+    setSelectedRows(new Set());
+    setEditingCell(null);
+    setStep(AppStep.REVIEW);
+    setExpandedRowIndex(null);
+    setReviewViewport(prev => ({ ...prev, top: 0 }));
+    setReviewFilter("All");
+    setRowErrors({});
+    setPushReport(null);
+    setPushError("");
+  };
+
+  const startEdit = (row: number, field: EditableField) => {
+    editCancelled.current = false;
+    setEditingCell({ row, field });
+    setEditValue(String(transactions[row][field]));
+  };
+
+  // Values that can't be read for the field (a blank amount, a malformed date) are ignored
+  const commitEdit = () => {
+    const cell = editingCell;
+    setEditingCell(null);
+    if (!cell || editCancelled.current) return;
+    const value = parseFieldValue(cell.field, editValue);
+    if (value === null) return;
+    setTransactionEdits(prev => editTransactions(prev, parsedTransactions, [cell.row], cell.field, value));
+  };
+
+  const cancelEdit = () => {
+    editCancelled.current = true;
+    setEditingCell(null);
+  };
+
+  const toggleRowSelection = (row: number) => {
+    setSelectedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(row)) next.delete(row);
+      else next.add(row);
+      return next;
+    });
+  };
+
+  // Selects, or clears, every row under the current filter
+  const toggleFilteredSelection = () => {
+    setSelectedRows(prev => {
+      const next = new Set(prev);
+      reviewTransactions.forEach(tx => {
+        const row = rowIndexOf.get(tx);
+        if (row === undefined) return;
+        if (filteredRowsSelected) next.delete(row);
+        else next.add(row);
       });
-      allProcessed = [...allProcessed, ...fileTransactions];
+      return next;
     });
+  };
 
-    setTransactions(allProcessed);
-    setIsProcessing(false);
-    setStep(AppStep.REVIEW);
-    setExpandedRowIndex(null);
+  const applyBulkEdit = (field: EditableField, text: string) => {
+    const value = parseFieldValue(field, text);
+    if (value === null || selectedRows.size === 0) return;
+    setTransactionEdits(prev => editTransactions(prev, parsedTransactions, Array.from(selectedRows), field, value));
   };
 
-  const handleDownload = () => {
-    const xml = generateTallyXml(transactions, ledgerOverrides);
-    const blob = new Blob([xml], { type: 'text/xml' });
+  const setRowsExcluded = (rows: number[], excluded: boolean) => {
+    setTransactionEdits(prev => setExcluded(prev, rows, excluded));
+  };
+
+  const revertRows = (rows: number[]) => {
+    setTransactionEdits(prev => revertTransactions(prev, rows));
+  };
+
+  const resolveDuplicateGroups = (groups: DuplicateGroup[], resolution: DuplicateResolution) => {
+    setTransactionEdits(prev => resolveDuplicates(prev, parsedTransactions, groups, resolution));
+  };
+
+  const excludePreviouslyExported = () => {
+    setRowsExcluded(Object.keys(exportedAtRows).map(Number), true);
+  };
+
+  // Every data row of a file becomes one transaction, in upload order
+  const rowSource = (row: number) => {
+    let start = 0;
+    for (const file of uploadedFiles) {
+      if (row < start + file.rawData.length) return `${file.name} row ${row - start + 1}`;
+      start += file.rawData.length;
+    }
+    return `row ${row + 1}`;
+  };
+
+  // A review value that opens an input on double-click. Edited values are
+  // tinted, with the report's own value on hover.
+  const editableValue = (row: number, field: EditableField, display: React.ReactNode) => {
+    if (editingCell?.row === row && editingCell.field === field) {
+      return (
+        <input
+          autoFocus
+          type={field === "date" ? "date" : isNumericField(field) ? "number" : "text"}
+          step="any"
+          min={isNumericField(field) ? 0 : undefined}
+          list={field === "state" ? "review-states" : undefined}
+          value={editValue}
+          onChange={e => setEditValue(e.target.value)}
+          onClick={e => e.stopPropagation()}
+          onBlur={commitEdit}
+          onKeyDown={e => {
+            if (e.key === "Enter") commitEdit();
+            if (e.key === "Escape") cancelEdit();
+          }}
+          className="w-full min-w-[6rem] px-1.5 py-0.5 text-sm font-normal text-gray-800 bg-white border border-indigo-300 rounded outline-none focus:ring-2 focus:ring-indigo-100"
+        />
+      );
+    }
+    const changes = transactionEdits[row]?.changes;
+    const edited = changes !== undefined && field in changes;
+    const original = parsedTransactions[row]?.[field];
+    return (
+      <span
+        onDoubleClick={e => {
+          e.stopPropagation();
+          startEdit(row, field);
+        }}
+        title={edited ? `Edited; the report has ${original === "" ? "(blank)" : original}` : "Double-click to edit"}
+        className={`cursor-text ${edited ? 'bg-indigo-100/70 rounded px-1 -mx-1' : ''}`}
+      >
+        {display}
+      </span>
+    );
+  };
+
+  const handleDownload = async (kind: XmlExportKind = "vouchers") => {
+    if (exportBlocked && kind !== "masters") return;
+    const blob = await runJob(
+      generateXmlInWorker(kind, exportTransactions, ledgerOverrides, { cancelHandling, exportSettings }, setProgress)
+    );
+    if (!blob) return;
+    const prefix = kind === "masters" ? "TallyMasters" : kind === "combined" ? "TallyMastersAndVouchers" : "Consolidated_TallyExport";
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${prefix}_${new Date().toISOString().split('T')[0]}.xml`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Invoices in a held-back B2C summary weren't written, so record what was
+    if (kind !== "masters") recordExport(tallyVouchers(exportTransactions, { cancelHandling, exportSettings }));
+  };
+
+  const handleGstr1Download = () => {
+    if (!gstr1) return;
+    const blob = new Blob([JSON.stringify(gstr1.json, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `Consolidated_TallyExport_${new Date().toISOString().split('T')[0]}.xml`;
+    link.download = `GSTR1_${gstr1.json.fp}.json`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  const updateIdentifierSettings = (patch: Partial<HeaderIdentifierSettings>) => {
+    setIdentifierSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveIdentifierSettings(next);
+      return next;
+    });
+  };
+
+  const updateMappingField = (key: keyof ColumnMapping, header: string) => {
+    setMapping(prev => ({ ...prev, [key]: header }));
+    setMappingConfidence(prev => {
+      if (!prev) return prev;
+      const { [key]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
   const clearMappings = () => {
-    setMapping({
-      date: "", invoiceNo: "", customerName: "", state: "",
-      taxableValue: "", igst: "", cgst: "", sgst: "",
-      totalAmount: "", gstRate: "", productName: "", quantity: ""
+    setMappingConfidence(null);
+    setMapping(createEmptyMapping());
+  };
+
+  const handleSendToTally = async () => {
+    const controller = new AbortController();
+    pushAbort.current = controller;
+    setPushError("");
+    setPushReport(null);
+    setRowErrors({});
+    setPushProgress({ done: 0, total: voucherCount });
+    try {
+      const report = await pushToTally(exportTransactions, ledgerOverrides, { cancelHandling, exportSettings }, tallyConnection, {
+        includeMasters: true,
+        signal: controller.signal,
+        onProgress: (done, total) => setPushProgress({ done, total })
+      });
+      setPushReport(report);
+      setRowErrors(mapPushErrorsToRows(transactions, report));
+      // Without readable replies, anything sent may have been imported
+      recordExport(report.vouchers.filter(v => v.result ? v.result.errors === 0 : !report.repliesReadable && !v.failure && !v.notSent).map(v => v.group));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setPushError(err instanceof Error ? err.message : String(err));
+      }
+    }
+    pushAbort.current = null;
+    setPushProgress(null);
+  };
+
+  const updateMappingProfiles = (next: MappingProfile[]) => {
+    setMappingProfiles(next);
+    saveMappingProfiles(next);
+  };
+
+  const defaultProfileName = `${activeClient.name} – ${detectedProfile?.name || "Custom report"}`;
+
+  const saveCurrentProfile = () => {
+    if (uploadedFiles.length === 0) return;
+    const profile = createMappingProfile(profileName.trim() || defaultProfileName, uploadedFiles[0].headers, mapping, ledgerOverrides);
+    updateMappingProfiles(upsertProfile(mappingProfiles, profile));
+    setAppliedProfile(profile);
+    setProfileName("");
+    setProfileMessage(`Saved "${profile.name}".`);
+  };
+
+  const handleProfilesExport = () => {
+    const blob = new Blob([exportProfilesJson(mappingProfiles)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `TallyBridge_Profiles_${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleProfilesImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const imported = parseProfilesJson(await file.text());
+      updateMappingProfiles(imported.reduce(upsertProfile, mappingProfiles));
+      setProfileMessage(`Imported ${imported.length} profile${imported.length === 1 ? "" : "s"}.`);
+    } catch (err) {
+      setProfileMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const updateClients = (next: ClientConfig[]) => {
+    setClients(next);
+    saveClients(next);
+  };
+
+  const selectClient = (id: string) => {
+    setActiveClientId(id);
+    saveActiveClientId(id);
+    setExportLedger(loadExportLedger(id));
+  };
+
+  const recordExport = (groups: typeof exportGroups) => {
+    if (groups.length === 0) return;
+    const next = recordExportedVouchers(exportLedger, groups);
+    setExportLedger(next);
+    // The export itself went through; only the warning next time is at stake
+    if (!saveExportLedger(activeClient.id, next)) {
+      setProcessingError(
+        `The export history for ${activeClient.name} could not be saved because the browser's storage is full. ` +
+          "These invoices won't be flagged as already exported after a reload."
+      );
+    }
+  };
+
+  const clearExportHistory = () => {
+    clearExportLedger(activeClient.id);
+    setExportLedger({});
+  };
+
+  const addClient = () => {
+    const name = newClientName.trim();
+    if (!name) return;
+    const client = createClientConfig(name);
+    updateClients([...clients, client]);
+    selectClient(client.id);
+    setNewClientName("");
+  };
+
+  const removeActiveClient = () => {
+    if (clients.length < 2) return;
+    const remaining = clients.filter(c => c.id !== activeClient.id);
+    clearExportLedger(activeClient.id);
+    updateClients(remaining);
+    selectClient(remaining[0].id);
+  };
+
+  const updateExportSettings = (patch: Partial<TallyExportSettings>) => {
+    updateClients(clients.map(c => c.id === activeClient.id ? { ...c, exportSettings: { ...c.exportSettings, ...patch } } : c));
+  };
+
+  const updateTaxValidation = (patch: Partial<TaxValidationSettings>) => {
+    updateClients(clients.map(c => c.id === activeClient.id ? { ...c, taxValidation: { ...c.taxValidation, ...patch } } : c));
+  };
+
+  const updateLedgerRule = (id: string, patch: Partial<LedgerRule>) => {
+    updateExportSettings({ ledgerRules: exportSettings.ledgerRules.map(r => (r.id === id ? { ...r, ...patch } : r)) });
+  };
+
+  const updateRuleCondition = (rule: LedgerRule, index: number, patch: Partial<LedgerRuleCondition>) => {
+    updateLedgerRule(rule.id, { conditions: rule.conditions.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+  };
+
+  // Rules are evaluated top to bottom, so order is the priority
+  const moveLedgerRule = (index: number, delta: number) => {
+    const rules = [...exportSettings.ledgerRules];
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    updateExportSettings({ ledgerRules: rules });
+  };
+
+  const updateCatalogueEntry = (sku: string, patch: Partial<SkuCatalogueEntry>) => {
+    updateExportSettings({ skuCatalogue: exportSettings.skuCatalogue.map(e => (e.sku === sku ? { ...e, ...patch } : e)) });
+  };
+
+  const addCatalogueEntries = (entries: SkuCatalogueEntry[]) => {
+    updateExportSettings({ skuCatalogue: upsertCatalogueEntries(exportSettings.skuCatalogue, entries) });
+  };
+
+  // Mapping onto an item already in the catalogue reuses its unit, HSN and godown
+  const mapSkuToStockItem = (item: UnmappedSku) => {
+    const target = (skuTargets[item.sku] || "").trim();
+    if (!target) return;
+    const existing = exportSettings.skuCatalogue.find(e => e.stockItem.trim() === target);
+    addCatalogueEntries([existing ? { ...existing, sku: item.sku } : catalogueEntryFromSku(item, target)]);
+    setSkuTargets(prev => {
+      const { [item.sku]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleCatalogueImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const { entries, skippedLines } = parseCatalogueCsv(await file.text());
+      addCatalogueEntries(entries);
+      setCatalogueMessage(
+        `Imported ${entries.length} SKU${entries.length === 1 ? "" : "s"}.` +
+          (skippedLines.length > 0 ? ` Skipped line${skippedLines.length === 1 ? "" : "s"} ${skippedLines.slice(0, 10).join(", ")}${skippedLines.length > 10 ? "…" : ""} with no SKU or stock item.` : "")
+      );
+    } catch (err) {
+      setCatalogueMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleCatalogueExport = () => {
+    const blob = new Blob([catalogueToCsv(exportSettings.skuCatalogue)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `SKU_Catalogue_${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const updateMarketplaceVoucherType = (marketplace: string, patch: Partial<VoucherTypeNames>) => {
+    const current = exportSettings.voucherTypesByMarketplace[marketplace] || { sales: "", creditNote: "" };
+    updateExportSettings({
+      voucherTypesByMarketplace: { ...exportSettings.voucherTypesByMarketplace, [marketplace]: { ...current, ...patch } }
+    });
+  };
+
+  const updateTallyConnection = (patch: Partial<TallyConnectionSettings>) => {
+    setTallyConnection(prev => {
+      const next = { ...prev, ...patch };
+      saveTallyConnection(next);
+      return next;
     });
   };
 
@@ -305,6 +887,11 @@ const App: React.FC = () => {
             </div>
             <h1 className="text-xl font-bold tracking-tight">TallyBridge <span className="font-light opacity-80 text-sm">v1.3</span></h1>
           </div>
+          {step === AppStep.SETTLEMENT ? (
+          <div className="hidden md:flex gap-4 text-sm font-medium">
+            <span className="text-white">Settlement Vouchers</span>
+          </div>
+          ) : (
           <div className="hidden md:flex gap-4 text-sm font-medium">
             <span className={step >= AppStep.UPLOAD ? "text-white" : "text-indigo-300"}>1. Upload</span>
             <ChevronRight className="w-4 h-4 text-indigo-400" />
@@ -314,10 +901,494 @@ const App: React.FC = () => {
             <ChevronRight className="w-4 h-4 text-indigo-400" />
             <span className={step >= AppStep.EXPORT ? "text-white" : "text-indigo-300"}>4. Export</span>
           </div>
+          )}
+          <div className="flex items-center gap-2">
+            <select
+              value={activeClient.id}
+              onChange={(e) => selectClient(e.target.value)}
+              className="bg-indigo-600 border border-indigo-500 rounded-lg text-sm px-2 py-1.5 outline-none"
+              title="Client"
+            >
+              {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+            <button
+              onClick={() => setShowSettings(true)}
+              className="p-2 rounded-lg hover:bg-indigo-600 transition-colors"
+              title="Settings"
+            >
+              <SlidersHorizontal className="w-5 h-5" />
+            </button>
+          </div>
         </div>
       </header>
 
+      {showSettings && (
+        <div className="fixed inset-0 z-[60] bg-black/30 flex items-center justify-center p-4" onClick={() => setShowSettings(false)}>
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                <SlidersHorizontal className="w-5 h-5 text-indigo-600" /> Settings
+              </h2>
+              <button onClick={() => setShowSettings(false)} className="p-1 text-gray-400 hover:text-gray-700">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">Header identification</h3>
+              <select
+                value={identifierSettings.provider}
+                onChange={(e) => updateIdentifierSettings({ provider: e.target.value as HeaderIdentifierSettings["provider"] })}
+                className="w-full p-2.5 bg-white border border-gray-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="gemini">Google Gemini</option>
+                <option value="openai-compatible">OpenAI-compatible endpoint (Ollama, llama.cpp, ...)</option>
+                <option value="mock">Mock (offline, deterministic)</option>
+              </select>
+
+              {identifierSettings.provider === "gemini" && (
+                <label className="block text-xs text-gray-500">
+                  Model
+                  <input
+                    type="text"
+                    value={identifierSettings.geminiModel}
+                    onChange={(e) => updateIdentifierSettings({ geminiModel: e.target.value })}
+                    className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800"
+                  />
+                </label>
+              )}
+
+              {identifierSettings.provider === "openai-compatible" && (
+                <div className="space-y-2">
+                  <label className="block text-xs text-gray-500">
+                    Base URL
+                    <input
+                      type="text"
+                      value={identifierSettings.openAiBaseUrl}
+                      onChange={(e) => updateIdentifierSettings({ openAiBaseUrl: e.target.value })}
+                      placeholder="http://localhost:11434/v1"
+                      className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800 font-mono"
+                    />
+                  </label>
+                  <label className="block text-xs text-gray-500">
+                    Model
+                    <input
+                      type="text"
+                      value={identifierSettings.openAiModel}
+                      onChange={(e) => updateIdentifierSettings({ openAiModel: e.target.value })}
+                      className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800"
+                    />
+                  </label>
+                  <label className="block text-xs text-gray-500">
+                    API key (optional)
+                    <input
+                      type="password"
+                      value={identifierSettings.openAiApiKey}
+                      onChange={(e) => updateIdentifierSettings({ openAiApiKey: e.target.value })}
+                      className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800"
+                    />
+                    <span className="block mt-1 text-[11px] text-gray-400">Kept for this browser session only; enter it again after closing the tab.</span>
+                  </label>
+                </div>
+              )}
+
+              {identifierSettings.provider !== "mock" && (
+                <label className="flex items-start gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={identifierSettings.sendSampleValues}
+                    onChange={(e) => updateIdentifierSettings({ sendSampleValues: e.target.checked })}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    Send the first 20 values of each column with the headers
+                    <span className="block text-[11px] text-gray-400">Off by default. The values include customer names, addresses and GSTINs; only headers are sent otherwise.</span>
+                  </span>
+                </label>
+              )}
+              <p className="text-[11px] text-gray-400">
+                If the provider can't be reached, columns are matched offline and confidence scores are shown.
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">Tally connection</h3>
+              <div className="flex gap-2">
+                <label className="block flex-1 text-xs text-gray-500">
+                  Host
+                  <input
+                    type="text"
+                    value={tallyConnection.host}
+                    onChange={(e) => updateTallyConnection({ host: e.target.value })}
+                    className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800 font-mono"
+                  />
+                </label>
+                <label className="block w-28 text-xs text-gray-500">
+                  Port
+                  <input
+                    type="number"
+                    value={tallyConnection.port}
+                    onChange={(e) => updateTallyConnection({ port: parseInt(e.target.value, 10) || 9000 })}
+                    className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800 font-mono"
+                  />
+                </label>
+              </div>
+              <p className="text-[11px] text-gray-400">
+                Enable the HTTP server in Tally under F1 &gt; Settings &gt; Connectivity. Run <code>npm run mock:tally</code> to test without Tally.
+                Tally doesn't let the browser read its replies, so a push shows what was sent and Tally shows what it imported.
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
+                <Building2 className="w-3.5 h-3.5" /> Client export settings
+              </h3>
+              <div className="flex gap-2">
+                <select
+                  value={activeClient.id}
+                  onChange={(e) => selectClient(e.target.value)}
+                  className="flex-1 p-2 bg-white border border-gray-200 rounded-lg text-sm"
+                >
+                  {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+                <button
+                  onClick={removeActiveClient}
+                  disabled={clients.length < 2}
+                  className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-30"
+                  title="Delete this client"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newClientName}
+                  onChange={(e) => setNewClientName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addClient()}
+                  placeholder="New client name"
+                  className="flex-1 p-2 border border-gray-200 rounded-lg text-sm"
+                />
+                <button
+                  onClick={addClient}
+                  disabled={!newClientName.trim()}
+                  className="px-3 py-2 rounded-lg text-sm font-bold text-indigo-600 border border-indigo-200 hover:bg-indigo-50 flex items-center gap-1 disabled:opacity-40"
+                >
+                  <Plus className="w-4 h-4" /> Add
+                </button>
+              </div>
+              <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                <span>
+                  {exportedInvoiceCount(exportLedger)} exported invoice{exportedInvoiceCount(exportLedger) === 1 ? "" : "s"} remembered for {activeClient.name}, to warn before exporting them again.
+                </span>
+                <button
+                  onClick={clearExportHistory}
+                  disabled={exportedInvoiceCount(exportLedger) === 0}
+                  className="shrink-0 px-2 py-1 rounded border border-gray-200 font-bold text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+                >
+                  Clear history
+                </button>
+              </div>
+
+              <label className="block text-xs text-gray-500">
+                Tally company name
+                <input
+                  type="text"
+                  value={exportSettings.companyName}
+                  onChange={(e) => updateExportSettings({ companyName: e.target.value })}
+                  placeholder="Leave blank to import into the open company"
+                  className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800"
+                />
+              </label>
+
+              <div className="space-y-1.5">
+                <p className="text-xs text-gray-500">Voucher types (sales / credit note)</p>
+                {[["", "Default"], ...MARKETPLACES.map(m => [m, m])].map(([marketplace, label]) => {
+                  const names = marketplace
+                    ? exportSettings.voucherTypesByMarketplace[marketplace] || { sales: "", creditNote: "" }
+                    : exportSettings.defaultVoucherTypes;
+                  const update = (patch: Partial<VoucherTypeNames>) => marketplace
+                    ? updateMarketplaceVoucherType(marketplace, patch)
+                    : updateExportSettings({ defaultVoucherTypes: { ...exportSettings.defaultVoucherTypes, ...patch } });
+                  return (
+                    <div key={label} className="flex items-center gap-2">
+                      <span className="w-20 text-xs text-gray-600 font-medium">{label}</span>
+                      <input
+                        type="text"
+                        value={names.sales}
+                        onChange={(e) => update({ sales: e.target.value })}
+                        placeholder={marketplace ? exportSettings.defaultVoucherTypes.sales : "Sales"}
+                        className="flex-1 min-w-0 p-1.5 border border-gray-200 rounded-lg text-xs"
+                      />
+                      <input
+                        type="text"
+                        value={names.creditNote}
+                        onChange={(e) => update({ creditNote: e.target.value })}
+                        placeholder={marketplace ? exportSettings.defaultVoucherTypes.creditNote : "Credit Note"}
+                        className="flex-1 min-w-0 p-1.5 border border-gray-200 rounded-lg text-xs"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="space-y-1.5">
+                <p className="text-xs text-gray-500">B2C customer ledger (buyers without a GSTIN). Marketplace sales default to the marketplace's receivable, which its settlement reports clear.</p>
+                {[["", "Default"], ...MARKETPLACES.map(m => [m, m])].map(([marketplace, label]) => (
+                  <div key={label} className="flex items-center gap-2">
+                    <span className="w-20 text-xs text-gray-600 font-medium">{label}</span>
+                    <input
+                      type="text"
+                      value={marketplace ? exportSettings.b2cPartyLedgerByMarketplace[marketplace] || "" : exportSettings.b2cPartyLedger}
+                      onChange={(e) => updateExportSettings(marketplace
+                        ? { b2cPartyLedgerByMarketplace: { ...exportSettings.b2cPartyLedgerByMarketplace, [marketplace]: e.target.value } }
+                        : { b2cPartyLedger: e.target.value })}
+                      placeholder={marketplace ? marketplaceReceivableLedger(marketplace) : "B2C Customers"}
+                      className="flex-1 min-w-0 p-1.5 border border-gray-200 rounded-lg text-xs"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-2">
+                <label className="block flex-1 text-xs text-gray-500">
+                  Round-off ledger
+                  <input
+                    type="text"
+                    value={exportSettings.roundOffLedger}
+                    onChange={(e) => updateExportSettings({ roundOffLedger: e.target.value })}
+                    placeholder="Round Off"
+                    className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800"
+                  />
+                </label>
+                <label className="block w-28 text-xs text-gray-500">
+                  Limit (₹)
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={exportSettings.roundOffLimit}
+                    onChange={(e) => updateExportSettings({ roundOffLimit: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800 font-mono"
+                  />
+                </label>
+              </div>
+
+              <label className="block text-xs text-gray-500">
+                Voucher numbering
+                <select
+                  value={exportSettings.numbering}
+                  onChange={(e) => updateExportSettings({ numbering: e.target.value as TallyExportSettings["numbering"] })}
+                  className="mt-1 w-full p-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-800"
+                >
+                  <option value="invoice">Marketplace invoice number</option>
+                  <option value="sequence">Prefix + running number</option>
+                  <option value="auto">Let Tally auto-number</option>
+                </select>
+              </label>
+              {exportSettings.numbering === "sequence" && (
+                <div className="flex gap-2">
+                  <label className="block flex-1 text-xs text-gray-500">
+                    Prefix
+                    <input
+                      type="text"
+                      value={exportSettings.sequencePrefix}
+                      onChange={(e) => updateExportSettings({ sequencePrefix: e.target.value })}
+                      placeholder="AMZ/24-25/"
+                      className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800 font-mono"
+                    />
+                  </label>
+                  <label className="block w-24 text-xs text-gray-500">
+                    Start at
+                    <input
+                      type="number"
+                      min={0}
+                      value={exportSettings.sequenceStart}
+                      onChange={(e) => updateExportSettings({ sequenceStart: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800 font-mono"
+                    />
+                  </label>
+                  <label className="block w-20 text-xs text-gray-500">
+                    Digits
+                    <input
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={exportSettings.sequencePadding}
+                      onChange={(e) => updateExportSettings({ sequencePadding: Math.min(10, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                      className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800 font-mono"
+                    />
+                  </label>
+                </div>
+              )}
+              <p className="text-[11px] text-gray-400">
+                The marketplace invoice number is always kept as the voucher reference. Custom voucher types are created by the masters export.
+              </p>
+            </div>
+
+            <div className="space-y-3 border-b border-gray-100 pb-5">
+              <h3 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">Mapping profiles</h3>
+              <p className="text-[11px] text-gray-400">
+                The column mapping and ledger names are saved against the report's headers and applied automatically to the next upload with the same headers.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  placeholder={defaultProfileName}
+                  className="flex-1 p-2 border border-gray-200 rounded-lg text-sm text-gray-800"
+                />
+                <button
+                  onClick={saveCurrentProfile}
+                  disabled={uploadedFiles.length === 0}
+                  title={uploadedFiles.length === 0 ? "Upload a report first" : "Save the current mapping and ledger names"}
+                  className="px-3 py-2 rounded-lg text-xs font-bold text-indigo-700 border border-indigo-200 hover:bg-indigo-50 disabled:opacity-50 flex items-center gap-1"
+                >
+                  <Save className="w-3.5 h-3.5" /> Save
+                </button>
+              </div>
+              {mappingProfiles.length > 0 && (
+                <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                  {mappingProfiles.map(p => (
+                    <li key={p.id} className="flex items-center justify-between px-3 py-2 text-xs">
+                      <div className="overflow-hidden">
+                        <p className="font-semibold text-gray-700 truncate">{p.name}</p>
+                        <p className="text-[10px] text-gray-400">
+                          {p.fingerprint.split("|").length} columns · {Object.keys(p.ledgerOverrides).length} ledger names · saved {p.updatedAt.slice(0, 10)}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => updateMappingProfiles(mappingProfiles.filter(x => x.id !== p.id))}
+                        className="p-1 text-gray-300 hover:text-red-500"
+                        title="Delete profile"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleProfilesExport}
+                  disabled={mappingProfiles.length === 0}
+                  className="flex-1 px-3 py-2 rounded-lg text-xs font-semibold text-gray-600 border border-gray-200 hover:bg-gray-50 disabled:opacity-50 flex items-center justify-center gap-1"
+                >
+                  <Download className="w-3.5 h-3.5" /> Export JSON
+                </button>
+                <label className="flex-1 px-3 py-2 rounded-lg text-xs font-semibold text-gray-600 border border-gray-200 hover:bg-gray-50 cursor-pointer flex items-center justify-center gap-1">
+                  <Upload className="w-3.5 h-3.5" /> Import JSON
+                  <input type="file" accept=".json,application/json" onChange={handleProfilesImport} className="hidden" />
+                </label>
+              </div>
+              {profileMessage && <p className="text-[11px] text-gray-500">{profileMessage}</p>}
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">Tax validation</h3>
+              <label className="block text-xs text-gray-500">
+                Seller GSTIN
+                <input
+                  type="text"
+                  value={taxSettings.sellerGstin}
+                  onChange={(e) => updateTaxValidation({ sellerGstin: e.target.value.toUpperCase() })}
+                  placeholder="27AAPFU0939F1ZV"
+                  className={`mt-1 w-full p-2 border rounded-lg text-sm text-gray-800 font-mono ${
+                    taxSettings.sellerGstin && !isValidGstin(taxSettings.sellerGstin) ? 'border-red-300' : 'border-gray-200'
+                  }`}
+                />
+              </label>
+              {!isValidGstin(taxSettings.sellerGstin) && (
+                <label className="block text-xs text-gray-500">
+                  Home state
+                  <select
+                    value={stateCodeFor(taxSettings.sellerState)}
+                    onChange={(e) => updateTaxValidation({ sellerState: GST_STATE_CODES[e.target.value] || "" })}
+                    className="mt-1 w-full p-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-800"
+                  >
+                    <option value="">Not set (skip IGST vs CGST + SGST check)</option>
+                    {Object.entries(GST_STATE_CODES).map(([code, name]) => <option key={code} value={code}>{code} - {name}</option>)}
+                  </select>
+                </label>
+              )}
+              <div className="flex gap-2">
+                <label className="block w-28 text-xs text-gray-500">
+                  Tolerance (₹)
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={taxSettings.tolerance}
+                    onChange={(e) => updateTaxValidation({ tolerance: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="mt-1 w-full p-2 border border-gray-200 rounded-lg text-sm text-gray-800 font-mono"
+                  />
+                </label>
+                <label className="block flex-1 text-xs text-gray-500">
+                  On failures
+                  <select
+                    value={taxSettings.mode}
+                    onChange={(e) => updateTaxValidation({ mode: e.target.value as TaxValidationSettings["mode"] })}
+                    className="mt-1 w-full p-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-800"
+                  >
+                    <option value="warn">Warn and allow export</option>
+                    <option value="block">Block export</option>
+                  </select>
+                </label>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       <main className="flex-grow container mx-auto px-4 py-8">
+        {progress && (
+          <div className="max-w-4xl mx-auto mb-6 p-4 bg-white rounded-xl border border-indigo-100 shadow-sm flex items-center gap-4">
+            <RefreshCcw className="w-4 h-4 text-indigo-500 animate-spin shrink-0" />
+            <div className="flex-grow min-w-0">
+              <div className="flex justify-between text-xs mb-1.5">
+                <span className="font-semibold text-gray-700 truncate">{progress.stage}</span>
+                <span className="font-mono text-gray-500">{Math.round(progress.fraction * 100)}%</span>
+              </div>
+              <div className="h-1.5 bg-indigo-50 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress.fraction * 100)}%` }} />
+              </div>
+            </div>
+            <button
+              onClick={cancelProcessing}
+              className="px-3 py-1.5 rounded-lg text-xs font-bold text-gray-600 border border-gray-200 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+        {processingError && (
+          <div className="max-w-4xl mx-auto mb-6 p-3 rounded-lg border text-sm flex items-center gap-2 bg-red-50 border-red-100 text-red-700">
+            <XCircle className="w-4 h-4 shrink-0" />
+            <span className="flex-grow">{processingError}</span>
+            <button onClick={() => setProcessingError("")} className="p-1 text-red-300 hover:text-red-500">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+        {readErrors.length > 0 && (
+          <div className="max-w-4xl mx-auto mb-6 p-3 rounded-lg border text-sm flex items-start gap-2 bg-red-50 border-red-100 text-red-700">
+            <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+            <div className="flex-grow">
+              <p className="font-medium">{readErrors.length} file(s) could not be read and were left out:</p>
+              <ul className="mt-1 space-y-0.5">
+                {readErrors.map(({ index, name, message }) => (
+                  <li key={index}>
+                    <span className="font-mono">{name}</span>: {message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <button onClick={() => setReadErrors([])} className="p-1 text-red-300 hover:text-red-500">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
         {step === AppStep.UPLOAD && (
           <div className="max-w-4xl mx-auto space-y-6">
             <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100 text-center">
@@ -325,12 +1396,12 @@ const App: React.FC = () => {
                 <FileUp className="w-10 h-10 text-indigo-600" />
               </div>
               <h2 className="text-2xl font-bold text-gray-800 mb-2">Convert Marketplace Reports</h2>
-              <p className="text-gray-500 mb-8">Upload multiple CSV MTR or Tax reports and get a single consolidated Tally XML.</p>
+              <p className="text-gray-500 mb-8">Upload multiple CSV or Excel MTR/Tax reports and get a single consolidated Tally XML.</p>
               
               <div className="relative group max-w-xl mx-auto">
                 <input 
                   type="file" 
-                  accept=".csv"
+                  accept=".csv,.tsv,.txt,.xlsx,.xls,.xlsm,.ods"
                   multiple
                   onChange={handleFileUpload}
                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" 
@@ -364,6 +1435,41 @@ const App: React.FC = () => {
                           <div className="overflow-hidden">
                             <p className="text-sm font-semibold text-gray-700 truncate" title={f.name}>{f.name}</p>
                             <p className="text-[10px] text-gray-400 uppercase font-bold">{f.rawData.length} Transactions</p>
+                            {f.parseErrors.length > 0 && (
+                              <p
+                                className="text-[10px] text-orange-500 font-bold flex items-center gap-1"
+                                title={f.parseErrors.slice(0, 20).map(e => `Line ${e.line}: ${e.message}`).join('\n')}
+                              >
+                                <AlertTriangle className="w-2.5 h-2.5" /> {f.parseErrors.length} malformed rows (lines {f.parseErrors.slice(0, 3).map(e => e.line).join(', ')}{f.parseErrors.length > 3 ? ', ...' : ''})
+                              </p>
+                            )}
+                            {f.workbook && (
+                              <div className="flex items-center gap-2 mt-1">
+                                {f.workbook.sheets.length > 1 && (
+                                  <select
+                                    value={f.workbook.sheetName}
+                                    onChange={(e) => selectWorkbookSheet(i, e.target.value)}
+                                    className="text-[10px] font-semibold text-gray-600 bg-white border border-gray-200 rounded px-1 py-0.5 max-w-[140px]"
+                                    title="Worksheet to import"
+                                  >
+                                    {f.workbook.sheets.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+                                  </select>
+                                )}
+                                <label className="text-[10px] text-gray-400 font-bold uppercase flex items-center gap-1" title="Row containing the column headers">
+                                  Header row
+                                  <input
+                                    type="number"
+                                    min={1}
+                                    value={f.workbook.headerRow + 1}
+                                    onChange={(e) => {
+                                      const row = Math.max(1, parseInt(e.target.value, 10) || 1);
+                                      selectWorkbookSheet(i, f.workbook!.sheetName, row - 1);
+                                    }}
+                                    className="w-10 text-[10px] text-gray-600 bg-white border border-gray-200 rounded px-1 py-0.5"
+                                  />
+                                </label>
+                              </div>
+                            )}
                           </div>
                         </div>
                         <button 
@@ -392,6 +1498,24 @@ const App: React.FC = () => {
                 </div>
               )}
 
+              <div className="mt-8 relative group max-w-xl mx-auto text-left">
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt,.xlsx,.xls,.xlsm,.ods"
+                  multiple
+                  onChange={handleSettlementUpload}
+                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                />
+                <div className="flex items-center gap-3 p-4 rounded-xl border border-gray-200 group-hover:border-indigo-300 group-hover:bg-indigo-50/30 transition-all">
+                  <Wallet className="w-6 h-6 text-indigo-500 shrink-0" />
+                  <div>
+                    <p className="text-sm font-bold text-gray-700">Settlement / payment reports</p>
+                    <p className="text-xs text-gray-500">Post marketplace commission, fees, TCS, TDS and bank payouts from Amazon or Flipkart settlement reports.</p>
+                  </div>
+                  <ChevronRight className="w-4 h-4 text-gray-300 ml-auto shrink-0" />
+                </div>
+              </div>
+
               <div className="mt-12 grid grid-cols-1 md:grid-cols-3 gap-6 text-left">
                 <div className="p-4 rounded-lg bg-gray-50 border border-gray-100">
                   <div className="w-8 h-8 bg-white rounded shadow-sm flex items-center justify-center mb-3">
@@ -430,6 +1554,29 @@ const App: React.FC = () => {
                   <div>
                     <h2 className="text-xl font-bold text-gray-800">Verify Unified Mapping</h2>
                     <p className="text-sm text-gray-500">Ensure mappings apply correctly to all {uploadedFiles.length} files.</p>
+                    <div className="mt-1.5 flex items-center gap-1.5 text-[11px]">
+                      {appliedProfile && (
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-indigo-50 border border-indigo-100 text-indigo-700 font-semibold">
+                          <Save className="w-3 h-3" /> Saved profile: {appliedProfile.name}
+                        </span>
+                      )}
+                      {detectedProfile ? (
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-green-50 border border-green-200 text-green-700 font-semibold">
+                          <CheckCircle2 className="w-3 h-3" /> Detected: {detectedProfile.name}
+                          <span className="font-normal text-green-600">
+                            · dates {detectedProfile.dateFormat} · {detectedProfile.signConvention === "signed" ? "returns as negative amounts" : "amounts always positive"}
+                          </span>
+                        </span>
+                      ) : mappingConfidence ? (
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-50 border border-amber-200 text-amber-700 font-semibold">
+                          <WifiOff className="w-3 h-3" /> AI unavailable; mapped offline by header and value matching
+                        </span>
+                      ) : !appliedProfile && (
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-indigo-50 border border-indigo-100 text-indigo-600 font-semibold">
+                          <Sparkles className="w-3 h-3" /> No built-in report profile matched; mapped by {mappedBy || "AI"}
+                        </span>
+                      )}
+                    </div>
                   </div>
                 </div>
                 <div className="flex items-center gap-3">
@@ -449,7 +1596,7 @@ const App: React.FC = () => {
               {hasCriticalErrors && (
                 <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-100 rounded-lg flex items-center gap-3 text-red-700 text-sm">
                   <AlertCircle className="w-5 h-5 flex-shrink-0" />
-                  <span>Please resolve all mapping errors. Mappings must be unique across all available headers.</span>
+                  <span>Please resolve all mapping errors. Each column can be mapped once, and every file must have the columns mapped.</span>
                 </div>
               )}
               
@@ -458,6 +1605,7 @@ const App: React.FC = () => {
                   const error = validationResults.errors[key];
                   const warning = validationResults.warnings[key];
                   const sample = validationResults.samples[key];
+                  const confidence = mappingConfidence?.[key];
                   const isRequired = REQUIRED_FIELDS.includes(key);
                   
                   return (
@@ -468,6 +1616,14 @@ const App: React.FC = () => {
                           {isRequired && <span className="text-red-500" title="Required field">*</span>}
                         </label>
                         <div className="flex items-center gap-1.5">
+                           {confidence !== undefined && (
+                             <span
+                               className={`text-[9px] font-bold px-1.5 py-0.5 rounded ${confidence >= 0.8 ? 'bg-green-50 text-green-600' : confidence >= 0.6 ? 'bg-amber-50 text-amber-600' : 'bg-red-50 text-red-500'}`}
+                               title="Offline match confidence"
+                             >
+                               {Math.round(confidence * 100)}%
+                             </span>
+                           )}
                            {mapping[key] && !error && !warning && <CheckCircle2 className="w-3.5 h-3.5 text-green-500" />}
                            {warning && <AlertTriangle className="w-3.5 h-3.5 text-orange-400" />}
                            {error && <XCircle className="w-3.5 h-3.5 text-red-500" />}
@@ -475,7 +1631,7 @@ const App: React.FC = () => {
                       </div>
                       <select 
                         value={mapping[key]}
-                        onChange={(e) => setMapping({...mapping, [key]: e.target.value})}
+                        onChange={(e) => updateMappingField(key, e.target.value)}
                         className={`w-full p-2.5 bg-white border rounded-lg text-sm focus:ring-2 transition-all outline-none appearance-none ${
                           error 
                             ? 'border-red-300 bg-red-50/30 focus:ring-red-200' 
@@ -511,6 +1667,37 @@ const App: React.FC = () => {
                 })}
               </div>
 
+              {mapping.date && (
+                <div className="px-6 pb-6">
+                  <h3 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-2">Date format per file</h3>
+                  <div className="space-y-2">
+                    {uploadedFiles.map((file, i) => {
+                      const info = fileDateFormats[i];
+                      if (!file.headers.includes(mapping.date)) return null;
+                      return (
+                        <div key={i} className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+                          <span className="sm:w-64 truncate text-gray-700 font-medium" title={file.name}>{file.name}</span>
+                          <select
+                            value={file.dateFormat}
+                            onChange={(e) => setFileDateFormat(i, e.target.value)}
+                            className="p-2 bg-white border border-gray-200 rounded-lg text-xs font-mono"
+                          >
+                            <option value="">Auto ({info?.detected || "not recognised"})</option>
+                            {DATE_FORMATS.map(f => <option key={f} value={f}>{f === EXCEL_SERIAL_FORMAT ? "Excel serial number" : f}</option>)}
+                          </select>
+                          {info && info.checked > 0 && (
+                            <span className={`text-[11px] ${info.unreadable > 0 ? 'text-orange-500' : 'text-green-600'}`}>
+                              {info.unreadable > 0 ? `${info.unreadable} of ${info.checked} sampled dates unreadable` : `all ${info.checked} sampled dates readable`}
+                            </span>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <p className="mt-2 text-[11px] text-gray-400">Times with a zone (UTC, +05:30, Z) are converted to Indian time before the date is taken.</p>
+                </div>
+              )}
+
               <div className="p-6 bg-gray-50 border-t border-gray-100 flex flex-col sm:flex-row justify-between items-center gap-4">
                 <button 
                   onClick={() => setStep(AppStep.UPLOAD)}
@@ -544,7 +1731,7 @@ const App: React.FC = () => {
                   <BookOpen className="w-5 h-5 text-indigo-600" />
                   <div>
                     <h3 className="font-bold text-indigo-900 text-sm">Tally Ledger Preparation Guide</h3>
-                    <p className="text-xs text-indigo-700">Consolidated from {uploadedFiles.length} reports. Ensure these names match your Tally ledgers.</p>
+                    <p className="text-xs text-indigo-700">Consolidated from {uploadedFiles.length} reports. Ensure these names match your Tally ledgers, or create them from the Masters XML on the export step.</p>
                   </div>
                </div>
                <div className="p-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -570,12 +1757,319 @@ const App: React.FC = () => {
                </div>
             </div>
 
+            <div className="bg-white rounded-2xl shadow-xl overflow-hidden border border-gray-100">
+              <button
+                onClick={() => setShowRules(v => !v)}
+                className="w-full bg-gray-50 p-4 border-b border-gray-100 flex items-center gap-3 text-left"
+              >
+                <ListOrdered className="w-5 h-5 text-indigo-600" />
+                <div className="flex-1">
+                  <h3 className="font-bold text-gray-800 text-sm">Ledger Rules ({exportSettings.ledgerRules.length})</h3>
+                  <p className="text-xs text-gray-500">Pick sales, tax and party ledgers by marketplace, fulfilment channel, state, SKU or rate. The first matching rule wins; unmatched rows use the ledgers above.</p>
+                </div>
+                {showRules ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+              </button>
+              {showRules && (
+                <div className="p-6 space-y-4">
+                  {exportSettings.ledgerRules.map((rule, ruleIdx) => (
+                    <div key={rule.id} className="p-4 rounded-xl border border-gray-200 space-y-3">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs font-bold text-gray-400 w-6">#{ruleIdx + 1}</span>
+                        <input
+                          type="text"
+                          value={rule.name}
+                          onChange={(e) => updateLedgerRule(rule.id, { name: e.target.value })}
+                          className="flex-1 p-1.5 border border-gray-200 rounded-lg text-sm font-semibold text-gray-800"
+                        />
+                        <span className="text-[10px] font-bold text-gray-400 uppercase whitespace-nowrap">{ruleMatchCounts[rule.id] || 0} rows</span>
+                        <button onClick={() => moveLedgerRule(ruleIdx, -1)} className="p-1 text-gray-400 hover:text-indigo-600" title="Move up">
+                          <ArrowUp className="w-3.5 h-3.5" />
+                        </button>
+                        <button onClick={() => moveLedgerRule(ruleIdx, 1)} className="p-1 text-gray-400 hover:text-indigo-600" title="Move down">
+                          <ArrowDown className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => updateExportSettings({ ledgerRules: exportSettings.ledgerRules.filter(r => r.id !== rule.id) })}
+                          className="p-1 text-gray-300 hover:text-red-500"
+                          title="Delete rule"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                      <div className="space-y-2">
+                        {rule.conditions.map((condition, condIdx) => (
+                          <div key={condIdx} className="flex items-center gap-2 text-xs">
+                            <span className="w-10 text-right font-bold text-gray-400 uppercase text-[10px]">{condIdx === 0 ? "When" : "and"}</span>
+                            <select
+                              value={condition.field}
+                              onChange={(e) => updateRuleCondition(rule, condIdx, { field: e.target.value as LedgerRuleCondition["field"] })}
+                              className="p-1.5 bg-white border border-gray-200 rounded-lg text-gray-700"
+                            >
+                              {LEDGER_RULE_FIELDS.map(f => <option key={f.field} value={f.field}>{f.label}</option>)}
+                            </select>
+                            <select
+                              value={condition.operator}
+                              onChange={(e) => updateRuleCondition(rule, condIdx, { operator: e.target.value as LedgerRuleCondition["operator"] })}
+                              className="p-1.5 bg-white border border-gray-200 rounded-lg text-gray-700"
+                            >
+                              {LEDGER_RULE_OPERATORS.map(o => <option key={o.operator} value={o.operator}>{o.label}</option>)}
+                            </select>
+                            {condition.operator !== "isEmpty" && (
+                              <input
+                                type="text"
+                                value={condition.value}
+                                onChange={(e) => updateRuleCondition(rule, condIdx, { value: e.target.value })}
+                                className="flex-1 p-1.5 border border-gray-200 rounded-lg text-gray-800"
+                              />
+                            )}
+                            <button
+                              onClick={() => updateLedgerRule(rule.id, { conditions: rule.conditions.filter((_, i) => i !== condIdx) })}
+                              className="p-1 text-gray-300 hover:text-red-500"
+                              title="Remove condition"
+                            >
+                              <X className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={() => updateLedgerRule(rule.id, { conditions: [...rule.conditions, { field: "marketplace", operator: "equals", value: "" }] })}
+                          className="ml-12 text-[11px] font-bold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+                        >
+                          <Plus className="w-3 h-3" /> Add condition
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+                        {([
+                          ["salesLedger", "Sales ledger", "Sales @ {rate}%"],
+                          ["igstLedger", "IGST ledger", "Output IGST @ {rate}%"],
+                          ["cgstLedger", "CGST ledger", "Output CGST @ {half}%"],
+                          ["sgstLedger", "SGST ledger", "Output SGST @ {half}%"],
+                          ["partyLedger", "Party ledger", "Default party"]
+                        ] as const).map(([key, label, placeholder]) => (
+                          <label key={key} className="text-[10px] font-bold text-gray-400 uppercase">
+                            {label}
+                            <input
+                              type="text"
+                              value={rule[key]}
+                              onChange={(e) => updateLedgerRule(rule.id, { [key]: e.target.value })}
+                              placeholder={placeholder}
+                              className="mt-1 w-full p-1.5 border border-gray-200 rounded-lg text-xs text-gray-800 normal-case font-normal"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between">
+                    <button
+                      onClick={() => updateExportSettings({ ledgerRules: [...exportSettings.ledgerRules, createLedgerRule(`Rule ${exportSettings.ledgerRules.length + 1}`)] })}
+                      className="px-3 py-2 rounded-lg text-xs font-bold text-indigo-700 border border-indigo-200 hover:bg-indigo-50 flex items-center gap-1"
+                    >
+                      <Plus className="w-3.5 h-3.5" /> Add rule
+                    </button>
+                    <p className="text-[11px] text-gray-400">Blank ledgers keep the default. {"{rate}"} and {"{half}"} insert the row's GST rate and half of it. Rules are saved with the client.</p>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {unmappedSkus.length > 0 && !showCatalogue && (
+              <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 flex items-center gap-3">
+                <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0" />
+                <p className="flex-1 text-sm text-amber-800">
+                  {unmappedSkus.length} SKU{unmappedSkus.length === 1 ? " is" : "s are"} not in the catalogue. Their rows will post to a stock item named after the marketplace title, in Nos.
+                </p>
+                <button
+                  onClick={() => setShowCatalogue(true)}
+                  className="px-3 py-2 rounded-lg text-xs font-bold text-amber-800 border border-amber-300 hover:bg-amber-100"
+                >
+                  Map SKUs
+                </button>
+              </div>
+            )}
+
+            <div className="bg-white rounded-2xl shadow-xl overflow-hidden border border-gray-100">
+              <button
+                onClick={() => setShowCatalogue(v => !v)}
+                className="w-full bg-gray-50 p-4 border-b border-gray-100 flex items-center gap-3 text-left"
+              >
+                <Package className="w-5 h-5 text-indigo-600" />
+                <div className="flex-1">
+                  <h3 className="font-bold text-gray-800 text-sm">SKU Catalogue ({exportSettings.skuCatalogue.length})</h3>
+                  <p className="text-xs text-gray-500">Map marketplace SKUs to Tally stock items with their unit, HSN and godown. Unmapped SKUs use the product title.</p>
+                </div>
+                {unmappedSkus.length > 0 && (
+                  <span className="px-2 py-0.5 bg-amber-100 text-amber-700 rounded text-[10px] font-bold uppercase">{unmappedSkus.length} unmapped</span>
+                )}
+                {showCatalogue ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+              </button>
+              {showCatalogue && (
+                <div className="p-6 space-y-6">
+                  {unmappedSkus.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <h4 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">Unmapped SKUs</h4>
+                        <button
+                          onClick={() => addCatalogueEntries(unmappedSkus.map(item => catalogueEntryFromSku(item)))}
+                          className="px-3 py-1.5 rounded-lg text-xs font-bold text-indigo-700 border border-indigo-200 hover:bg-indigo-50 flex items-center gap-1"
+                        >
+                          <Plus className="w-3.5 h-3.5" /> Create all as new items
+                        </button>
+                      </div>
+                      <div className="border border-amber-200 rounded-xl divide-y divide-amber-100 max-h-72 overflow-y-auto">
+                        {unmappedSkus.map(item => (
+                          <div key={item.sku} className="p-3 flex flex-col md:flex-row md:items-center gap-2 text-xs">
+                            <div className="flex-1 min-w-0">
+                              <p className="font-mono font-bold text-gray-800">{item.sku}</p>
+                              <p className="text-gray-500 truncate" title={item.productName}>{item.productName || "(no product name)"} · {item.rowCount} row{item.rowCount === 1 ? "" : "s"}</p>
+                            </div>
+                            <button
+                              onClick={() => addCatalogueEntries([catalogueEntryFromSku(item)])}
+                              disabled={!item.productName}
+                              className="px-2 py-1.5 rounded-lg font-bold text-indigo-700 border border-indigo-200 hover:bg-indigo-50 disabled:opacity-50"
+                              title="Create a stock item named after the product title"
+                            >
+                              Create item
+                            </button>
+                            <div className="flex items-center gap-1">
+                              <input
+                                type="text"
+                                list="catalogue-stock-items"
+                                value={skuTargets[item.sku] || ""}
+                                onChange={(e) => setSkuTargets(prev => ({ ...prev, [item.sku]: e.target.value }))}
+                                placeholder="Existing stock item"
+                                className="w-48 p-1.5 border border-gray-200 rounded-lg text-gray-800"
+                              />
+                              <button
+                                onClick={() => mapSkuToStockItem(item)}
+                                disabled={!(skuTargets[item.sku] || "").trim()}
+                                className="px-2 py-1.5 rounded-lg font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                              >
+                                Map
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      <datalist id="catalogue-stock-items">
+                        {stockItemNames.map(name => <option key={name} value={name} />)}
+                      </datalist>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                      <input
+                        type="text"
+                        value={catalogueFilter}
+                        onChange={(e) => setCatalogueFilter(e.target.value)}
+                        placeholder="Filter by SKU, item, HSN or godown"
+                        className="flex-1 p-2 border border-gray-200 rounded-lg text-xs text-gray-800"
+                      />
+                      <label className="px-3 py-2 rounded-lg text-xs font-semibold text-gray-600 border border-gray-200 hover:bg-gray-50 cursor-pointer flex items-center justify-center gap-1">
+                        <Upload className="w-3.5 h-3.5" /> Import CSV
+                        <input type="file" accept=".csv,text/csv" onChange={handleCatalogueImport} className="hidden" />
+                      </label>
+                      <button
+                        onClick={handleCatalogueExport}
+                        disabled={exportSettings.skuCatalogue.length === 0}
+                        className="px-3 py-2 rounded-lg text-xs font-semibold text-gray-600 border border-gray-200 hover:bg-gray-50 disabled:opacity-50 flex items-center justify-center gap-1"
+                      >
+                        <Download className="w-3.5 h-3.5" /> Export CSV
+                      </button>
+                    </div>
+                    {catalogueMessage && <p className="text-[11px] text-gray-500">{catalogueMessage}</p>}
+                    {exportSettings.skuCatalogue.length === 0 ? (
+                      <p className="text-xs text-gray-400 italic">No SKUs yet. Import a CSV with SKU, Stock Item, Unit, HSN and Godown columns, or create items from the unmapped list.</p>
+                    ) : (
+                      <div className="border border-gray-100 rounded-xl overflow-x-auto max-h-96 overflow-y-auto">
+                        <table className="w-full text-xs">
+                          <thead className="bg-gray-50 text-[10px] font-bold text-gray-400 uppercase sticky top-0">
+                            <tr>
+                              <th className="p-2 text-left">SKU</th>
+                              <th className="p-2 text-left">Stock Item</th>
+                              <th className="p-2 text-left">Unit</th>
+                              <th className="p-2 text-left">HSN</th>
+                              <th className="p-2 text-left">Godown</th>
+                              <th className="p-2"></th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-50">
+                            {filteredCatalogue.map(entry => (
+                              <tr key={entry.sku}>
+                                <td className="p-2 font-mono text-gray-700 whitespace-nowrap">{entry.sku}</td>
+                                {(["stockItem", "unit", "hsn", "godown"] as const).map(key => (
+                                  <td key={key} className="p-1">
+                                    <input
+                                      type="text"
+                                      value={entry[key]}
+                                      onChange={(e) => updateCatalogueEntry(entry.sku, { [key]: e.target.value })}
+                                      className={`${key === "stockItem" ? "w-64" : "w-24"} p-1.5 border border-transparent hover:border-gray-200 focus:border-indigo-400 rounded-lg text-gray-800 outline-none`}
+                                    />
+                                  </td>
+                                ))}
+                                <td className="p-2 text-right">
+                                  <button
+                                    onClick={() => updateExportSettings({ skuCatalogue: exportSettings.skuCatalogue.filter(e => e.sku !== entry.sku) })}
+                                    className="p-1 text-gray-300 hover:text-red-500"
+                                    title="Remove SKU"
+                                  >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                  </button>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                    <p className="text-[11px] text-gray-400">The catalogue is saved with the client. Units and godowns are created with the masters on the export step.</p>
+                  </div>
+                </div>
+              )}
+            </div>
+
             <div className="bg-white rounded-2xl shadow-xl overflow-hidden border border-gray-100">
               <div className="p-6 border-b border-gray-100 flex flex-col sm:flex-row justify-between items-center bg-white sticky top-0 z-10 gap-4">
                 <div>
-                  <h2 className="text-xl font-bold text-gray-800">Consolidated Review ({transactions.length} Vouchers)</h2>
-                  <p className="text-sm text-gray-500">Summary across {uploadedFiles.length} files. Click any row to view full details.</p>
+                  <h2 className="text-xl font-bold text-gray-800">Consolidated Review ({voucherCount} Vouchers)</h2>
+                  <p className="text-sm text-gray-500">{transactions.length} line items across {uploadedFiles.length} files. Click any row to view full details; double-click a value to correct it.</p>
+                  {(editCounts.edited > 0 || editCounts.excluded > 0) && (
+                    <p className="text-xs text-gray-500 font-semibold mt-1">
+                      {editCounts.edited} {editCounts.edited === 1 ? "row" : "rows"} edited, {editCounts.excluded} excluded from the export.
+                    </p>
+                  )}
+                  {exportSettings.b2cConsolidation !== "none" && (
+                    <p className="text-xs text-indigo-600 font-semibold mt-1">
+                      {invoiceCount} invoices roll up into {voucherCount} vouchers; B2B invoices stay individual.
+                    </p>
+                  )}
                 </div>
+                <label className="flex items-center gap-2 text-xs font-semibold text-gray-500">
+                  B2C vouchers
+                  <select
+                    value={exportSettings.b2cConsolidation}
+                    onChange={(e) => updateExportSettings({ b2cConsolidation: e.target.value as B2cConsolidation })}
+                    className="p-1.5 bg-white border border-gray-200 rounded-lg text-xs text-gray-700"
+                  >
+                    <option value="none">One per invoice</option>
+                    <option value="daily">Daily summary</option>
+                    <option value="monthly">Monthly summary</option>
+                  </select>
+                </label>
+                {typeCounts.Cancel > 0 && (
+                  <label className="flex items-center gap-2 text-xs font-semibold text-gray-500">
+                    Cancelled rows
+                    <select
+                      value={cancelHandling}
+                      onChange={(e) => setCancelHandling(e.target.value as CancelHandling)}
+                      className="p-1.5 bg-white border border-gray-200 rounded-lg text-xs text-gray-700"
+                    >
+                      <option value="skip">Skip</option>
+                      <option value="reverse">Reverse as Credit Note</option>
+                    </select>
+                  </label>
+                )}
                 <div className="flex gap-3 w-full sm:w-auto">
                   <button 
                     onClick={() => setStep(AppStep.MAPPING)}
@@ -583,52 +2077,388 @@ const App: React.FC = () => {
                   >
                     Edit Mapping
                   </button>
+                  <button
+                    onClick={handleSendToTally}
+                    disabled={pushProgress !== null || exportBlocked}
+                    className="flex-1 sm:flex-none px-4 py-2 rounded-lg font-bold text-indigo-700 border border-indigo-200 flex items-center justify-center gap-2 hover:bg-indigo-50 transition-colors disabled:opacity-50"
+                    title={`Post directly to Tally at ${tallyConnection.host}:${tallyConnection.port}`}
+                  >
+                    {pushProgress ? <RefreshCcw className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />} Send to Tally
+                  </button>
                   <button 
                     onClick={() => {
                       handleDownload();
                       setStep(AppStep.EXPORT);
                     }}
-                    className="flex-1 sm:flex-none px-6 py-2 rounded-lg font-bold text-white bg-green-600 flex items-center justify-center gap-2 hover:bg-green-700 shadow-md transition-all"
+                    disabled={exportBlocked || isProcessing}
+                    title={exportBlocked ? "Fix the rows that fail tax validation first" : undefined}
+                    className="flex-1 sm:flex-none px-6 py-2 rounded-lg font-bold text-white bg-green-600 flex items-center justify-center gap-2 hover:bg-green-700 shadow-md transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     Export Unified XML <Download className="w-4 h-4" />
                   </button>
                 </div>
               </div>
 
-              <div className="overflow-x-auto max-h-[60vh]">
+              {(pushProgress || pushReport || pushError) && (
+                <div className="mx-6 mt-4 p-3 rounded-lg border text-sm flex items-center justify-between gap-4 bg-gray-50 border-gray-200">
+                  {pushProgress && (
+                    <>
+                      <span className="text-gray-600">
+                        Sending to Tally at {tallyConnection.host}:{tallyConnection.port}... {pushProgress.done} of {pushProgress.total} vouchers
+                      </span>
+                      <button onClick={() => pushAbort.current?.abort()} className="text-xs font-bold text-red-500 hover:text-red-700">Cancel</button>
+                    </>
+                  )}
+                  {!pushProgress && pushError && (
+                    <span className="text-red-600 flex items-center gap-2"><XCircle className="w-4 h-4 shrink-0" /> {pushError}</span>
+                  )}
+                  {!pushProgress && pushReport && !pushReport.repliesReadable && (() => {
+                    const sent = pushReport.vouchers.filter(v => !v.failure && !v.notSent).length;
+                    return (
+                      <span className="flex items-center gap-2 text-orange-600">
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        Sent {sent} of {pushReport.vouchers.length} vouchers. Tally doesn't let the browser read its replies, so check what it imported in Tally itself.
+                        {sent < pushReport.vouchers.length && " Rows that weren't sent are marked below."}
+                      </span>
+                    );
+                  })()}
+                  {!pushProgress && pushReport && pushReport.repliesReadable && (() => {
+                    const accepted = pushReport.vouchers.filter(v => v.result && v.result.errors === 0).length;
+                    const rejected = pushReport.vouchers.length - accepted;
+                    return (
+                      <span className={`flex items-center gap-2 ${rejected > 0 ? 'text-orange-600' : 'text-green-700'}`}>
+                        {rejected > 0 ? <AlertTriangle className="w-4 h-4 shrink-0" /> : <CheckCircle2 className="w-4 h-4 shrink-0" />}
+                        Tally accepted {accepted} of {pushReport.vouchers.length} vouchers
+                        {pushReport.masters && ` (${pushReport.masters.created} masters created, ${pushReport.masters.errors} master errors)`}.
+                        {rejected > 0 && " Rows that failed are marked below."}
+                      </span>
+                    );
+                  })()}
+                </div>
+              )}
+
+              {taxIssueCount > 0 && (
+                <div className={`mx-6 mt-4 p-3 rounded-lg border text-sm flex items-center gap-2 ${
+                  exportBlocked ? 'bg-red-50 border-red-100 text-red-700' : 'bg-amber-50 border-amber-100 text-amber-700'
+                }`}>
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  {taxIssueCount} {taxIssueCount === 1 ? "row fails" : "rows fail"} tax validation.
+                  {exportBlocked ? " Export is blocked until they are fixed or validation is set to warn in Settings." : " They will still be exported."}
+                </div>
+              )}
+              {heldBackRowCount > 0 && (
+                <div className="mx-6 mt-4 p-3 rounded-lg border text-sm flex items-center gap-2 bg-red-50 border-red-100 text-red-700">
+                  <XCircle className="w-4 h-4 shrink-0" />
+                  {heldBackRowCount} {heldBackRowCount === 1 ? "row belongs" : "rows belong"} to vouchers with an unreadable date or a total that differs from taxable value plus tax by more than ₹{exportSettings.roundOffLimit.toFixed(2)}. They are left out of the export.
+                </div>
+              )}
+              {previouslyExported.length > 0 && (
+                <div className="mx-6 mt-4 p-3 rounded-lg border text-sm flex flex-wrap items-center gap-2 bg-amber-50 border-amber-100 text-amber-700">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  <span className="flex-1">
+                    {previouslyExported.length} {previouslyExported.length === 1 ? "invoice was" : "invoices were"} already exported for {activeClient.name}
+                    {previouslyExportedMonths.length > 0 && ` (${previouslyExportedMonths.join(", ")})`}. Importing {previouslyExported.length === 1 ? "it" : "them"} again books {previouslyExported.length === 1 ? "it" : "them"} twice in Tally.
+                  </span>
+                  <button
+                    onClick={excludePreviouslyExported}
+                    className="px-3 py-1.5 rounded-lg text-xs font-bold border border-amber-300 hover:bg-amber-100"
+                  >
+                    Exclude them
+                  </button>
+                </div>
+              )}
+              {duplicateGroups.length > 0 && (
+                <div className="mx-6 mt-4 rounded-lg border border-amber-100 bg-amber-50 text-sm text-amber-700">
+                  <div className="p-3 flex flex-wrap items-center gap-2">
+                    <Files className="w-4 h-4 shrink-0" />
+                    <span className="flex-1">
+                      {duplicateGroups.length} invoice {duplicateGroups.length === 1 ? "line appears" : "lines appear"} more than once in the uploaded reports (same invoice, item and amount).
+                      {unresolvedDuplicateCount > 0 ? ` ${unresolvedDuplicateCount} still export every copy.` : " All are merged or dropped."}
+                    </span>
+                    <button
+                      onClick={() => resolveDuplicateGroups(duplicateGroups, "drop")}
+                      className="px-3 py-1.5 rounded-lg text-xs font-bold border border-amber-300 hover:bg-amber-100"
+                    >
+                      Drop all copies
+                    </button>
+                    <button
+                      onClick={() => setShowDuplicates(v => !v)}
+                      className="px-3 py-1.5 rounded-lg text-xs font-bold border border-amber-300 hover:bg-amber-100 flex items-center gap-1"
+                    >
+                      {showDuplicates ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />} Review
+                    </button>
+                  </div>
+                  {showDuplicates && (
+                    <div className="border-t border-amber-100 divide-y divide-amber-100 max-h-72 overflow-y-auto bg-white/60">
+                      {duplicateGroups.map(group => {
+                        const current = duplicateResolution(transactionEdits, group);
+                        return (
+                          <div key={group.key} className="px-3 py-2 flex flex-col md:flex-row md:items-center gap-2 text-xs">
+                            <div className="flex-1 min-w-0">
+                              <p className="text-gray-800">
+                                <span className="font-mono font-bold">{group.invoiceNo}</span> · {group.item} · ₹{group.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} × {group.rows.length}
+                              </p>
+                              <p className="text-gray-500 truncate" title={group.rows.map(rowSource).join('\n')}>{group.rows.map(rowSource).join(", ")}</p>
+                            </div>
+                            <div className="flex gap-1">
+                              {([
+                                ["keep", "Keep all", "Every copy is a separate sale"],
+                                ["merge", "Merge", "One line with the quantities and amounts added up"],
+                                ["drop", "Drop copies", "Export the first copy only"]
+                              ] as [DuplicateResolution, string, string][]).map(([value, label, hint]) => (
+                                <button
+                                  key={value}
+                                  onClick={() => resolveDuplicateGroups([group], value)}
+                                  title={hint}
+                                  className={`px-2 py-1 rounded border font-bold ${
+                                    current === value ? 'bg-amber-600 border-amber-600 text-white' : 'border-amber-300 text-amber-800 hover:bg-amber-100'
+                                  }`}
+                                >
+                                  {label}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              )}
+              {!sellerStateCode(taxSettings) && transactions.length > 0 && (
+                <p className="mx-6 mt-3 text-xs text-gray-400 flex items-center gap-1.5">
+                  <Info className="w-3.5 h-3.5" /> Set the seller GSTIN or home state in Settings to check IGST against CGST + SGST.
+                </p>
+              )}
+
+              <div className="px-6 pt-3 flex gap-2 border-b border-gray-100">
+                {([
+                  ["All", "All", transactions.length],
+                  ["Sale", "Sales Invoices", typeCounts.Sale],
+                  ["Refund", "Credit Notes", typeCounts.Refund],
+                  ["Cancel", "Cancelled", typeCounts.Cancel],
+                  ["Issues", "Issues", issueCount],
+                  ["Edited", "Edited", editCounts.edited],
+                  ["Excluded", "Excluded", editCounts.excluded],
+                  ["Duplicates", "Duplicates", duplicateOf.size]
+                ] as [typeof reviewFilter, string, number][]).filter(([value, , count]) => value === "All" || count > 0).map(([value, label, count]) => (
+                  <button
+                    key={value}
+                    onClick={() => {
+                      setReviewFilter(value);
+                      setExpandedRowIndex(null);
+                      reviewScrollRef.current?.scrollTo({ top: 0 });
+                    }}
+                    className={`px-3 py-2 text-xs font-bold border-b-2 -mb-px transition-colors ${
+                      reviewFilter === value ? 'border-indigo-600 text-indigo-700' : 'border-transparent text-gray-400 hover:text-gray-600'
+                    }`}
+                  >
+                    {label} ({count})
+                  </button>
+                ))}
+              </div>
+
+              {selectedRows.size > 0 && (
+                <div className="px-6 py-3 bg-indigo-50/60 border-b border-indigo-100 flex flex-wrap items-center gap-3 text-xs">
+                  <span className="font-bold text-indigo-700">{selectedRows.size} selected</span>
+                  <div className="flex items-center gap-1">
+                    <input
+                      list="review-states"
+                      value={bulkState}
+                      onChange={e => setBulkState(e.target.value)}
+                      placeholder="State"
+                      className="w-36 px-2 py-1 bg-white border border-gray-200 rounded"
+                    />
+                    <button
+                      onClick={() => applyBulkEdit("state", bulkState)}
+                      disabled={!bulkState.trim()}
+                      className="px-2 py-1 rounded font-bold text-indigo-700 border border-indigo-200 bg-white hover:bg-indigo-50 disabled:opacity-50"
+                    >
+                      Set state
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={bulkRate}
+                      onChange={e => setBulkRate(e.target.value)}
+                      placeholder="GST %"
+                      className="w-20 px-2 py-1 bg-white border border-gray-200 rounded"
+                    />
+                    <button
+                      onClick={() => applyBulkEdit("gstRate", bulkRate)}
+                      disabled={parseFieldValue("gstRate", bulkRate) === null}
+                      className="px-2 py-1 rounded font-bold text-indigo-700 border border-indigo-200 bg-white hover:bg-indigo-50 disabled:opacity-50"
+                    >
+                      Set GST rate
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setRowsExcluded(Array.from(selectedRows), true)}
+                    className="px-2 py-1 rounded font-bold text-red-600 border border-red-200 bg-white hover:bg-red-50"
+                  >
+                    Exclude
+                  </button>
+                  <button
+                    onClick={() => setRowsExcluded(Array.from(selectedRows), false)}
+                    className="px-2 py-1 rounded font-bold text-gray-600 border border-gray-200 bg-white hover:bg-gray-50"
+                  >
+                    Include
+                  </button>
+                  <button
+                    onClick={() => revertRows(Array.from(selectedRows))}
+                    className="px-2 py-1 rounded font-bold text-gray-600 border border-gray-200 bg-white hover:bg-gray-50"
+                  >
+                    Revert edits
+                  </button>
+                  <button onClick={() => setSelectedRows(new Set())} className="ml-auto text-gray-400 hover:text-gray-600 font-semibold">
+                    Clear selection
+                  </button>
+                </div>
+              )}
+              <datalist id="review-states">
+                {Object.values(GST_STATE_CODES).map(name => <option key={name} value={name} />)}
+              </datalist>
+
+              <div
+                ref={reviewScrollRef}
+                onScroll={event => setReviewViewport({ top: event.currentTarget.scrollTop, height: event.currentTarget.clientHeight })}
+                className="overflow-auto max-h-[60vh]"
+              >
                 <table className="w-full text-left border-collapse">
                   <thead className="bg-gray-50 sticky top-0 shadow-sm">
                     <tr>
+                      <th className="p-4 w-10">
+                        <input
+                          type="checkbox"
+                          checked={filteredRowsSelected}
+                          onChange={toggleFilteredSelection}
+                          title="Select every row in this view"
+                          className="rounded border-gray-300 text-indigo-600"
+                        />
+                      </th>
                       <th className="p-4 text-xs font-bold text-gray-400 uppercase tracking-wider w-10"></th>
                       <th className="p-4 text-xs font-bold text-gray-400 uppercase tracking-wider">Date</th>
                       <th className="p-4 text-xs font-bold text-gray-400 uppercase tracking-wider">Invoice No</th>
+                      <th className="p-4 text-xs font-bold text-gray-400 uppercase tracking-wider">Type</th>
                       <th className="p-4 text-xs font-bold text-gray-400 uppercase tracking-wider">Product / Item</th>
                       <th className="p-4 text-xs font-bold text-gray-400 uppercase tracking-wider text-center">Qty</th>
                       <th className="p-4 text-xs font-bold text-gray-400 uppercase tracking-wider text-right">Taxable</th>
                       <th className="p-4 text-xs font-bold text-gray-400 uppercase tracking-wider text-right">Total</th>
+                      <th className="p-4 text-xs font-bold text-gray-400 uppercase tracking-wider">Ledger Rule</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-100">
-                    {transactions.slice(0, 100).map((tx, idx) => (
+                    {reviewWindow.padTop > 0 && <tr aria-hidden style={{ height: reviewWindow.padTop }} />}
+                    {reviewTransactions.slice(reviewWindow.start, reviewWindow.end).map((tx, offset) => {
+                      const idx = reviewWindow.start + offset;
+                      const rowIndex = rowIndexOf.get(tx) ?? -1;
+                      const importErrors = rowErrors[rowIndex] || heldBackErrors[rowIndex];
+                      const rowTaxIssues = taxIssues[rowIndex];
+                      const rowRule = findLedgerRule(tx, exportSettings.ledgerRules);
+                      const rowStock = resolveStockItem(tx, exportSettings);
+                      const rowExcluded = isExcluded(transactionEdits, rowIndex);
+                      const rowChanges = transactionChanges(parsedTransactions, transactionEdits, rowIndex);
+                      return (
                       <React.Fragment key={idx}>
                         <tr 
                           onClick={() => toggleRow(idx)}
-                          className={`cursor-pointer transition-colors ${expandedRowIndex === idx ? 'bg-indigo-50/50' : 'hover:bg-gray-50'}`}
+                          style={{ height: REVIEW_ROW_HEIGHT }}
+                          className={`cursor-pointer transition-colors ${rowExcluded ? 'opacity-50 ' : ''}${expandedRowIndex === idx ? 'bg-indigo-50/50' : rowExcluded ? 'bg-gray-50' : importErrors ? 'bg-red-50/40 hover:bg-red-50' : rowTaxIssues ? 'bg-amber-50/40 hover:bg-amber-50' : 'hover:bg-gray-50'}`}
                         >
+                          <td className="p-4" onClick={e => e.stopPropagation()}>
+                            <input
+                              type="checkbox"
+                              checked={selectedRows.has(rowIndex)}
+                              onChange={() => toggleRowSelection(rowIndex)}
+                              className="rounded border-gray-300 text-indigo-600"
+                            />
+                          </td>
                           <td className="p-4">
-                            {expandedRowIndex === idx ? <ChevronDown className="w-4 h-4 text-indigo-600" /> : <ChevronRight className="w-4 h-4 text-gray-300" />}
+                            {importErrors
+                              ? <span title={importErrors.join('\n')}><XCircle className="w-4 h-4 text-red-500" /></span>
+                              : rowTaxIssues
+                              ? <span title={rowTaxIssues.join('\n')}><AlertTriangle className="w-4 h-4 text-amber-500" /></span>
+                              : expandedRowIndex === idx ? <ChevronDown className="w-4 h-4 text-indigo-600" /> : <ChevronRight className="w-4 h-4 text-gray-300" />}
+                          </td>
+                          <td className="p-4 text-sm text-gray-700 whitespace-nowrap">
+                            {editableValue(rowIndex, "date", tx.date || <span className="text-red-500" title="Date could not be read">{tx.rawDate || "—"}</span>)}
+                          </td>
+                          <td className="p-4 text-sm font-mono text-gray-600 whitespace-nowrap">{editableValue(rowIndex, "invoiceNo", tx.invoiceNo)}</td>
+                          <td className="p-4 whitespace-nowrap">
+                            {rowExcluded && <span className="mr-1 text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-gray-200 text-gray-500">Excluded</span>}
+                            {duplicateOf.has(rowIndex) && (
+                              <span className="mr-1 text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-orange-50 text-orange-600" title={`Also in ${duplicateOf.get(rowIndex)!.rows.filter(r => r !== rowIndex).map(rowSource).join(", ")}`}>Duplicate</span>
+                            )}
+                            {exportedAtRows[rowIndex] && (
+                              <span className="mr-1 text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-purple-50 text-purple-600" title={`Exported on ${exportedAtRows[rowIndex].split('T')[0]}`}>Exported</span>
+                            )}
+                            {tx.transactionType === "Sale" && <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-green-50 text-green-600">Sale</span>}
+                            {tx.transactionType === "Refund" && <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-amber-50 text-amber-600" title={`Against ${tx.originalInvoiceNo}`}>Credit Note</span>}
+                            {tx.transactionType === "Cancel" && (
+                              <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${cancelHandling === "reverse" ? 'bg-amber-50 text-amber-600' : 'bg-gray-100 text-gray-400 line-through'}`}>Cancelled</span>
+                            )}
+                            {tx.buyerGstin && (isValidGstin(tx.buyerGstin)
+                              ? <span className="ml-1 text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-blue-50 text-blue-600" title={tx.buyerGstin}>B2B</span>
+                              : <span className="ml-1 text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-red-50 text-red-500" title={`${tx.buyerGstin} fails the GSTIN checksum; posted as B2C`}>Bad GSTIN</span>)}
+                          </td>
+                          <td className="p-4 text-sm font-medium text-gray-800 truncate max-w-[200px]" title={tx.productName}>{editableValue(rowIndex, "productName", tx.productName)}</td>
+                          <td className="p-4 text-sm text-gray-700 text-center font-bold">{editableValue(rowIndex, "quantity", tx.quantity)}</td>
+                          <td className="p-4 text-sm text-gray-700 text-right font-mono">{editableValue(rowIndex, "taxableValue", `₹${tx.taxableValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`)}</td>
+                          <td className="p-4 text-sm font-bold text-indigo-700 text-right font-mono">{editableValue(rowIndex, "totalAmount", `₹${tx.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`)}</td>
+                          <td className="p-4 text-xs whitespace-nowrap">
+                            {rowRule
+                              ? <span className="font-semibold text-indigo-600" title={resolveTransactionLedgers(tx, exportSettings).sales}>{rowRule.name}</span>
+                              : <span className="text-gray-300">Default</span>}
                           </td>
-                          <td className="p-4 text-sm text-gray-700 whitespace-nowrap">{tx.date}</td>
-                          <td className="p-4 text-sm font-mono text-gray-600 whitespace-nowrap">{tx.invoiceNo}</td>
-                          <td className="p-4 text-sm font-medium text-gray-800 truncate max-w-[200px]" title={tx.productName}>{tx.productName}</td>
-                          <td className="p-4 text-sm text-gray-700 text-center font-bold">{tx.quantity}</td>
-                          <td className="p-4 text-sm text-gray-700 text-right font-mono">₹{tx.taxableValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
-                          <td className="p-4 text-sm font-bold text-indigo-700 text-right font-mono">₹{tx.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
                         </tr>
                         {expandedRowIndex === idx && (
-                          <tr>
-                            <td colSpan={7} className="p-0 border-none">
+                          <tr ref={measureExpandedRow}>
+                            <td colSpan={10} className="p-0 border-none">
                               <div className="bg-indigo-50/30 border-y border-indigo-100/50 p-6 animate-in slide-in-from-top-1 duration-200">
+                                {importErrors && (
+                                  <div className="mb-4 p-3 bg-red-50 border border-red-100 rounded-lg text-xs text-red-700 space-y-1">
+                                    <p className="font-bold uppercase text-[10px]">{rowErrors[rowIndex] ? "Tally import errors" : "Not exported"}</p>
+                                    {importErrors.map((e, i) => <p key={i}>{e}</p>)}
+                                  </div>
+                                )}
+                                {rowTaxIssues && (
+                                  <div className="mb-4 p-3 bg-amber-50 border border-amber-100 rounded-lg text-xs text-amber-700 space-y-1">
+                                    <p className="font-bold uppercase text-[10px]">Tax validation</p>
+                                    {rowTaxIssues.map((e, i) => <p key={i}>{e}</p>)}
+                                  </div>
+                                )}
+                                <div className="mb-4 flex flex-wrap items-start gap-3">
+                                  {rowChanges.length > 0 && (
+                                    <div className="flex-grow p-3 bg-white border border-indigo-100 rounded-lg text-xs space-y-1">
+                                      <p className="font-bold uppercase text-[10px] text-indigo-600">Changed from the report</p>
+                                      {rowChanges.map(change => (
+                                        <p key={change.field} className="text-gray-600">
+                                          <span className="font-semibold">{change.label}:</span>{" "}
+                                          <span className="line-through text-gray-400">{change.from === "" ? "(blank)" : change.from}</span> → {change.to === "" ? "(blank)" : change.to}
+                                        </p>
+                                      ))}
+                                    </div>
+                                  )}
+                                  <div className="flex gap-2 ml-auto">
+                                    {rowChanges.length > 0 && (
+                                      <button
+                                        onClick={() => revertRows([rowIndex])}
+                                        className="px-3 py-1.5 rounded-lg text-xs font-bold text-gray-600 border border-gray-200 bg-white hover:bg-gray-50"
+                                      >
+                                        Revert edits
+                                      </button>
+                                    )}
+                                    <button
+                                      onClick={() => setRowsExcluded([rowIndex], !rowExcluded)}
+                                      className={`px-3 py-1.5 rounded-lg text-xs font-bold border bg-white ${rowExcluded ? 'text-gray-600 border-gray-200 hover:bg-gray-50' : 'text-red-600 border-red-200 hover:bg-red-50'}`}
+                                    >
+                                      {rowExcluded ? "Include in export" : "Exclude from export"}
+                                    </button>
+                                  </div>
+                                </div>
                                 <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
                                   {/* Entity Details */}
                                   <div className="space-y-4">
@@ -638,11 +2468,19 @@ const App: React.FC = () => {
                                     <div className="bg-white rounded-lg p-3 border border-indigo-100 space-y-2">
                                       <div>
                                         <p className="text-[10px] font-bold text-gray-400 uppercase">Customer Name</p>
-                                        <p className="text-sm font-semibold text-gray-800">{tx.customerName || "Not Provided"}</p>
+                                        <p className="text-sm font-semibold text-gray-800">{editableValue(rowIndex, "customerName", tx.customerName || "Not Provided")}</p>
+                                      </div>
+                                      <div>
+                                        <p className="text-[10px] font-bold text-gray-400 uppercase">Buyer GSTIN</p>
+                                        <p className="text-sm font-semibold text-gray-800 font-mono">{editableValue(rowIndex, "buyerGstin", tx.buyerGstin || "Unregistered (B2C)")}</p>
+                                      </div>
+                                      <div>
+                                        <p className="text-[10px] font-bold text-gray-400 uppercase">Party Ledger</p>
+                                        <p className="text-sm font-semibold text-gray-800">{resolveTransactionLedgers(tx, exportSettings).party}</p>
                                       </div>
                                       <div>
                                         <p className="text-[10px] font-bold text-gray-400 uppercase flex items-center gap-1"><MapPin className="w-2.5 h-2.5" /> State / POS</p>
-                                        <p className="text-sm font-semibold text-gray-800">{tx.state || "Not Provided"}</p>
+                                        <p className="text-sm font-semibold text-gray-800">{editableValue(rowIndex, "state", tx.state || "Not Provided")}</p>
                                       </div>
                                     </div>
                                   </div>
@@ -655,16 +2493,27 @@ const App: React.FC = () => {
                                     <div className="bg-white rounded-lg p-3 border border-indigo-100 space-y-2">
                                       <div>
                                         <p className="text-[10px] font-bold text-gray-400 uppercase">Item Name</p>
-                                        <p className="text-sm font-semibold text-gray-800 truncate" title={tx.productName}>{tx.productName}</p>
+                                        <p className="text-sm font-semibold text-gray-800 truncate" title={tx.productName}>{editableValue(rowIndex, "productName", tx.productName)}</p>
+                                      </div>
+                                      <div>
+                                        <p className="text-[10px] font-bold text-gray-400 uppercase">Tally Stock Item</p>
+                                        <p className="text-sm font-semibold text-gray-800 truncate" title={rowStock.name}>
+                                          {rowStock.name} <span className="text-xs font-normal text-gray-500">({rowStock.unit}{rowStock.godown ? `, ${rowStock.godown}` : ""})</span>
+                                          {!rowStock.mapped && tx.sku && <span className="ml-1 text-[10px] font-bold uppercase text-amber-600">SKU {tx.sku} unmapped</span>}
+                                        </p>
                                       </div>
                                       <div className="grid grid-cols-2 gap-4">
                                         <div>
                                           <p className="text-[10px] font-bold text-gray-400 uppercase">Quantity</p>
-                                          <p className="text-sm font-semibold text-gray-800">{tx.quantity}</p>
+                                          <p className="text-sm font-semibold text-gray-800">{editableValue(rowIndex, "quantity", tx.quantity)}</p>
                                         </div>
                                         <div>
                                           <p className="text-[10px] font-bold text-gray-400 uppercase">GST Rate</p>
-                                          <p className="text-sm font-semibold text-gray-800">{tx.gstRate}%</p>
+                                          <p className="text-sm font-semibold text-gray-800">{editableValue(rowIndex, "gstRate", `${tx.gstRate}%`)}</p>
+                                        </div>
+                                        <div>
+                                          <p className="text-[10px] font-bold text-gray-400 uppercase">HSN</p>
+                                          <p className="text-sm font-semibold text-gray-800 font-mono">{editableValue(rowIndex, "hsn", tx.hsn || "Not Provided")}</p>
                                         </div>
                                       </div>
                                     </div>
@@ -679,29 +2528,23 @@ const App: React.FC = () => {
                                       <div className="space-y-1.5">
                                         <div className="flex justify-between text-xs">
                                           <span className="text-gray-500">Taxable Value</span>
-                                          <span className="font-mono text-gray-800">₹{tx.taxableValue.toFixed(2)}</span>
+                                          <span className="font-mono text-gray-800">{editableValue(rowIndex, "taxableValue", `₹${tx.taxableValue.toFixed(2)}`)}</span>
+                                        </div>
+                                        <div className="flex justify-between text-xs">
+                                          <span className="text-gray-500">Integrated GST (IGST)</span>
+                                          <span className={`font-mono ${tx.igst > 0 ? 'text-gray-800' : 'text-gray-300'}`}>{editableValue(rowIndex, "igst", `₹${tx.igst.toFixed(2)}`)}</span>
+                                        </div>
+                                        <div className="flex justify-between text-xs">
+                                          <span className="text-gray-500">Central GST (CGST)</span>
+                                          <span className={`font-mono ${tx.cgst > 0 ? 'text-gray-800' : 'text-gray-300'}`}>{editableValue(rowIndex, "cgst", `₹${tx.cgst.toFixed(2)}`)}</span>
+                                        </div>
+                                        <div className="flex justify-between text-xs">
+                                          <span className="text-gray-500">State GST (SGST)</span>
+                                          <span className={`font-mono ${tx.sgst > 0 ? 'text-gray-800' : 'text-gray-300'}`}>{editableValue(rowIndex, "sgst", `₹${tx.sgst.toFixed(2)}`)}</span>
                                         </div>
-                                        {tx.igst > 0 && (
-                                          <div className="flex justify-between text-xs">
-                                            <span className="text-gray-500">Integrated GST (IGST)</span>
-                                            <span className="font-mono text-gray-800">₹{tx.igst.toFixed(2)}</span>
-                                          </div>
-                                        )}
-                                        {tx.cgst > 0 && (
-                                          <div className="flex justify-between text-xs">
-                                            <span className="text-gray-500">Central GST (CGST)</span>
-                                            <span className="font-mono text-gray-800">₹{tx.cgst.toFixed(2)}</span>
-                                          </div>
-                                        )}
-                                        {tx.sgst > 0 && (
-                                          <div className="flex justify-between text-xs">
-                                            <span className="text-gray-500">State GST (SGST)</span>
-                                            <span className="font-mono text-gray-800">₹{tx.sgst.toFixed(2)}</span>
-                                          </div>
-                                        )}
                                         <div className="pt-2 border-t border-gray-100 flex justify-between text-sm font-bold text-indigo-700">
                                           <span>Voucher Total</span>
-                                          <span className="font-mono">₹{tx.totalAmount.toFixed(2)}</span>
+                                          <span className="font-mono">{editableValue(rowIndex, "totalAmount", `₹${tx.totalAmount.toFixed(2)}`)}</span>
                                         </div>
                                       </div>
                                     </div>
@@ -712,14 +2555,9 @@ const App: React.FC = () => {
                           </tr>
                         )}
                       </React.Fragment>
-                    ))}
-                    {transactions.length > 100 && (
-                      <tr>
-                        <td colSpan={7} className="p-4 text-center bg-gray-50 text-gray-400 text-sm italic">
-                          Previewing 100 of {transactions.length} total transactions
-                        </td>
-                      </tr>
-                    )}
+                      );
+                    })}
+                    {reviewWindow.padBottom > 0 && <tr aria-hidden style={{ height: reviewWindow.padBottom }} />}
                   </tbody>
                 </table>
               </div>
@@ -740,31 +2578,110 @@ const App: React.FC = () => {
                 <CheckCircle2 className="w-12 h-12 text-green-500" />
               </div>
               <h2 className="text-3xl font-bold text-gray-800 mb-2">Consolidated Export Ready!</h2>
-              <p className="text-gray-500 mb-8">Generated {transactions.length} vouchers from {uploadedFiles.length} files. Import this single file into Tally for the full batch.</p>
+              <p className="text-gray-500 mb-8">Generated {voucherCount} vouchers from {uploadedFiles.length} files. Import this single file into Tally for the full batch.</p>
               
               <div className="space-y-4 text-left mb-10">
                 <div className="flex gap-4 p-4 rounded-xl bg-gray-50">
                   <span className="w-8 h-8 rounded-full bg-indigo-100 text-indigo-600 flex items-center justify-center font-bold text-sm shrink-0">1</span>
                   <div>
-                    <h4 className="font-bold text-gray-700">Open Tally Prime</h4>
-                    <p className="text-sm text-gray-500">Go to <strong>Import</strong> (Alt+O) > <strong>Vouchers</strong>.</p>
+                    <h4 className="font-bold text-gray-700">Create Masters</h4>
+                    <p className="text-sm text-gray-500">Import the <strong>Masters</strong> file via <strong>Import</strong> (Alt+O) &gt; <strong>Masters</strong> to create ledgers, units, godowns and stock items.</p>
                   </div>
                 </div>
                 <div className="flex gap-4 p-4 rounded-xl bg-gray-50">
                   <span className="w-8 h-8 rounded-full bg-indigo-100 text-indigo-600 flex items-center justify-center font-bold text-sm shrink-0">2</span>
                   <div>
-                    <h4 className="font-bold text-gray-700">Import File</h4>
-                    <p className="text-sm text-gray-500">Select the downloaded consolidated XML file.</p>
+                    <h4 className="font-bold text-gray-700">Import Vouchers</h4>
+                    <p className="text-sm text-gray-500">Go to <strong>Import</strong> (Alt+O) &gt; <strong>Vouchers</strong> and select the consolidated XML file, or use the combined file to do both at once.</p>
                   </div>
                 </div>
               </div>
 
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+                <button
+                  onClick={() => handleDownload("masters")}
+                  disabled={isProcessing}
+                  className="px-4 py-2.5 rounded-lg font-semibold text-indigo-700 border border-indigo-200 hover:bg-indigo-50 transition-all flex items-center justify-center gap-2 text-sm disabled:opacity-50"
+                >
+                  <BookOpen className="w-4 h-4" /> Download Masters XML
+                </button>
+                <button
+                  onClick={() => handleDownload("combined")}
+                  disabled={isProcessing}
+                  className="px-4 py-2.5 rounded-lg font-semibold text-indigo-700 border border-indigo-200 hover:bg-indigo-50 transition-all flex items-center justify-center gap-2 text-sm disabled:opacity-50"
+                >
+                  <Layers className="w-4 h-4" /> Download Masters + Vouchers
+                </button>
+              </div>
+
+              {gstr1 && (
+                <div className="text-left mb-8 p-5 rounded-xl border border-gray-100 bg-gray-50">
+                  <div className="flex items-center justify-between gap-3 mb-3">
+                    <h4 className="font-bold text-gray-700 flex items-center gap-2">
+                      <Receipt className="w-4 h-4 text-indigo-500" /> GSTR-1 JSON
+                    </h4>
+                    <select
+                      value={activeGstr1Period}
+                      onChange={(e) => setGstr1Period(e.target.value)}
+                      className="text-xs font-semibold text-gray-700 bg-white border border-gray-200 rounded px-2 py-1"
+                      title="Return period"
+                    >
+                      {periods.map(p => (
+                        <option key={p} value={p}>
+                          {new Date(`${p}-01T00:00:00`).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' })}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <table className="w-full text-xs mb-3">
+                    <thead className="text-[10px] font-bold text-gray-400 uppercase">
+                      <tr>
+                        <th className="py-1 text-left">Section</th>
+                        <th className="py-1 text-right">Entries</th>
+                        <th className="py-1 text-right">Taxable Value</th>
+                        <th className="py-1 text-right">Tax</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {gstr1.summary.map(row => (
+                        <tr key={row.section} className={row.count === 0 ? "text-gray-300" : "text-gray-700"}>
+                          <td className="py-1 font-semibold">{row.section}</td>
+                          <td className="py-1 text-right">{row.count}</td>
+                          <td className="py-1 text-right">{row.txval.toFixed(2)}</td>
+                          <td className="py-1 text-right">{row.tax.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {!gstr1.json.gstin && (
+                    <p className="text-xs text-orange-600 flex items-center gap-1 mb-1">
+                      <AlertTriangle className="w-3 h-3 shrink-0" /> No seller GSTIN set for this client; add it under Settings &gt; Tax validation.
+                    </p>
+                  )}
+                  {gstr1.skipped.map((message, i) => (
+                    <p key={i} className="text-xs text-orange-600 flex items-center gap-1 mb-1">
+                      <AlertTriangle className="w-3 h-3 shrink-0" /> {message}
+                    </p>
+                  ))}
+                  <button
+                    onClick={handleGstr1Download}
+                    className="mt-2 w-full px-4 py-2.5 rounded-lg font-semibold text-indigo-700 border border-indigo-200 bg-white hover:bg-indigo-50 transition-all flex items-center justify-center gap-2 text-sm"
+                  >
+                    <Download className="w-4 h-4" /> Download GSTR-1 JSON
+                  </button>
+                </div>
+              )}
+
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
                 <button 
                   onClick={() => {
                     setUploadedFiles([]);
-                    setTransactions([]);
+                    setReadErrors([]);
+                    setParsedTransactions([]);
+                    setTransactionEdits({});
+                    setSelectedRows(new Set());
                     setLedgerOverrides({});
+                    setAppliedProfile(null);
                     setStep(AppStep.UPLOAD);
                   }}
                   className="px-6 py-3 rounded-lg font-bold text-gray-600 border border-gray-200 hover:bg-gray-50 transition-all flex items-center justify-center gap-2"
@@ -772,8 +2689,9 @@ const App: React.FC = () => {
                   <RefreshCcw className="w-4 h-4" /> Start New Batch
                 </button>
                 <button 
-                   onClick={handleDownload}
-                   className="px-6 py-3 rounded-lg font-bold text-white bg-indigo-600 hover:bg-indigo-700 transition-all shadow-lg flex items-center justify-center gap-2"
+                   onClick={() => handleDownload()}
+                   disabled={isProcessing}
+                   className="px-6 py-3 rounded-lg font-bold text-white bg-indigo-600 hover:bg-indigo-700 transition-all shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
                 >
                   <Download className="w-4 h-4" /> Download Unified XML
                 </button>
@@ -781,6 +2699,153 @@ const App: React.FC = () => {
             </div>
           </div>
         )}
+
+        {step === AppStep.SETTLEMENT && (
+          <div className="max-w-5xl mx-auto space-y-6">
+            <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+                    <Wallet className="w-6 h-6 text-indigo-600" /> Settlement Vouchers
+                  </h2>
+                  <p className="text-gray-500 text-sm">
+                    {settlementFiles.map(f => f.name).join(', ')} • {isLongLayout(settlementMapping) ? "one row per amount" : "one column per fee"}
+                  </p>
+                </div>
+                <label className="text-xs font-bold text-gray-500 uppercase flex items-center gap-2">
+                  Marketplace
+                  <select
+                    value={settlementMarketplace}
+                    onChange={(e) => setSettlementMarketplace(e.target.value)}
+                    className="text-sm font-semibold text-gray-700 bg-white border border-gray-200 rounded-lg px-2 py-1.5 normal-case"
+                  >
+                    <option value="">Other</option>
+                    {MARKETPLACES.map(m => <option key={m} value={m}>{m}</option>)}
+                  </select>
+                </label>
+              </div>
+
+              <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Columns</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-8">
+                {SETTLEMENT_MAPPING_KEYS.map(key => (
+                  <label key={key} className="text-[10px] font-bold text-gray-400 uppercase">
+                    {key.replace(/([A-Z])/g, ' $1')}
+                    <select
+                      value={settlementMapping[key]}
+                      onChange={(e) => setSettlementMapping(prev => ({ ...prev, [key]: e.target.value }))}
+                      className="mt-1 w-full text-xs font-semibold text-gray-700 bg-white border border-gray-200 rounded px-2 py-1.5 normal-case"
+                    >
+                      <option value="">Not in report</option>
+                      {settlementHeaders.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Settlements ({settlements.length})</h3>
+              {heldBackSettlements.length > 0 && (
+                <div className="mb-3 p-3 rounded-lg border text-sm flex items-start gap-2 bg-red-50 border-red-100 text-red-700">
+                  <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                  <ul className="space-y-0.5">
+                    {heldBackSettlements.map(({ settlement, reason }) => <li key={settlement.settlementId}>{reason}</li>)}
+                  </ul>
+                </div>
+              )}
+              <div className="overflow-x-auto border border-gray-100 rounded-lg mb-8">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-[10px] font-bold text-gray-400 uppercase">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Settlement</th>
+                      <th className="px-3 py-2 text-left">Date</th>
+                      <th className="px-3 py-2 text-right">Orders</th>
+                      <th className="px-3 py-2 text-right">Fees</th>
+                      <th className="px-3 py-2 text-right">GST on Fees</th>
+                      <th className="px-3 py-2 text-right">TCS</th>
+                      <th className="px-3 py-2 text-right">TDS</th>
+                      <th className="px-3 py-2 text-right">Payout</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {settlements.map(s => {
+                      const fees = s.totals.referralFee + s.totals.closingFee + s.totals.fulfilmentFee + s.totals.otherFee;
+                      return (
+                        <tr key={s.settlementId}>
+                          <td className="px-3 py-2 font-mono text-xs text-gray-700">{s.settlementId || "—"}</td>
+                          <td className="px-3 py-2 text-xs">
+                            {s.date ? s.date : <span className="text-red-500 font-bold" title="Not exported until the date column is mapped and readable">No date</span>}
+                          </td>
+                          <td className="px-3 py-2 text-right text-xs">{s.orderCount}</td>
+                          <td className="px-3 py-2 text-right text-xs">{(fees / 100).toFixed(2)}</td>
+                          <td className="px-3 py-2 text-right text-xs">{(s.totals.feeGst / 100).toFixed(2)}</td>
+                          <td className="px-3 py-2 text-right text-xs">{(s.totals.tcs / 100).toFixed(2)}</td>
+                          <td className="px-3 py-2 text-right text-xs">{(s.totals.tds / 100).toFixed(2)}</td>
+                          <td className="px-3 py-2 text-right text-xs font-bold text-gray-800">{(s.payout / 100).toFixed(2)}</td>
+                        </tr>
+                      );
+                    })}
+                    {settlements.length === 0 && (
+                      <tr>
+                        <td colSpan={8} className="px-3 py-6 text-center text-xs text-gray-400">No amounts found. Check the column mapping above.</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Ledgers</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-8">
+                {[...Object.values(SETTLEMENT_LEDGERS), ...Object.values(FEE_LOCAL_GST_LEDGERS), resolveB2cPartyLedger(exportSettings, settlementMarketplace)].map(name => (
+                  <label key={name} className="text-[10px] font-bold text-gray-400 uppercase">
+                    {name}
+                    <input
+                      type="text"
+                      value={ledgerOverrides[name] ?? name}
+                      onChange={(e) => handleLedgerOverride(name, e.target.value)}
+                      className="mt-1 w-full text-xs font-semibold text-gray-700 bg-white border border-gray-200 rounded px-2 py-1.5 normal-case"
+                    />
+                  </label>
+                ))}
+                <label className="text-[10px] font-bold text-gray-400 uppercase">
+                  Bank ledger for payouts
+                  <input
+                    type="text"
+                    value={exportSettings.bankLedger}
+                    onChange={(e) => updateExportSettings({ bankLedger: e.target.value })}
+                    className="mt-1 w-full text-xs font-semibold text-gray-700 bg-white border border-gray-200 rounded px-2 py-1.5 normal-case"
+                  />
+                </label>
+              </div>
+
+              <div className="flex flex-col sm:flex-row gap-3 justify-between">
+                <button
+                  onClick={() => {
+                    setSettlementFiles([]);
+                    setStep(AppStep.UPLOAD);
+                  }}
+                  className="px-6 py-3 rounded-lg font-bold text-gray-600 border border-gray-200 hover:bg-gray-50 transition-all flex items-center justify-center gap-2"
+                >
+                  <ArrowLeft className="w-4 h-4" /> Back
+                </button>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    onClick={() => handleSettlementDownload(true)}
+                    disabled={settlements.length === 0}
+                    className="px-6 py-3 rounded-lg font-semibold text-indigo-700 border border-indigo-200 hover:bg-indigo-50 disabled:opacity-50 transition-all flex items-center justify-center gap-2"
+                  >
+                    <Layers className="w-4 h-4" /> Download with Ledger Masters
+                  </button>
+                  <button
+                    onClick={() => handleSettlementDownload(false)}
+                    disabled={settlements.length === 0}
+                    className="px-6 py-3 rounded-lg font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-all shadow-lg flex items-center justify-center gap-2"
+                  >
+                    <Download className="w-4 h-4" /> Download Settlement XML
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
       </main>
 
       <footer className="bg-white border-t border-gray-100 p-6 mt-12">
@@ -0,0 +1,171 @@
+#!/usr/bin/env node
+// Batch conversion without the browser: reads marketplace reports, applies a
+// saved mapping profile (or detects the layout), validates and writes Tally
+// XML plus a JSON run report.
+//
+//   npm run build:cli
+//   node dist-cli/tallybridge.js reports/acme --profiles profiles.json \
+//     --settings acme.json --out out/acme.xml
+//
+// Exit codes: 0 converted cleanly, 1 validation errors (see the report),
+// 2 bad arguments or missing inputs.
+
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { CancelHandling, ClientConfig, ColumnMapping, MappingProfile } from "../types";
+import { createClientConfig, withClientDefaults } from "../services/clientConfig";
+import { createEmptyMapping } from "../services/columnMapping";
+import { convertReports } from "../services/conversionPipeline";
+import { DuplicateResolution } from "../services/duplicateDetector";
+import { parseProfilesJson } from "../services/mappingProfiles";
+import { readReportFiles } from "../services/reportFiles";
+import { isSpreadsheetFile } from "../services/spreadsheetParser";
+
+const USAGE = `Usage: tallybridge [options] <file or folder>...
+
+Options:
+  --profiles <file>   Mapping profiles exported from the app (JSON); matched by headers
+  --profile <name>    Apply this profile from --profiles whatever the headers are
+  --mapping <file>    Column mapping JSON (field -> report header); overrides profiles
+  --ledgers <file>    Ledger overrides JSON (default ledger name -> Tally ledger name)
+  --settings <file>   Client settings JSON: { "exportSettings": {...}, "taxValidation": {...} }
+  --cancel <mode>     Cancelled orders: skip (default) or reverse
+  --duplicates <mode> Rows repeated across the reports: keep (default), merge or drop
+  --masters           Include ledger, unit and stock item masters in the XML
+  --out <file>        XML output (default TallyExport.xml)
+  --report <file>     Run report (default: the XML path with .report.json)
+  --help              Show this help
+`;
+
+const REPORT_EXTENSIONS = [".csv", ".tsv", ".txt"];
+
+const isReportFile = (name: string) =>
+  isSpreadsheetFile(name) || REPORT_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext));
+
+// Folders contribute every report file directly inside them, in name order
+const expandInputs = async (inputs: string[]) => {
+  const paths: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (!info) throw new Error(`No such file or folder: ${input}`);
+    if (info.isDirectory()) {
+      const names = (await readdir(input)).filter(isReportFile).sort();
+      paths.push(...names.map(name => path.join(input, name)));
+    } else {
+      paths.push(input);
+    }
+  }
+  return paths;
+};
+
+const readJson = async <T>(file: string): Promise<T> => {
+  try {
+    return JSON.parse(await readFile(file, "utf-8")) as T;
+  } catch (err) {
+    throw new Error(`Could not read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      profiles: { type: "string" },
+      profile: { type: "string" },
+      mapping: { type: "string" },
+      ledgers: { type: "string" },
+      settings: { type: "string" },
+      cancel: { type: "string", default: "skip" },
+      duplicates: { type: "string", default: "keep" },
+      masters: { type: "boolean", default: false },
+      out: { type: "string", default: "TallyExport.xml" },
+      report: { type: "string" },
+      help: { type: "boolean", default: false }
+    }
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) throw new Error("No input files given.");
+  if (values.cancel !== "skip" && values.cancel !== "reverse") throw new Error(`--cancel must be skip or reverse, not ${values.cancel}.`);
+  if (!["keep", "merge", "drop"].includes(values.duplicates!)) {
+    throw new Error(`--duplicates must be keep, merge or drop, not ${values.duplicates}.`);
+  }
+
+  let profiles: MappingProfile[] | undefined;
+  if (values.profiles) {
+    try {
+      profiles = parseProfilesJson(await readFile(values.profiles, "utf-8"));
+    } catch (err) {
+      throw new Error(`${values.profiles}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  const profile = values.profile ? profiles?.find(p => p.name === values.profile) : undefined;
+  if (values.profile && !profile) throw new Error(`No profile named "${values.profile}" in ${values.profiles || "--profiles"}.`);
+
+  const mapping = values.mapping
+    ? { ...createEmptyMapping(), ...(await readJson<Partial<ColumnMapping>>(values.mapping)) }
+    : undefined;
+  const ledgerOverrides = values.ledgers ? await readJson<Record<string, string>>(values.ledgers) : {};
+  const client = withClientDefaults({
+    ...createClientConfig("CLI"),
+    ...(values.settings ? await readJson<Partial<ClientConfig>>(values.settings) : {})
+  });
+
+  const paths = await expandInputs(positionals);
+  if (paths.length === 0) throw new Error("No report files found in the given folders.");
+  const { files, errors: readErrors } = await readReportFiles(
+    await Promise.all(paths.map(async p => new File([await readFile(p)], path.basename(p))))
+  );
+
+  const { xml, report } = convertReports(files, {
+    mapping,
+    profile,
+    profiles,
+    ledgerOverrides,
+    exportSettings: client.exportSettings,
+    taxValidation: client.taxValidation,
+    cancelHandling: values.cancel as CancelHandling,
+    duplicates: values.duplicates as DuplicateResolution,
+    includeMasters: values.masters
+  });
+
+  const outPath = values.out!;
+  const reportPath = values.report || outPath.replace(/\.xml$/i, "") + ".report.json";
+  await mkdir(path.dirname(path.resolve(outPath)), { recursive: true });
+  await mkdir(path.dirname(path.resolve(reportPath)), { recursive: true });
+  // A failed run must not leave last month's XML looking like this month's
+  if (xml !== null) await writeFile(outPath, xml, "utf-8");
+  else await rm(outPath, { force: true });
+  readErrors.forEach(({ index, message }) => {
+    report.errors.push(`${paths[index]}: ${message} It is not in the export.`);
+  });
+  const runReport = {
+    generatedAt: new Date().toISOString(),
+    inputs: paths,
+    output: xml !== null ? outPath : null,
+    ...report
+  };
+  await writeFile(reportPath, JSON.stringify(runReport, null, 2), "utf-8");
+
+  process.stdout.write(
+    `${report.rowCount} rows, ${report.invoiceCount} invoices, ${report.voucherCount} vouchers (${report.mappingSource || "no mapping"}).\n` +
+      (xml !== null ? `Wrote ${outPath}\n` : "No XML written.\n") +
+      `Report: ${reportPath}\n`
+  );
+  report.warnings.forEach(w => process.stderr.write(`warning: ${w}\n`));
+  report.errors.forEach(e => process.stderr.write(`error: ${e}\n`));
+  return report.errors.length > 0 ? 1 : 0;
+};
+
+main().then(
+  code => {
+    process.exitCode = code;
+  },
+  err => {
+    process.stderr.write(`tallybridge: ${err instanceof Error ? err.message : String(err)}\nRun with --help for usage.\n`);
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,80 @@
+// Minimal stand-in for Tally's XML-over-HTTP gateway, for trying "Send to Tally"
+// without a Tally installation.
+//
+//   npm run mock:tally               listens on localhost:9000
+//   npm run mock:tally -- 9100       custom port
+//   npm run mock:tally -- --cors     let the browser read the replies
+//
+// Masters are always accepted. A voucher is rejected the way Tally would when
+// its ledger amounts don't net to zero or its date isn't YYYYMMDD.
+//
+// Like Tally, it sends no CORS headers unless --cors is given, so the app
+// can't read its replies and reports only what it sent.
+
+import http from "node:http";
+
+const args = process.argv.slice(2);
+const port = Number(args.find(arg => /^\d+$/.test(arg))) || 9000;
+const cors = args.includes("--cors");
+
+const blocks = (xml, tag) => xml.match(new RegExp(`<${tag}[\\s>][\\s\\S]*?</${tag}>`, "g")) || [];
+
+const checkVoucher = (voucher) => {
+  const date = (voucher.match(/<DATE>([^<]*)<\/DATE>/) || [])[1] || "";
+  if (!/^\d{8}$/.test(date)) {
+    return `Invalid date '${date}' in voucher.`;
+  }
+
+  // Only ledger-level amounts count; inventory and bill allocations repeat them
+  const ledgerLevel = voucher
+    .replace(/<INVENTORYENTRIES\.LIST>[\s\S]*?<\/INVENTORYENTRIES\.LIST>/g, "")
+    .replace(/<BILLALLOCATIONS\.LIST>[\s\S]*?<\/BILLALLOCATIONS\.LIST>/g, "");
+  const total = (ledgerLevel.match(/<AMOUNT>[^<]*<\/AMOUNT>/g) || [])
+    .map(tag => parseFloat(tag.replace(/<\/?AMOUNT>/g, "")) || 0)
+    .reduce((sum, amount) => sum + amount, 0);
+  if (Math.abs(total) > 0.001) {
+    const reference = (voucher.match(/<REFERENCE>([^<]*)<\/REFERENCE>/) || [])[1] || "";
+    return `Voucher totals do not match! Dr: ${total.toFixed(2)} (${reference})`;
+  }
+  return null;
+};
+
+const respond = (body) => {
+  const masters = blocks(body, "LEDGER").length + blocks(body, "STOCKITEM").length + blocks(body, "UNIT").length;
+  const errors = blocks(body, "VOUCHER").map(checkVoucher).filter(Boolean);
+  const created = masters + blocks(body, "VOUCHER").length - errors.length;
+
+  return `<RESPONSE>
+ <CREATED>${created}</CREATED>
+ <ALTERED>0</ALTERED>
+ <DELETED>0</DELETED>
+ <LASTVCHID>0</LASTVCHID>
+ <LASTMID>0</LASTMID>
+ <COMBINED>0</COMBINED>
+ <IGNORED>0</IGNORED>
+ <ERRORS>${errors.length}</ERRORS>
+ <CANCELLED>0</CANCELLED>
+${errors.map(e => ` <LINEERROR>${e}</LINEERROR>`).join("\n")}
+</RESPONSE>`;
+};
+
+http.createServer((req, res) => {
+  if (cors) res.setHeader("Access-Control-Allow-Origin", "*");
+  if (req.method !== "POST") {
+    res.writeHead(200, { "Content-Type": "text/xml" });
+    res.end("<RESPONSE>TallyPrime Server is Running</RESPONSE>");
+    return;
+  }
+
+  let body = "";
+  req.setEncoding("utf8");
+  req.on("data", chunk => { body += chunk; });
+  req.on("end", () => {
+    const reply = respond(body);
+    console.log(reply.replace(/\s+/g, " "));
+    res.writeHead(200, { "Content-Type": "text/xml; charset=utf-8" });
+    res.end(reply);
+  });
+}).listen(port, () => {
+  console.log(`Mock Tally gateway listening on http://localhost:${port}${cors ? " (CORS enabled)" : ""}`);
+});
@@ -0,0 +1,95 @@
+
+import { ClientConfig, TallyExportSettings, TaxValidationSettings, VoucherTypeNames } from "../types";
+
+const CLIENTS_KEY = "tallybridge.clients";
+const ACTIVE_CLIENT_KEY = "tallybridge.activeClient";
+
+export const DEFAULT_EXPORT_SETTINGS: TallyExportSettings = {
+  companyName: "",
+  defaultVoucherTypes: { sales: "Sales", creditNote: "Credit Note" },
+  voucherTypesByMarketplace: {},
+  b2cPartyLedger: "B2C Customers",
+  b2cPartyLedgerByMarketplace: {},
+  roundOffLedger: "Round Off",
+  roundOffLimit: 1,
+  bankLedger: "Bank",
+  numbering: "invoice",
+  sequencePrefix: "",
+  sequenceStart: 1,
+  sequencePadding: 0,
+  b2cConsolidation: "none",
+  ledgerRules: [],
+  skuCatalogue: []
+};
+
+export const DEFAULT_TAX_VALIDATION: TaxValidationSettings = {
+  sellerGstin: "",
+  sellerState: "",
+  tolerance: 1,
+  mode: "warn"
+};
+
+export const createClientConfig = (name: string): ClientConfig => ({
+  id: `client-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  exportSettings: DEFAULT_EXPORT_SETTINGS,
+  taxValidation: DEFAULT_TAX_VALIDATION
+});
+
+export const resolveVoucherTypes = (settings: TallyExportSettings, marketplace: string): VoucherTypeNames => {
+  const custom = settings.voucherTypesByMarketplace[marketplace];
+  return {
+    sales: custom?.sales.trim() || settings.defaultVoucherTypes.sales.trim() || "Sales",
+    creditNote: custom?.creditNote.trim() || settings.defaultVoucherTypes.creditNote.trim() || "Credit Note"
+  };
+};
+
+// What a marketplace owes the seller. Its B2C sales are debited here and its
+// settlements credit it, so the balance clears as the payouts land.
+export const marketplaceReceivableLedger = (marketplace: string) => `${marketplace} Receivable`;
+
+// Reports without a marketplace use the default B2C ledger; marketplace sales
+// go to the marketplace's receivable unless a ledger is set for it
+export const resolveB2cPartyLedger = (settings: TallyExportSettings, marketplace: string) =>
+  settings.b2cPartyLedgerByMarketplace[marketplace]?.trim() ||
+  (marketplace ? marketplaceReceivableLedger(marketplace) : settings.b2cPartyLedger.trim() || "Cash");
+
+// Fills settings added since the client was saved
+export const withClientDefaults = (client: ClientConfig): ClientConfig => ({
+  ...client,
+  exportSettings: {
+    ...DEFAULT_EXPORT_SETTINGS,
+    ...client.exportSettings,
+    defaultVoucherTypes: {
+      ...DEFAULT_EXPORT_SETTINGS.defaultVoucherTypes,
+      ...client.exportSettings?.defaultVoucherTypes
+    }
+  },
+  taxValidation: { ...DEFAULT_TAX_VALIDATION, ...client.taxValidation }
+});
+
+// There is always at least one client so the rest of the app never has to
+// handle "no configuration".
+export const loadClients = (): ClientConfig[] => {
+  try {
+    const stored = localStorage.getItem(CLIENTS_KEY);
+    const clients: ClientConfig[] = stored ? JSON.parse(stored) : [];
+    if (clients.length > 0) return clients.map(withClientDefaults);
+  } catch {
+    // Fall through to a fresh default client
+  }
+  return [{ ...createClientConfig("Default"), id: "default" }];
+};
+
+export const saveClients = (clients: ClientConfig[]) => {
+  localStorage.setItem(CLIENTS_KEY, JSON.stringify(clients));
+};
+
+export const loadActiveClientId = (clients: ClientConfig[]): string => {
+  const stored = localStorage.getItem(ACTIVE_CLIENT_KEY);
+  return clients.some(c => c.id === stored) ? stored! : clients[0].id;
+};
+
+export const saveActiveClientId = (id: string) => {
+  localStorage.setItem(ACTIVE_CLIENT_KEY, id);
+};
@@ -0,0 +1,17 @@
+
+import { ColumnMapping } from "../types";
+
+export const MAPPING_KEYS: (keyof ColumnMapping)[] = [
+  "date", "invoiceNo", "customerName", "state", "taxableValue", "igst",
+  "cgst", "sgst", "totalAmount", "gstRate", "productName", "quantity",
+  "transactionType", "originalInvoiceNo", "hsn", "buyerGstin",
+  "fulfilmentChannel", "sku"
+];
+
+export const createEmptyMapping = (): ColumnMapping => {
+  const mapping = {} as ColumnMapping;
+  MAPPING_KEYS.forEach(key => {
+    mapping[key] = "";
+  });
+  return mapping;
+};
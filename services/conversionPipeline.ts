@@ -0,0 +1,525 @@
+
+import {
+  CancelHandling, ColumnMapping, MappingProfile, MarketplaceTransaction, ReportProfile, SignConvention,
+  TallyExportSettings, TaxValidationSettings
+} from "../types";
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_TAX_VALIDATION } from "./clientConfig";
+import { createEmptyMapping } from "./columnMapping";
+import { parseDate, resolveDateFormat, toIsoDate } from "./dateParser";
+import { DuplicateResolution, findDuplicateRows, resolveDuplicates } from "./duplicateDetector";
+import { isValidGstin, normalizeGstin, stateCodeFor, stateFromGstin } from "./gstin";
+import { mapHeadersHeuristically } from "./heuristicMapper";
+import { findProfileForHeaders } from "./mappingProfiles";
+import { ReportFile } from "./reportFiles";
+import { detectReportProfile } from "./reportProfiles";
+import { findUnmappedSkus } from "./skuCatalogue";
+import { generateCombinedTallyXml } from "./tallyMasterGenerator";
+import { exportableVouchers, findHeldBackVouchers, generateTallyXml, tallyVouchers } from "./tallyXmlGenerator";
+import { sellerStateCode, validateTransactions } from "./taxValidator";
+import { classifyTransactionType } from "./transactionClassifier";
+import { applyTransactionEdits, includedTransactions, isExcluded } from "./transactionEdits";
+
+// The parse -> map -> validate -> generate steps behind the review screen,
+// without React or the browser, so the CLI runs exactly what the UI runs.
+
+export const REQUIRED_FIELDS: (keyof ColumnMapping)[] = [
+  "date",
+  "invoiceNo",
+  "customerName",
+  "taxableValue",
+  "totalAmount",
+  "gstRate",
+  "productName",
+  "quantity"
+];
+
+const NUMERIC_FIELDS: (keyof ColumnMapping)[] = [
+  "taxableValue", "igst", "cgst", "sgst", "totalAmount", "gstRate", "quantity"
+];
+
+// Rows per file used to detect and check the date format
+const DATE_SAMPLE_ROWS = 200;
+
+const GST_SLABS = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28];
+
+// Reports that only carry tax amounts get their rate back from tax / taxable value
+const deriveGstRate = (taxableValue: number, totalTax: number) => {
+  if (!taxableValue || !totalTax) return 0;
+  const rate = Math.abs(totalTax / taxableValue) * 100;
+  const slab = GST_SLABS.reduce((best, s) => (Math.abs(s - rate) < Math.abs(best - rate) ? s : best), 0);
+  return Math.abs(slab - rate) <= 0.5 ? slab : Math.round(rate * 100) / 100;
+};
+
+export interface FileDateFormat {
+  // Format in effect, null when none fits the file's values
+  format: string | null;
+  detected: string | null;
+  unreadable: number;
+  checked: number;
+}
+
+export const detectFileDateFormats = (files: ReportFile[], dateHeader: string): FileDateFormat[] =>
+  files.map(file => {
+    const idx = file.headers.indexOf(dateHeader);
+    if (idx === -1) return { format: null, detected: null, unreadable: 0, checked: 0 };
+    const samples = file.rawData.slice(0, DATE_SAMPLE_ROWS).map(row => row[idx] ?? "").filter(v => v.trim() !== "");
+    const detected = resolveDateFormat(samples, "", detectReportProfile(file.headers)?.profile.dateFormat);
+    const format = file.dateFormat || detected;
+    const unreadable = format ? samples.filter(v => !parseDate(v, format)).length : samples.length;
+    return { format, detected, unreadable, checked: samples.length };
+  });
+
+// First few values of a column, from the first file that has it
+export const sampleColumnValues = (files: ReportFile[], header: string, count: number = 3) => {
+  for (const file of files) {
+    const idx = file.headers.indexOf(header);
+    if (idx !== -1) {
+      return file.rawData.slice(0, count).map(row => row[idx]).filter(val => val !== undefined);
+    }
+  }
+  return [];
+};
+
+export interface MappingValidation {
+  // Field -> message; any error stops conversion
+  errors: Record<string, string>;
+  warnings: Record<string, string>;
+  samples: Record<string, string[]>;
+}
+
+export const validateMapping = (
+  mapping: ColumnMapping,
+  files: ReportFile[],
+  profile: ReportProfile | null,
+  dateFormats: FileDateFormat[]
+): MappingValidation => {
+  const errors: Record<string, string> = {};
+  const warnings: Record<string, string> = {};
+  const samples: Record<string, string[]> = {};
+  const usedHeaders = new Map<string, string[]>();
+  const hasTax = Boolean(mapping.igst || mapping.cgst || mapping.sgst || profile?.taxColumn);
+
+  (Object.keys(mapping) as (keyof ColumnMapping)[]).forEach((key) => {
+    const header = mapping[key];
+
+    if (REQUIRED_FIELDS.includes(key) && !header) {
+      if (profile?.unavailableFields?.includes(key)) {
+        const fallback = key !== "gstRate" ? "default value used" : hasTax ? "derived from tax amounts" : "read as 0% with no tax column to derive it from";
+        warnings[key] = `Not present in ${profile.name}; ${fallback}.`;
+      } else {
+        errors[key] = "This field is required for Tally import.";
+      }
+      return;
+    }
+
+    if (header) {
+      if (!usedHeaders.has(header)) {
+        usedHeaders.set(header, []);
+      }
+      usedHeaders.get(header)?.push(key);
+
+      // A file of another layout would be read with the wrong columns
+      const lacking = files.filter(file => !file.headers.includes(header)).map(file => file.name);
+      if (lacking.length > 0) {
+        const message = `"${header}" is not a column in ${lacking.join(", ")}, which ${lacking.length === 1 ? "has" : "have"} a different layout. Upload ${lacking.length === 1 ? "it" : "them"} separately.`;
+        if (REQUIRED_FIELDS.includes(key)) errors[key] = message;
+        else warnings[key] = message;
+      }
+
+      const sampleValues = sampleColumnValues(files, header);
+      samples[key] = sampleValues;
+
+      if (NUMERIC_FIELDS.includes(key) && sampleValues.length > 0) {
+        const isNumeric = sampleValues.every(val => {
+          if (!val) return true;
+          const num = val.replace(/[^0-9.-]+/g, "");
+          return !isNaN(parseFloat(num)) && isFinite(Number(num));
+        });
+        if (!isNumeric) {
+          warnings[key] = "Values in some files don't look like numbers.";
+        }
+      }
+
+      if (key === "buyerGstin" && sampleValues.some(val => val && !isValidGstin(val))) {
+        warnings[key] = "Some values fail the GSTIN checksum; those rows will be treated as B2C.";
+      }
+
+      if (key === "date") {
+        const problems = files
+          .map((file, i) => ({ file, ...dateFormats[i] }))
+          .filter(f => f.file.headers.includes(header) && f.unreadable > 0)
+          .map(f => f.format
+            ? `${f.unreadable} of ${f.checked} sampled dates in ${f.file.name} don't match ${f.format}`
+            : `no known date format fits ${f.file.name}`);
+        if (problems.length > 0) {
+          warnings[key] = `${problems.join("; ")}. Rows with unreadable dates won't be exported; pick the format below.`;
+        }
+      }
+    }
+  });
+
+  if (!hasTax) {
+    warnings.igst = "No IGST, CGST or SGST column is mapped, so every row is read with no tax and won't balance against its total.";
+  }
+
+  usedHeaders.forEach((keys, header) => {
+    if (keys.length > 1) {
+      keys.forEach(key => {
+        errors[key] = `Duplicate mapping: "${header}" is also used for ${keys.filter(k => k !== key).map(k => k.replace(/([A-Z])/g, ' $1')).join(', ')}.`;
+      });
+    }
+  });
+
+  return { errors, warnings, samples };
+};
+
+const parseFloatSafe = (val: string) => parseFloat(val.replace(/[^0-9.-]+/g, "")) || 0;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// A single tax amount is CGST + SGST (half each) within the seller's state and
+// IGST otherwise, or when either state is unknown
+const splitTax = (tax: number, state: string, homeState: string) => {
+  if (!homeState || stateCodeFor(state) !== homeState) return { igst: tax, cgst: 0, sgst: 0 };
+  const cgst = round2(tax / 2);
+  return { igst: 0, cgst, sgst: round2(tax - cgst) };
+};
+
+// Reads one data row into a transaction. Column positions are looked up once
+// per file rather than once per cell. homeState is the seller's state code,
+// for reports with one tax column.
+const createRowReader = (
+  file: ReportFile,
+  mapping: ColumnMapping,
+  dateFormat: string | null,
+  signConvention?: SignConvention,
+  homeState: string = ""
+) => {
+  const match = detectReportProfile(file.headers);
+  const layout = match?.profile;
+  const marketplace = layout?.marketplace || "";
+  const columns = new Map<keyof ColumnMapping, number>();
+  (Object.keys(mapping) as (keyof ColumnMapping)[]).forEach(field => {
+    columns.set(field, file.headers.indexOf(mapping[field]));
+  });
+  const taxColumn = mapping.igst || mapping.cgst || mapping.sgst || !match?.taxColumn ? -1 : file.headers.indexOf(match.taxColumn);
+
+  return (row: string[]): MarketplaceTransaction => {
+    const getVal = (field: keyof ColumnMapping) => {
+      const idx = columns.get(field) ?? -1;
+      return idx !== -1 ? row[idx] ?? "" : "";
+    };
+
+    const rawTotal = parseFloatSafe(getVal("totalAmount"));
+    const transactionType = classifyTransactionType(getVal("transactionType"), rawTotal, signConvention, layout?.typeLabels);
+
+    // Credit notes carry their own direction, so amounts are kept positive
+    const taxableValue = Math.abs(parseFloatSafe(getVal("taxableValue")));
+    const buyerGstin = normalizeGstin(getVal("buyerGstin"));
+    const state = getVal("state") || stateFromGstin(buyerGstin);
+    const { igst, cgst, sgst } = taxColumn !== -1
+      ? splitTax(Math.abs(parseFloatSafe(row[taxColumn] ?? "")), state, homeState)
+      : {
+          igst: Math.abs(parseFloatSafe(getVal("igst"))),
+          cgst: Math.abs(parseFloatSafe(getVal("cgst"))),
+          sgst: Math.abs(parseFloatSafe(getVal("sgst")))
+        };
+    const rawDate = getVal("date");
+    const parsedDate = dateFormat ? parseDate(rawDate, dateFormat) : null;
+
+    return {
+      date: parsedDate ? toIsoDate(parsedDate) : "",
+      rawDate,
+      invoiceNo: getVal("invoiceNo"),
+      customerName: getVal("customerName"),
+      state,
+      taxableValue,
+      igst,
+      cgst,
+      sgst,
+      totalAmount: Math.abs(rawTotal),
+      gstRate: parseFloatSafe(getVal("gstRate")) || deriveGstRate(taxableValue, igst + cgst + sgst),
+      productName: getVal("productName") || "General Item",
+      quantity: Math.abs(parseFloatSafe(getVal("quantity"))) || 1,
+      transactionType,
+      originalInvoiceNo: getVal("originalInvoiceNo") || getVal("invoiceNo"),
+      hsn: getVal("hsn"),
+      buyerGstin,
+      marketplace,
+      fulfilmentChannel: getVal("fulfilmentChannel").trim(),
+      sku: getVal("sku").trim()
+    };
+  };
+};
+
+// One transaction per data row. The marketplace, type labels and tax column come
+// from each file's own layout; the sign convention from the layout the mapping
+// was built for.
+export const buildFileTransactions = (
+  file: ReportFile,
+  mapping: ColumnMapping,
+  dateFormat: string | null,
+  signConvention?: SignConvention,
+  homeState?: string
+): MarketplaceTransaction[] => file.rawData.map(createRowReader(file, mapping, dateFormat, signConvention, homeState));
+
+// Rows reported to onProgress in batches of this many
+const PROGRESS_BATCH = 5000;
+
+export const buildTransactions = (
+  files: ReportFile[],
+  mapping: ColumnMapping,
+  dateFormats: FileDateFormat[],
+  signConvention?: SignConvention,
+  homeState?: string,
+  onProgress?: (done: number, total: number) => void
+): MarketplaceTransaction[] => {
+  const total = files.reduce((sum, file) => sum + file.rawData.length, 0);
+  const transactions: MarketplaceTransaction[] = [];
+  files.forEach((file, idx) => {
+    const readRow = createRowReader(file, mapping, dateFormats[idx]?.format ?? null, signConvention, homeState);
+    file.rawData.forEach(row => {
+      if (transactions.length % PROGRESS_BATCH === 0) onProgress?.(transactions.length, total);
+      transactions.push(readRow(row));
+    });
+  });
+  onProgress?.(total, total);
+  return transactions;
+};
+
+export interface ResolvedMapping {
+  mapping: ColumnMapping;
+  // Built-in layout of the first file, if any
+  reportProfile: ReportProfile | null;
+  savedProfile: MappingProfile | null;
+  // How the mapping was chosen, for the run report
+  source: string;
+}
+
+// Same order as the upload step, minus the AI call: a saved profile for these
+// headers, then a built-in marketplace layout, then the offline matcher.
+export const resolveMapping = (files: ReportFile[], profiles: MappingProfile[] = []): ResolvedMapping => {
+  const baseFile = files[0];
+  const match = detectReportProfile(baseFile.headers);
+  const saved = findProfileForHeaders(profiles, baseFile.headers);
+  if (saved) {
+    return { mapping: saved.mapping, reportProfile: match?.profile || null, savedProfile: saved, source: `Saved profile "${saved.name}"` };
+  }
+  if (match) {
+    return { mapping: match.mapping, reportProfile: match.profile, savedProfile: null, source: `Report profile "${match.profile.name}"` };
+  }
+  const samples: Record<string, string[]> = {};
+  baseFile.headers.forEach((h, idx) => {
+    samples[h] = baseFile.rawData.slice(0, 20).map(row => row[idx] ?? "");
+  });
+  return { mapping: mapHeadersHeuristically(baseFile.headers, samples).mapping, reportProfile: null, savedProfile: null, source: "Offline header matching" };
+};
+
+export interface ConversionOptions {
+  // Used as-is when given; otherwise resolved from the profiles and headers
+  mapping?: ColumnMapping;
+  // Saved profile to apply whatever the headers are
+  profile?: MappingProfile;
+  profiles?: MappingProfile[];
+  // Applied over the saved profile's own ledger names
+  ledgerOverrides?: Record<string, string>;
+  exportSettings?: TallyExportSettings;
+  taxValidation?: TaxValidationSettings;
+  cancelHandling?: CancelHandling;
+  includeMasters?: boolean;
+  // What to do with rows repeated across the batch; kept by default
+  duplicates?: DuplicateResolution;
+}
+
+export interface ConversionLayout {
+  files: string[];
+  source: string;
+  mapping: ColumnMapping;
+}
+
+export interface ConversionFileReport {
+  name: string;
+  rows: number;
+  marketplace: string;
+  dateFormat: string | null;
+  parseErrors: number;
+}
+
+export interface ConversionReport {
+  files: ConversionFileReport[];
+  mappingSource: string;
+  // The first layout's mapping; layouts has each one when the files differ
+  mapping: ColumnMapping;
+  layouts: ConversionLayout[];
+  // Anything here means the output is missing rows or was not written
+  errors: string[];
+  warnings: string[];
+  rowCount: number;
+  invoiceCount: number;
+  voucherCount: number;
+  heldBack: { invoiceNo: string; reason: string }[];
+  // Row is the 1-based data row within its file, below the header
+  taxIssues: { file: string; row: number; invoiceNo: string; messages: string[] }[];
+}
+
+export interface ConversionResult {
+  // Null when mapping errors or blocking tax checks stopped the export
+  xml: string | null;
+  transactions: MarketplaceTransaction[];
+  report: ConversionReport;
+}
+
+// Files are mapped in groups of the same layout. A mapping or profile given
+// applies to every file; otherwise each layout is resolved on its own, so a
+// client folder holding both Amazon and Flipkart reports converts both.
+const resolveLayouts = (files: ReportFile[], options: ConversionOptions): { files: number[]; resolved: ResolvedMapping }[] => {
+  const allFiles = files.map((_, idx) => idx);
+  const reportProfile = detectReportProfile(files[0].headers)?.profile || null;
+  if (options.mapping) {
+    return [{ files: allFiles, resolved: { mapping: options.mapping, reportProfile, savedProfile: null, source: "Mapping given" } }];
+  }
+  if (options.profile) {
+    const { profile } = options;
+    return [{ files: allFiles, resolved: { mapping: profile.mapping, reportProfile, savedProfile: profile, source: `Saved profile "${profile.name}"` } }];
+  }
+  const byLayout = new Map<string, number[]>();
+  files.forEach((file, idx) => {
+    const key = findProfileForHeaders(options.profiles || [], file.headers)?.id
+      || detectReportProfile(file.headers)?.profile.id
+      || file.headers.join("\n");
+    byLayout.set(key, [...(byLayout.get(key) || []), idx]);
+  });
+  return Array.from(byLayout.values()).map(indices => ({
+    files: indices,
+    resolved: resolveMapping(indices.map(idx => files[idx]), options.profiles)
+  }));
+};
+
+export const convertReports = (files: ReportFile[], options: ConversionOptions = {}): ConversionResult => {
+  const exportSettings = options.exportSettings || DEFAULT_EXPORT_SETTINGS;
+  const taxValidation = options.taxValidation || DEFAULT_TAX_VALIDATION;
+  const cancelHandling = options.cancelHandling || "skip";
+  const report: ConversionReport = {
+    files: [],
+    mappingSource: "",
+    mapping: options.mapping || createEmptyMapping(),
+    layouts: [],
+    errors: [],
+    warnings: [],
+    rowCount: 0,
+    invoiceCount: 0,
+    voucherCount: 0,
+    heldBack: [],
+    taxIssues: []
+  };
+  if (files.length === 0) {
+    report.errors.push("No readable report files.");
+    return { xml: null, transactions: [], report };
+  }
+
+  const layouts = resolveLayouts(files, options);
+  report.mapping = layouts[0].resolved.mapping;
+  report.layouts = layouts.map(({ files: indices, resolved }) => ({
+    files: indices.map(idx => files[idx].name),
+    source: resolved.source,
+    mapping: resolved.mapping
+  }));
+  report.mappingSource = layouts.length === 1
+    ? layouts[0].resolved.source
+    : report.layouts.map(layout => `${layout.source} for ${layout.files.join(", ")}`).join("; ");
+  const ledgerOverrides = Object.assign({}, ...layouts.map(({ resolved }) => resolved.savedProfile?.ledgerOverrides), options.ledgerOverrides);
+
+  // Per file, in upload order
+  const fileLayouts: ResolvedMapping[] = [];
+  const dateFormats: FileDateFormat[] = [];
+  let mappingErrors = 0;
+  layouts.forEach(({ files: indices, resolved }) => {
+    const layoutFiles = indices.map(idx => files[idx]);
+    const layoutDateFormats = detectFileDateFormats(layoutFiles, resolved.mapping.date);
+    indices.forEach((idx, i) => {
+      fileLayouts[idx] = resolved;
+      dateFormats[idx] = layoutDateFormats[i];
+    });
+    const validation = validateMapping(resolved.mapping, layoutFiles, resolved.reportProfile, layoutDateFormats);
+    const prefix = layouts.length > 1 ? `${layoutFiles.map(file => file.name).join(", ")}: ` : "";
+    Object.entries(validation.errors).forEach(([field, message]) => report.errors.push(`${prefix}${field}: ${message}`));
+    Object.entries(validation.warnings).forEach(([field, message]) => report.warnings.push(`${prefix}${field}: ${message}`));
+    mappingErrors += Object.keys(validation.errors).length;
+  });
+
+  const parsedOrigins: { file: string; row: number }[] = [];
+  const parsed: MarketplaceTransaction[] = [];
+  files.forEach((file, idx) => {
+    const { mapping, reportProfile } = fileLayouts[idx];
+    const fileTransactions = buildFileTransactions(
+      file, mapping, dateFormats[idx].format, reportProfile?.signConvention, sellerStateCode(taxValidation)
+    );
+    fileTransactions.forEach((_, i) => parsedOrigins.push({ file: file.name, row: i + 1 }));
+    parsed.push(...fileTransactions);
+    report.files.push({
+      name: file.name,
+      rows: fileTransactions.length,
+      marketplace: fileTransactions[0]?.marketplace || "",
+      dateFormat: dateFormats[idx].format,
+      parseErrors: file.parseErrors.length
+    });
+    file.parseErrors.slice(0, 5).forEach(e => report.warnings.push(`${file.name} line ${e.line}: ${e.message}`));
+  });
+  if (mappingErrors > 0) {
+    return { xml: null, transactions: [], report };
+  }
+
+  // Resolved the same way as in the review step, through edits over the parsed rows
+  const duplicates = findDuplicateRows(parsed);
+  const edits = resolveDuplicates({}, parsed, duplicates, options.duplicates || "keep");
+  const transactions = includedTransactions(applyTransactionEdits(parsed, edits), edits);
+  const origins = parsedOrigins.filter((_, idx) => !isExcluded(edits, idx));
+  if (duplicates.length > 0) {
+    const listed = duplicates.slice(0, 10).map(group =>
+      `${group.invoiceNo} (${group.item}, ${group.rows.map(idx => `${parsedOrigins[idx].file} row ${parsedOrigins[idx].row}`).join(" and ")})`
+    );
+    const outcome = options.duplicates === "merge" ? "merged into one line each" : options.duplicates === "drop" ? "exported once" : "all exported";
+    report.warnings.push(`${duplicates.length} invoice line(s) appear more than once, ${outcome}: ${listed.join("; ")}${duplicates.length > 10 ? "; …" : ""}.`);
+  }
+
+  const xmlOptions = { cancelHandling, exportSettings };
+  report.rowCount = transactions.length;
+  report.invoiceCount = exportableVouchers(transactions, xmlOptions).length;
+  report.voucherCount = tallyVouchers(transactions, xmlOptions).length;
+
+  findHeldBackVouchers(transactions, xmlOptions).forEach(({ group, reason }) => {
+    report.heldBack.push({ invoiceNo: group.lines[0].invoiceNo, reason });
+  });
+  if (report.heldBack.length > 0) {
+    report.errors.push(`${report.heldBack.length} voucher(s) held back from the export.`);
+  }
+
+  const taxIssues = validateTransactions(transactions, taxValidation, cancelHandling);
+  Object.entries(taxIssues).forEach(([idx, messages]) => {
+    const origin = origins[Number(idx)];
+    report.taxIssues.push({ ...origin, invoiceNo: transactions[Number(idx)].invoiceNo, messages });
+  });
+  const blocked = taxValidation.mode === "block" && report.taxIssues.length > 0;
+  if (report.taxIssues.length > 0) {
+    const message = `${report.taxIssues.length} row(s) fail tax validation.`;
+    if (blocked) report.errors.push(`${message} Export is blocked until they are fixed.`);
+    else report.warnings.push(message);
+  }
+
+  const unmapped = exportSettings.skuCatalogue.length > 0 ? findUnmappedSkus(transactions, exportSettings.skuCatalogue) : [];
+  if (unmapped.length > 0) {
+    report.warnings.push(`${unmapped.length} SKU(s) not in the catalogue post to stock items named after the product title: ${unmapped.slice(0, 10).map(u => u.sku).join(", ")}${unmapped.length > 10 ? ", …" : ""}.`);
+  }
+
+  if (transactions.length === 0) {
+    report.errors.push("The reports have no data rows.");
+    return { xml: null, transactions, report };
+  }
+  if (blocked) {
+    return { xml: null, transactions, report };
+  }
+  const xml = options.includeMasters
+    ? generateCombinedTallyXml(transactions, ledgerOverrides, xmlOptions)
+    : generateTallyXml(transactions, ledgerOverrides, xmlOptions);
+  return { xml, transactions, report };
+};
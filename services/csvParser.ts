@@ -0,0 +1,211 @@
+
+export interface CsvParseError {
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  rows: string[][];
+  delimiter: string;
+  errors: CsvParseError[];
+}
+
+export interface CsvParserOptions {
+  // Leave empty to detect comma, tab or semicolon from the header line
+  delimiter?: string;
+  onProgress?: (fraction: number) => void;
+}
+
+const CANDIDATE_DELIMITERS = [",", "\t", ";"];
+
+export const detectDelimiter = (sample: string): string => {
+  const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+
+  for (const ch of sample) {
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (ch === '\n' || ch === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(ch)) {
+      counts.set(ch, (counts.get(ch) || 0) + 1);
+    }
+  }
+
+  let best = ",";
+  let bestCount = 0;
+  counts.forEach((count, d) => {
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+// Incremental RFC 4180 parser. Text can be pushed in arbitrary chunks; quoted
+// fields may span chunk boundaries and physical lines.
+export const createCsvParser = (options: CsvParserOptions = {}) => {
+  let delimiter = options.delimiter || "";
+  let pending = "";
+  let isFirstChunk = true;
+
+  const rows: string[][] = [];
+  const errors: CsvParseError[] = [];
+
+  let row: string[] = [];
+  let field = "";
+  let fieldQuoted = false;
+  let inQuotes = false;
+  let quoteSeen = false;
+  let afterCR = false;
+  let line = 1;
+  let rowStartLine = 1;
+  let rowError = "";
+
+  const flagRow = (message: string) => {
+    if (!rowError) rowError = message;
+  };
+
+  const endField = () => {
+    row.push(fieldQuoted ? field : field.trim());
+    field = "";
+    fieldQuoted = false;
+  };
+
+  const endRow = () => {
+    endField();
+    const isBlank = row.length === 1 && row[0] === "";
+    if (!isBlank) {
+      const expected = rows.length > 0 ? rows[0].length : row.length;
+      if (!rowError && row.length !== expected) {
+        flagRow(`Expected ${expected} fields but found ${row.length}.`);
+      }
+      if (rowError) errors.push({ line: rowStartLine, message: rowError });
+      rows.push(row);
+    }
+    row = [];
+    rowError = "";
+    rowStartLine = line;
+  };
+
+  const consume = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (afterCR) {
+        afterCR = false;
+        if (ch === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (quoteSeen) {
+          quoteSeen = false;
+          if (ch === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else {
+          if (ch === '"') {
+            quoteSeen = true;
+          } else if (ch === '\r' || ch === '\n') {
+            // Normalise embedded line breaks (e.g. multi-line addresses) to \n
+            field += '\n';
+            line++;
+            afterCR = ch === '\r';
+          } else {
+            field += ch;
+          }
+          continue;
+        }
+      }
+
+      if (ch === delimiter) {
+        endField();
+      } else if (ch === '\r' || ch === '\n') {
+        line++;
+        afterCR = ch === '\r';
+        endRow();
+      } else if (ch === '"') {
+        if (!fieldQuoted && field.trim() === "") {
+          field = "";
+          fieldQuoted = true;
+          inQuotes = true;
+        } else {
+          flagRow(`Unexpected quote in field ${row.length + 1}.`);
+          field += ch;
+        }
+      } else {
+        if (fieldQuoted && ch.trim() !== "") {
+          flagRow(`Unexpected characters after closing quote in field ${row.length + 1}.`);
+        }
+        field += ch;
+      }
+    }
+  };
+
+  const push = (chunk: string) => {
+    if (isFirstChunk) {
+      isFirstChunk = false;
+      if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1);
+    }
+
+    if (!delimiter) {
+      // Hold text back until the header line is complete so detection sees all of it
+      pending += chunk;
+      if (!/[\r\n]/.test(pending)) return;
+      delimiter = detectDelimiter(pending);
+      chunk = pending;
+      pending = "";
+    }
+
+    consume(chunk);
+  };
+
+  const finish = (): CsvParseResult => {
+    if (!delimiter) {
+      delimiter = detectDelimiter(pending);
+      consume(pending);
+      pending = "";
+    }
+
+    if (inQuotes && !quoteSeen) {
+      flagRow("Unterminated quoted field.");
+    }
+    if (row.length > 0 || field !== "" || fieldQuoted) {
+      endRow();
+    }
+
+    return { rows, delimiter, errors };
+  };
+
+  return { push, finish };
+};
+
+export const parseCSV = (csvText: string, options: CsvParserOptions = {}): CsvParseResult => {
+  const parser = createCsvParser(options);
+  parser.push(csvText);
+  return parser.finish();
+};
+
+// Reads the file as a byte stream and yields to the event loop between chunks
+// so large monthly reports don't block the UI.
+export const parseCSVFile = async (file: Blob, options: CsvParserOptions = {}): Promise<CsvParseResult> => {
+  const parser = createCsvParser(options);
+  const decoder = new TextDecoder("utf-8");
+  const reader = file.stream().getReader();
+  let bytesRead = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    parser.push(decoder.decode(value, { stream: true }));
+    options.onProgress?.(file.size > 0 ? bytesRead / file.size : 1);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  parser.push(decoder.decode());
+
+  return parser.finish();
+};
@@ -0,0 +1,168 @@
+
+export interface ParsedDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+// Marker format for Excel serial day numbers (days since 1899-12-30)
+export const EXCEL_SERIAL_FORMAT = "excel";
+
+// Offered in the format picker and tried in this order by detection. Day-first
+// comes before month-first so Indian dates win whenever both would parse.
+export const DATE_FORMATS = [
+  "yyyy-MM-dd",
+  "yyyy/MM/dd",
+  "dd-MM-yyyy",
+  "dd/MM/yyyy",
+  "dd.MM.yyyy",
+  "dd-MMM-yyyy",
+  "dd MMM yyyy",
+  "dd-MMM-yy",
+  "MMM dd, yyyy",
+  "dd-MM-yy",
+  "dd/MM/yy",
+  "MM/dd/yyyy",
+  "MM-dd-yyyy",
+  "MM/dd/yy",
+  EXCEL_SERIAL_FORMAT
+];
+
+// Marketplace timestamps are converted to Indian time before taking the date,
+// so an order at 23:30 UTC lands on the next day as it does on the GST invoice.
+const TARGET_OFFSET_MINUTES = 330;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const TOKENS: { token: string; pattern: string; field: keyof ParsedDate | "monthName" }[] = [
+  { token: "yyyy", pattern: "(\\d{4})", field: "year" },
+  { token: "yy", pattern: "(\\d{2})", field: "year" },
+  { token: "MMM", pattern: "([a-z]{3,9})\\.?", field: "monthName" },
+  { token: "MM", pattern: "(\\d{1,2})", field: "month" },
+  { token: "M", pattern: "(\\d{1,2})", field: "month" },
+  { token: "dd", pattern: "(\\d{1,2})", field: "day" },
+  { token: "d", pattern: "(\\d{1,2})", field: "day" }
+];
+
+// Optional time of day and zone after the date, in any of the spellings the
+// marketplaces use: "10:21:34", "10:21 PM", "T10:21:34.000Z", "+05:30", "IST".
+const TIME_SUFFIX =
+  "(?:[\\sT,]+(\\d{1,2}):(\\d{2})(?::(\\d{2})(?:\\.\\d+)?)?\\s*(am|pm)?)?" +
+  "\\s*(z|utc|gmt|ist|(?:utc|gmt)?[+-]\\d{1,2}(?::?\\d{2})?)?";
+
+const compiled = new Map<string, { regex: RegExp; fields: (keyof ParsedDate | "monthName")[] }>();
+
+// "dd-MM-yyyy HH:mm:ss" and "dd-MM-yyyy" describe the same dates; times are
+// handled by TIME_SUFFIX, so only the part before the hours matters.
+const datePartOf = (format: string) => format.split(/[\sT']+H/)[0].trim();
+
+const compileFormat = (format: string) => {
+  const datePart = datePartOf(format);
+  const cached = compiled.get(datePart);
+  if (cached) return cached;
+
+  let pattern = "";
+  const fields: (keyof ParsedDate | "monthName")[] = [];
+  let i = 0;
+  while (i < datePart.length) {
+    const match = TOKENS.find(t => datePart.startsWith(t.token, i));
+    if (match) {
+      pattern += match.pattern;
+      fields.push(match.field);
+      i += match.token.length;
+    } else {
+      const ch = datePart[i];
+      pattern += /\s/.test(ch) ? "\\s+" : ch.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      i++;
+    }
+  }
+
+  const entry = { regex: new RegExp(`^${pattern}${TIME_SUFFIX}$`, "i"), fields };
+  compiled.set(datePart, entry);
+  return entry;
+};
+
+const zoneOffsetMinutes = (zone: string) => {
+  const z = zone.toLowerCase();
+  if (z === "z" || z === "utc" || z === "gmt") return 0;
+  if (z === "ist") return 330;
+  const m = z.match(/([+-])(\d{1,2}):?(\d{2})?$/);
+  if (!m) return null;
+  const minutes = parseInt(m[2], 10) * 60 + parseInt(m[3] || "0", 10);
+  return m[1] === "-" ? -minutes : minutes;
+};
+
+const isRealDate = ({ year, month, day }: ParsedDate) => {
+  const check = new Date(Date.UTC(year, month - 1, day));
+  return check.getUTCFullYear() === year && check.getUTCMonth() === month - 1 && check.getUTCDate() === day;
+};
+
+const shiftDays = (date: ParsedDate, days: number): ParsedDate => {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+};
+
+const parseExcelSerial = (value: string): ParsedDate | null => {
+  if (!/^\d{5}(\.\d+)?$/.test(value)) return null;
+  const serial = Math.floor(parseFloat(value));
+  // 1954 to 2119; anything else is more likely an amount or an ID
+  if (serial < 20000 || serial > 80000) return null;
+  return shiftDays({ year: 1899, month: 12, day: 30 }, serial);
+};
+
+// Parses one cell against an explicit format. Returns null rather than
+// guessing when the value doesn't fit, so callers can refuse the row.
+export const parseDate = (value: string, format: string): ParsedDate | null => {
+  const trimmed = (value || "").trim();
+  if (!trimmed) return null;
+  if (format === EXCEL_SERIAL_FORMAT) return parseExcelSerial(trimmed);
+
+  const { regex, fields } = compileFormat(format);
+  const m = trimmed.match(regex);
+  if (!m) return null;
+
+  const parts: ParsedDate = { year: 0, month: 0, day: 0 };
+  for (let i = 0; i < fields.length; i++) {
+    const raw = m[i + 1];
+    const field = fields[i];
+    if (field === "monthName") {
+      const idx = MONTHS.indexOf(raw.slice(0, 3).toLowerCase());
+      if (idx === -1) return null;
+      parts.month = idx + 1;
+    } else {
+      parts[field] = parseInt(raw, 10);
+    }
+  }
+  if (parts.year < 100) parts.year += 2000;
+  if (!isRealDate(parts)) return null;
+
+  const [hourRaw, minuteRaw, , meridiem, zone] = m.slice(fields.length + 1);
+  if (hourRaw === undefined || zone === undefined) return parts;
+
+  const offset = zoneOffsetMinutes(zone);
+  if (offset === null) return null;
+  let hour = parseInt(hourRaw, 10) % (meridiem ? 12 : 24);
+  if (meridiem?.toLowerCase() === "pm") hour += 12;
+  const minutes = hour * 60 + parseInt(minuteRaw, 10) - offset + TARGET_OFFSET_MINUTES;
+  return shiftDays(parts, Math.floor(minutes / 1440));
+};
+
+// The first known format every non-empty sample parses under, or null when
+// none fits them all.
+export const detectDateFormat = (samples: string[]): string | null => {
+  const values = samples.map(v => (v || "").trim()).filter(v => v !== "");
+  if (values.length === 0) return null;
+  return DATE_FORMATS.find(format => values.every(v => parseDate(v, format) !== null)) || null;
+};
+
+// Explicit choice first, then the report profile's format if the samples agree
+// with it, then whatever detection finds.
+export const resolveDateFormat = (samples: string[], explicit?: string, profileFormat?: string): string | null => {
+  if (explicit) return explicit;
+  const values = samples.filter(v => v && v.trim() !== "");
+  if (profileFormat && values.every(v => parseDate(v, profileFormat) !== null)) return profileFormat;
+  return detectDateFormat(values);
+};
+
+export const toIsoDate = ({ year, month, day }: ParsedDate) =>
+  `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
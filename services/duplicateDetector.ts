@@ -0,0 +1,78 @@
+
+import { MarketplaceTransaction, TransactionEdits } from "../types";
+import { editTransactions, isExcluded, setExcluded } from "./transactionEdits";
+
+// Overlapping report ranges, or the same report uploaded twice, repeat rows
+// that would otherwise be added into the same voucher twice. A row repeats
+// another when its type, invoice number, SKU (or product, without one) and
+// total all match.
+
+export interface DuplicateGroup {
+  key: string;
+  invoiceNo: string;
+  item: string;
+  totalAmount: number;
+  // Row indices in report order; the first is the one kept when dropping
+  rows: number[];
+}
+
+// keep: every copy is a real line. merge: one line for the combined quantity
+// and amounts. drop: only the first copy is exported.
+export type DuplicateResolution = "keep" | "merge" | "drop";
+
+const MERGED_FIELDS = ["quantity", "taxableValue", "igst", "cgst", "sgst", "totalAmount"] as const;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const duplicateKey = (tx: MarketplaceTransaction) =>
+  `${tx.transactionType}|${tx.invoiceNo.trim()}|${(tx.sku || tx.productName).trim()}|${Math.round(tx.totalAmount * 100)}`;
+
+export const findDuplicateRows = (transactions: MarketplaceTransaction[]): DuplicateGroup[] => {
+  const byKey = new Map<string, DuplicateGroup>();
+  transactions.forEach((tx, idx) => {
+    // Without an invoice number there is nothing to tell a repeat from a second sale
+    if (!tx.invoiceNo.trim()) return;
+    const key = duplicateKey(tx);
+    const group = byKey.get(key);
+    if (group) group.rows.push(idx);
+    else byKey.set(key, { key, invoiceNo: tx.invoiceNo, item: tx.sku || tx.productName, totalAmount: tx.totalAmount, rows: [idx] });
+  });
+  return Array.from(byKey.values()).filter(group => group.rows.length > 1);
+};
+
+// Resolutions are recorded as review edits, so they show in the row diffs
+// and can be reverted like any other change. Switching away from merge only
+// takes back the figures the merge wrote, and keep only includes again the
+// copies a drop or merge left out; corrections and exclusions made by hand
+// stay as they are.
+export const resolveDuplicates = (
+  edits: TransactionEdits,
+  parsed: MarketplaceTransaction[],
+  groups: DuplicateGroup[],
+  resolution: DuplicateResolution
+): TransactionEdits => {
+  let next = { ...edits };
+  groups.forEach(({ rows }) => {
+    const [first, ...copies] = rows;
+    MERGED_FIELDS.forEach(field => {
+      const merged = round2(rows.reduce((total, idx) => total + parsed[idx][field], 0));
+      if (resolution === "merge") next = editTransactions(next, parsed, [first], field, merged);
+      else if (next[first]?.changes[field] === merged) next = editTransactions(next, parsed, [first], field, parsed[first][field]);
+    });
+    if (resolution === "keep") {
+      next = setExcluded(next, copies.filter(idx => next[idx]?.excludedAsDuplicate), false);
+    } else {
+      copies.filter(idx => !isExcluded(next, idx)).forEach(idx => {
+        next[idx] = { changes: next[idx]?.changes || {}, excluded: true, excludedAsDuplicate: true };
+      });
+    }
+  });
+  return next;
+};
+
+// Read back from the edits, so a revert in the table shows up here too
+export const duplicateResolution = (edits: TransactionEdits, group: DuplicateGroup): DuplicateResolution => {
+  const [first, ...copies] = group.rows;
+  if (!copies.every(idx => isExcluded(edits, idx))) return "keep";
+  return edits[first]?.changes.totalAmount !== undefined ? "merge" : "drop";
+};
@@ -0,0 +1,123 @@
+
+import { ExportedInvoice } from "../types";
+import { VoucherGroup } from "./tallyXmlGenerator";
+
+// Invoice numbers already exported for each client, kept in the browser so a
+// second export of the same month is caught before Tally books it twice
+
+const LEDGER_KEY_PREFIX = "tallybridge.exportedInvoices.";
+
+// Older voucher months are forgotten so the ledger stays well inside the
+// browser's storage quota
+export const LEDGER_MONTHS_KEPT = 24;
+
+// The numbers exported for one voucher month. Only the month's latest export
+// time is kept, which is what keeps a busy client's ledger small.
+export interface ExportedMonth {
+  invoices: string[];
+  creditNotes: string[];
+  exportedAt: string;
+}
+
+// Keyed by voucher month (yyyy-MM), "" for vouchers without a date
+export type ExportLedger = Record<string, ExportedMonth>;
+
+export interface PreviouslyExported {
+  group: VoucherGroup;
+  previous: ExportedInvoice;
+}
+
+const invoiceKey = (invoiceNo: string, creditNote: boolean) => `${creditNote ? "CN" : "SI"}|${invoiceNo}`;
+
+// Ledgers saved before the per-month layout held one entry per invoice, keyed like invoiceKey
+interface LegacyEntry {
+  invoiceNo: string;
+  creditNote: boolean;
+  date: string;
+  exportedAt: string;
+}
+
+const fromLegacy = (stored: Record<string, LegacyEntry>): ExportLedger =>
+  Object.values(stored).reduce<ExportLedger>((ledger, entry) => {
+    const month = (entry.date || "").slice(0, 7);
+    const bucket = (ledger[month] ||= { invoices: [], creditNotes: [], exportedAt: entry.exportedAt });
+    (entry.creditNote ? bucket.creditNotes : bucket.invoices).push(entry.invoiceNo);
+    if (entry.exportedAt > bucket.exportedAt) bucket.exportedAt = entry.exportedAt;
+    return ledger;
+  }, {});
+
+export const loadExportLedger = (clientId: string): ExportLedger => {
+  try {
+    const stored = localStorage.getItem(LEDGER_KEY_PREFIX + clientId);
+    if (!stored) return {};
+    const parsed = JSON.parse(stored);
+    if (!Object.keys(parsed).some(key => key.includes("|"))) return parsed;
+    const ledger = fromLegacy(parsed);
+    saveExportLedger(clientId, ledger);
+    return ledger;
+  } catch {
+    return {};
+  }
+};
+
+// False when the browser refused to store it, usually because its storage is full
+export const saveExportLedger = (clientId: string, ledger: ExportLedger): boolean => {
+  try {
+    localStorage.setItem(LEDGER_KEY_PREFIX + clientId, JSON.stringify(ledger));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const clearExportLedger = (clientId: string) => {
+  localStorage.removeItem(LEDGER_KEY_PREFIX + clientId);
+};
+
+export const exportedInvoiceCount = (ledger: ExportLedger) =>
+  Object.values(ledger).reduce((sum, month) => sum + month.invoices.length + month.creditNotes.length, 0);
+
+// Summary vouchers record each invoice they roll up, so an invoice is caught
+// again whether or not the next export consolidates it. Months beyond the
+// newest LEDGER_MONTHS_KEPT are dropped.
+export const recordExportedVouchers = (
+  ledger: ExportLedger,
+  groups: VoucherGroup[],
+  exportedAt: string = new Date().toISOString()
+): ExportLedger => {
+  const added = new Map<string, { invoices: Set<string>; creditNotes: Set<string> }>();
+  groups.forEach(group => {
+    (group.summary?.sources || group.lines).forEach(tx => {
+      if (!tx.invoiceNo) return;
+      const month = (tx.date || "").slice(0, 7);
+      if (!added.has(month)) {
+        const previous = ledger[month];
+        added.set(month, { invoices: new Set(previous?.invoices), creditNotes: new Set(previous?.creditNotes) });
+      }
+      const sets = added.get(month)!;
+      (group.creditNote ? sets.creditNotes : sets.invoices).add(tx.invoiceNo);
+    });
+  });
+
+  const next = { ...ledger };
+  added.forEach(({ invoices, creditNotes }, month) => {
+    next[month] = { invoices: Array.from(invoices), creditNotes: Array.from(creditNotes), exportedAt };
+  });
+  const dated = Object.keys(next).filter(Boolean).sort();
+  dated.slice(0, Math.max(0, dated.length - LEDGER_MONTHS_KEPT)).forEach(month => delete next[month]);
+  return next;
+};
+
+// Takes the per-invoice groups from exportableVouchers, before any B2C consolidation
+export const findPreviouslyExported = (ledger: ExportLedger, groups: VoucherGroup[]): PreviouslyExported[] => {
+  const exported = new Map<string, ExportedInvoice>();
+  Object.entries(ledger).forEach(([month, { invoices, creditNotes, exportedAt }]) => {
+    invoices.forEach(invoiceNo => exported.set(invoiceKey(invoiceNo, false), { invoiceNo, creditNote: false, month, exportedAt }));
+    creditNotes.forEach(invoiceNo => exported.set(invoiceKey(invoiceNo, true), { invoiceNo, creditNote: true, month, exportedAt }));
+  });
+  return groups.flatMap(group => {
+    const head = group.lines[0];
+    const previous = head.invoiceNo ? exported.get(invoiceKey(head.invoiceNo, group.creditNote)) : undefined;
+    return previous ? [{ group, previous }] : [];
+  });
+};
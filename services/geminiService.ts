@@ -1,36 +1,27 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { ColumnMapping } from "../types";
+import { ColumnMapping, HeaderIdentifier } from "../types";
+import { buildHeaderPrompt, coerceMapping } from "./headerPrompt";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+export const identifyHeaders = async (
+  headers: string[],
+  samples: Record<string, string[]> = {},
+  model: string = DEFAULT_GEMINI_MODEL
+): Promise<ColumnMapping> => {
+  if (!process.env.API_KEY) {
+    throw new Error("Gemini API key is not configured.");
+  }
 
-export const identifyHeaders = async (headers: string[]): Promise<ColumnMapping> => {
   // Use the API_KEY from environment variables directly as per guidelines
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   
-  const prompt = `
-    I have a CSV report from an eCommerce marketplace (like Amazon MTR or Flipkart Tax report). 
-    Here are the headers found in the file: ${headers.join(", ")}.
-    
-    Identify which header corresponds to the following fields:
-    - date (The invoice or transaction date)
-    - invoiceNo (The unique invoice or order ID)
-    - customerName (Recipient name)
-    - state (Place of supply or customer state)
-    - taxableValue (Net value before tax)
-    - igst (Integrated GST amount)
-    - cgst (Central GST amount)
-    - sgst (State GST amount)
-    - totalAmount (Gross amount including tax)
-    - gstRate (The tax percentage rate)
-    - productName (The SKU, item description, or product name)
-    - quantity (Number of items sold)
-
-    Return ONLY a JSON object mapping these fields to the headers provided. 
-    If a field is not found, leave the value as an empty string.
-  `;
+  const prompt = buildHeaderPrompt(headers, samples);
 
   try {
     const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+      model,
       contents: prompt,
       config: {
         responseMimeType: "application/json",
@@ -49,19 +40,27 @@ export const identifyHeaders = async (headers: string[]): Promise<ColumnMapping>
             gstRate: { type: Type.STRING },
             productName: { type: Type.STRING },
             quantity: { type: Type.STRING },
+            transactionType: { type: Type.STRING },
+            originalInvoiceNo: { type: Type.STRING },
+            hsn: { type: Type.STRING },
+            buyerGstin: { type: Type.STRING },
+            fulfilmentChannel: { type: Type.STRING },
+            sku: { type: Type.STRING },
           }
         }
       }
     });
 
-    return JSON.parse(response.text) as ColumnMapping;
+    return coerceMapping(JSON.parse(response.text || "{}"), headers);
   } catch (error) {
     console.error("Error calling Gemini for header mapping:", error);
-    // Fallback empty mapping
-    return {
-      date: "", invoiceNo: "", customerName: "", state: "",
-      taxableValue: "", igst: "", cgst: "", sgst: "",
-      totalAmount: "", gstRate: "", productName: "", quantity: ""
-    };
+    // Let the caller fall back to the offline heuristic mapper
+    throw error;
   }
 };
+
+export const createGeminiIdentifier = (model: string = DEFAULT_GEMINI_MODEL): HeaderIdentifier => ({
+  kind: "gemini",
+  label: `Gemini (${model})`,
+  identify: (headers, samples) => identifyHeaders(headers, samples, model)
+});
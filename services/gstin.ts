@@ -0,0 +1,99 @@
+
+// GST state codes as used in the first two digits of a GSTIN, with the state
+// names Tally expects in LEDSTATENAME / STATENAME.
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu & Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra & Nagar Haveli and Daman & Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman & Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory"
+};
+
+const GSTIN_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const GSTIN_PATTERN = /^\d{2}[0-9A-Z]{13}$/;
+
+export const normalizeGstin = (value: string) => value.replace(/[\s-]/g, "").toUpperCase();
+
+// Check character per the GSTN spec: base-36 Luhn variant over the first 14 characters
+const gstinCheckChar = (body: string) => {
+  let total = 0;
+  for (let i = 0; i < body.length; i++) {
+    const product = GSTIN_CHARSET.indexOf(body[i]) * (i % 2 === 0 ? 1 : 2);
+    total += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (total % 36)) % 36];
+};
+
+export const isValidGstin = (value: string) => {
+  const gstin = normalizeGstin(value || "");
+  if (!GSTIN_PATTERN.test(gstin)) return false;
+  if (!GST_STATE_CODES[gstin.slice(0, 2)]) return false;
+  return gstinCheckChar(gstin.slice(0, 14)) === gstin[14];
+};
+
+export const stateFromGstin = (value: string) => {
+  const gstin = normalizeGstin(value || "");
+  return isValidGstin(gstin) ? GST_STATE_CODES[gstin.slice(0, 2)] : "";
+};
+
+const STATE_ALIASES: Record<string, string> = {
+  orissa: "21",
+  pondicherry: "34",
+  newdelhi: "07",
+  uttaranchal: "05",
+  chattisgarh: "22",
+  dadraandnagarhaveli: "26",
+  damananddiu: "26",
+  andamanandnicobar: "35"
+};
+
+const stateKey = (name: string) => name.toLowerCase().replace(/&/g, "and").replace(/[^a-z]/g, "");
+
+const CODES_BY_STATE_KEY = new Map(
+  Object.entries(GST_STATE_CODES).map(([code, name]) => [stateKey(name), code])
+);
+
+// Two-digit GST state code for a state as written in a report: a name in any
+// case or spelling variant, a bare code, or "27-Maharashtra" style. "" if unknown.
+export const stateCodeFor = (state: string) => {
+  const trimmed = (state || "").trim();
+  const leadingCode = trimmed.match(/^(\d{1,2})\b/);
+  if (leadingCode) {
+    const code = leadingCode[1].padStart(2, "0");
+    return GST_STATE_CODES[code] ? code : "";
+  }
+  const key = stateKey(trimmed);
+  return CODES_BY_STATE_KEY.get(key) || STATE_ALIASES[key] || "";
+};
@@ -0,0 +1,266 @@
+
+import { CancelHandling, MarketplaceTransaction, TallyExportSettings, TaxValidationSettings } from "../types";
+import { DEFAULT_EXPORT_SETTINGS } from "./clientConfig";
+import { normalizeGstin, stateCodeFor } from "./gstin";
+import { resolveStockItem, uqcForUnit } from "./skuCatalogue";
+import { sellerStateCode } from "./taxValidator";
+import { exportableVouchers, isB2B, VoucherGroup } from "./tallyXmlGenerator";
+
+export interface Gstr1Options {
+  cancelHandling?: CancelHandling;
+  exportSettings?: TallyExportSettings;
+  taxValidation: TaxValidationSettings;
+  // yyyy-MM
+  period: string;
+}
+
+interface Gstr1ItemDetail {
+  txval: number;
+  rt: number;
+  iamt: number;
+  camt?: number;
+  samt?: number;
+  csamt: number;
+}
+
+interface Gstr1Item {
+  num: number;
+  itm_det: Gstr1ItemDetail;
+}
+
+interface Gstr1Invoice {
+  inum: string;
+  idt: string;
+  val: number;
+  pos: string;
+  rchrg: "N";
+  inv_typ: "R";
+  itms: Gstr1Item[];
+}
+
+interface Gstr1Note {
+  ntty: "C";
+  nt_num: string;
+  nt_dt: string;
+  val: number;
+  pos: string;
+  itms: Gstr1Item[];
+}
+
+export interface Gstr1B2csRow {
+  sply_ty: "INTRA" | "INTER";
+  pos: string;
+  typ: "OE";
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+export interface Gstr1HsnRow {
+  num: number;
+  hsn_sc: string;
+  desc: string;
+  uqc: string;
+  qty: number;
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+// Field names follow the GST offline tool's JSON schema
+export interface Gstr1Return {
+  gstin: string;
+  fp: string;
+  b2b: { ctin: string; inv: Gstr1Invoice[] }[];
+  b2cl: { pos: string; inv: Omit<Gstr1Invoice, "pos" | "rchrg" | "inv_typ">[] }[];
+  b2cs: Gstr1B2csRow[];
+  cdnr: { ctin: string; nt: (Gstr1Note & { rchrg: "N"; inv_typ: "R" })[] }[];
+  cdnur: (Gstr1Note & { typ: "B2CL" })[];
+  hsn: { hsn_b2b: Gstr1HsnRow[]; hsn_b2c: Gstr1HsnRow[] };
+}
+
+export interface Gstr1Build {
+  json: Gstr1Return;
+  // Vouchers in the period that could not be reported, with the reason
+  skipped: string[];
+}
+
+// Inter-state supplies to unregistered buyers above this invoice value are
+// reported invoice-wise in B2CL: ₹2.5 lakh, lowered to ₹1 lakh for invoices
+// dated from 1 August 2024
+export const b2clLimit = (isoDate: string) => (isoDate < "2024-08-01" ? 250000 : 100000);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const sum = (lines: MarketplaceTransaction[], pick: (tx: MarketplaceTransaction) => number) =>
+  round2(lines.reduce((total, tx) => total + pick(tx), 0));
+
+// Filing period code, e.g. "2024-07" -> "072024"
+const filingPeriod = (period: string) => `${period.slice(5, 7)}${period.slice(0, 4)}`;
+
+const gstDate = (isoDate: string) => `${isoDate.slice(8, 10)}-${isoDate.slice(5, 7)}-${isoDate.slice(0, 4)}`;
+
+// Months with at least one dated transaction, newest first
+export const gstr1Periods = (transactions: MarketplaceTransaction[]) =>
+  Array.from(new Set(transactions.filter(tx => tx.date).map(tx => tx.date.slice(0, 7)))).sort().reverse();
+
+const itemsByRate = (lines: MarketplaceTransaction[], interState: boolean): Gstr1Item[] => {
+  const byRate = new Map<number, MarketplaceTransaction[]>();
+  lines.forEach(tx => byRate.set(tx.gstRate, [...(byRate.get(tx.gstRate) || []), tx]));
+  return Array.from(byRate.entries()).map(([rt, rateLines], idx) => ({
+    num: idx + 1,
+    itm_det: interState
+      ? { txval: sum(rateLines, tx => tx.taxableValue), rt, iamt: sum(rateLines, tx => tx.igst), csamt: 0 }
+      : {
+          txval: sum(rateLines, tx => tx.taxableValue),
+          rt,
+          iamt: 0,
+          camt: sum(rateLines, tx => tx.cgst),
+          samt: sum(rateLines, tx => tx.sgst),
+          csamt: 0
+        }
+  }));
+};
+
+const findOrAdd = <T>(list: T[], match: (entry: T) => boolean, create: () => T): T => {
+  let entry = list.find(match);
+  if (!entry) {
+    entry = create();
+    list.push(entry);
+  }
+  return entry;
+};
+
+// Builds the return for one month from the same vouchers the Tally export
+// writes, so held-back rows are left out of both.
+export const buildGstr1 = (transactions: MarketplaceTransaction[], options: Gstr1Options): Gstr1Build => {
+  const settings = options.exportSettings || DEFAULT_EXPORT_SETTINGS;
+  const homeState = sellerStateCode(options.taxValidation);
+  const json: Gstr1Return = {
+    gstin: normalizeGstin(options.taxValidation.sellerGstin),
+    fp: filingPeriod(options.period),
+    b2b: [],
+    b2cl: [],
+    b2cs: [],
+    cdnr: [],
+    cdnur: [],
+    hsn: { hsn_b2b: [], hsn_b2c: [] }
+  };
+  const skipped: string[] = [];
+  const b2cs = new Map<string, Gstr1B2csRow>();
+  const hsnRows = { hsn_b2b: new Map<string, Gstr1HsnRow>(), hsn_b2c: new Map<string, Gstr1HsnRow>() };
+
+  const vouchers = exportableVouchers(transactions, { cancelHandling: options.cancelHandling, exportSettings: settings })
+    .filter(group => group.lines[0].date.startsWith(options.period));
+
+  vouchers.forEach((group: VoucherGroup) => {
+    const first = group.lines[0];
+    const registered = isB2B(first);
+    const pos = stateCodeFor(first.state) || (registered ? first.buyerGstin.slice(0, 2) : "");
+    const number = first.invoiceNo || "(no invoice no.)";
+    if (!pos) {
+      skipped.push(`${group.creditNote ? "Credit note" : "Invoice"} ${number}: place of supply "${first.state}" is not a recognised state.`);
+      return;
+    }
+    // Without a home state the tax actually charged decides
+    const interState = homeState ? pos !== homeState : sum(group.lines, tx => tx.igst) > 0;
+    const val = sum(group.lines, tx => tx.totalAmount);
+    const idt = gstDate(first.date);
+    const itms = itemsByRate(group.lines, interState);
+    const large = !registered && interState && val > b2clLimit(first.date);
+    const sign = group.creditNote ? -1 : 1;
+
+    if (registered && !group.creditNote) {
+      findOrAdd(json.b2b, g => g.ctin === first.buyerGstin, () => ({ ctin: first.buyerGstin, inv: [] }))
+        .inv.push({ inum: number, idt, val, pos, rchrg: "N", inv_typ: "R", itms });
+    } else if (registered) {
+      findOrAdd(json.cdnr, g => g.ctin === first.buyerGstin, () => ({ ctin: first.buyerGstin, nt: [] }))
+        .nt.push({ ntty: "C", nt_num: number, nt_dt: idt, val, pos, rchrg: "N", inv_typ: "R", itms });
+    } else if (large && !group.creditNote) {
+      findOrAdd(json.b2cl, g => g.pos === pos, () => ({ pos, inv: [] }))
+        .inv.push({ inum: number, idt, val, itms });
+    } else if (large) {
+      json.cdnur.push({ typ: "B2CL", ntty: "C", nt_num: number, nt_dt: idt, val, pos, itms });
+    } else {
+      // Small B2C supplies are reported net: returns reduce the state and rate bucket
+      itms.forEach(({ itm_det }) => {
+        const key = `${interState ? "INTER" : "INTRA"}|${pos}|${itm_det.rt}`;
+        const row = b2cs.get(key) || {
+          sply_ty: interState ? "INTER" : "INTRA", pos, typ: "OE", rt: itm_det.rt, txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0
+        };
+        row.txval = round2(row.txval + sign * itm_det.txval);
+        row.iamt = round2(row.iamt + sign * itm_det.iamt);
+        row.camt = round2(row.camt + sign * (itm_det.camt || 0));
+        row.samt = round2(row.samt + sign * (itm_det.samt || 0));
+        b2cs.set(key, row);
+      });
+    }
+
+    const hsnTable = registered ? hsnRows.hsn_b2b : hsnRows.hsn_b2c;
+    group.lines.forEach(tx => {
+      const stock = resolveStockItem(tx, settings);
+      const hsn = (stock.hsn || "").replace(/\s/g, "");
+      const uqc = uqcForUnit(stock.unit);
+      const key = `${hsn}|${tx.gstRate}|${uqc}`;
+      const row = hsnTable.get(key) || {
+        num: hsnTable.size + 1, hsn_sc: hsn, desc: stock.name.slice(0, 30), uqc, qty: 0, rt: tx.gstRate,
+        txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0
+      };
+      row.qty = round2(row.qty + sign * tx.quantity);
+      row.txval = round2(row.txval + sign * tx.taxableValue);
+      row.iamt = round2(row.iamt + sign * tx.igst);
+      row.camt = round2(row.camt + sign * tx.cgst);
+      row.samt = round2(row.samt + sign * tx.sgst);
+      hsnTable.set(key, row);
+    });
+  });
+
+  // Buckets where returns cancelled the sales out have nothing to report
+  json.b2cs = Array.from(b2cs.values()).filter(r => r.txval !== 0 || r.iamt !== 0 || r.camt !== 0 || r.samt !== 0);
+  json.hsn = { hsn_b2b: Array.from(hsnRows.hsn_b2b.values()), hsn_b2c: Array.from(hsnRows.hsn_b2c.values()) };
+  const missingHsn = [...json.hsn.hsn_b2b, ...json.hsn.hsn_b2c].filter(r => !r.hsn_sc).length;
+  if (missingHsn > 0) {
+    skipped.push(`${missingHsn} HSN summary line(s) have no HSN code; map the HSN column or fill them in the offline tool.`);
+  }
+  return { json, skipped };
+};
+
+export interface Gstr1SectionTotal {
+  section: string;
+  count: number;
+  txval: number;
+  tax: number;
+}
+
+const itemTotals = (itms: Gstr1Item[]) => ({
+  txval: itms.reduce((t, i) => t + i.itm_det.txval, 0),
+  tax: itms.reduce((t, i) => t + i.itm_det.iamt + (i.itm_det.camt || 0) + (i.itm_det.samt || 0), 0)
+});
+
+const total = (section: string, entries: { txval: number; tax: number }[]): Gstr1SectionTotal => ({
+  section,
+  count: entries.length,
+  txval: round2(entries.reduce((t, e) => t + e.txval, 0)),
+  tax: round2(entries.reduce((t, e) => t + e.tax, 0))
+});
+
+// Per-section totals read back from the built return, so the summary shows
+// exactly what the file contains
+export const summarizeGstr1 = (json: Gstr1Return): Gstr1SectionTotal[] => {
+  const rowTax = (r: Gstr1B2csRow | Gstr1HsnRow) => r.iamt + r.camt + r.samt;
+  return [
+    total("B2B", json.b2b.flatMap(g => g.inv.map(inv => itemTotals(inv.itms)))),
+    total("B2CL", json.b2cl.flatMap(g => g.inv.map(inv => itemTotals(inv.itms)))),
+    total("B2CS", json.b2cs.map(r => ({ txval: r.txval, tax: rowTax(r) }))),
+    total("CDNR", json.cdnr.flatMap(g => g.nt.map(nt => itemTotals(nt.itms)))),
+    total("CDNUR", json.cdnur.map(nt => itemTotals(nt.itms))),
+    total("HSN (B2B)", json.hsn.hsn_b2b.map(r => ({ txval: r.txval, tax: rowTax(r) }))),
+    total("HSN (B2C)", json.hsn.hsn_b2c.map(r => ({ txval: r.txval, tax: rowTax(r) })))
+  ];
+};
@@ -0,0 +1,66 @@
+
+import { ColumnMapping, HeaderIdentifier, HeaderIdentifierSettings } from "../types";
+import { createGeminiIdentifier, DEFAULT_GEMINI_MODEL } from "./geminiService";
+import { createOpenAICompatibleIdentifier } from "./openAiCompatibleService";
+import { mapHeadersHeuristically } from "./heuristicMapper";
+
+const SETTINGS_KEY = "tallybridge.headerIdentifier";
+const API_KEY_KEY = "tallybridge.openAiApiKey";
+
+export const DEFAULT_IDENTIFIER_SETTINGS: HeaderIdentifierSettings = {
+  provider: "gemini",
+  geminiModel: DEFAULT_GEMINI_MODEL,
+  openAiBaseUrl: "http://localhost:11434/v1",
+  openAiModel: "llama3.1",
+  openAiApiKey: "",
+  sendSampleValues: false
+};
+
+// Deterministic, network-free identifier. Returns the fixed mapping when one is
+// given, otherwise the offline heuristic's best guess, so the mapping flow can
+// be exercised without any model.
+export const createMockIdentifier = (fixed?: Partial<ColumnMapping>): HeaderIdentifier => ({
+  kind: "mock",
+  label: "Mock (offline)",
+  identify: async (headers, samples) => {
+    const guess = mapHeadersHeuristically(headers, samples).mapping;
+    return fixed ? { ...guess, ...fixed } : guess;
+  }
+});
+
+export const createHeaderIdentifier = (settings: HeaderIdentifierSettings): HeaderIdentifier => {
+  switch (settings.provider) {
+    case "openai-compatible":
+      return createOpenAICompatibleIdentifier({
+        baseUrl: settings.openAiBaseUrl,
+        model: settings.openAiModel,
+        apiKey: settings.openAiApiKey
+      });
+    case "mock":
+      return createMockIdentifier();
+    case "gemini":
+    default:
+      return createGeminiIdentifier(settings.geminiModel || DEFAULT_GEMINI_MODEL);
+  }
+};
+
+export const loadIdentifierSettings = (): HeaderIdentifierSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    // Earlier versions stored the API key here, and a sendSamples flag that was
+    // on by default; both are dropped rather than read back
+    const { openAiApiKey, sendSamples, ...saved } = stored ? JSON.parse(stored) : {};
+    if (openAiApiKey !== undefined || sendSamples !== undefined) localStorage.setItem(SETTINGS_KEY, JSON.stringify(saved));
+    return { ...DEFAULT_IDENTIFIER_SETTINGS, ...saved, openAiApiKey: sessionStorage.getItem(API_KEY_KEY) || "" };
+  } catch {
+    return DEFAULT_IDENTIFIER_SETTINGS;
+  }
+};
+
+// The API key goes to sessionStorage, so it is gone once the tab is closed
+export const saveIdentifierSettings = (settings: HeaderIdentifierSettings) => {
+  const { openAiApiKey, ...rest } = settings;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(rest));
+  if (openAiApiKey) sessionStorage.setItem(API_KEY_KEY, openAiApiKey);
+  else sessionStorage.removeItem(API_KEY_KEY);
+};
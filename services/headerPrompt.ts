@@ -0,0 +1,49 @@
+
+import { ColumnMapping } from "../types";
+import { MAPPING_KEYS } from "./columnMapping";
+
+// Shared by every LLM-backed HeaderIdentifier so providers are compared on the same question
+export const buildHeaderPrompt = (headers: string[], samples: Record<string, string[]> = {}) => {
+  const sampleLines = headers
+    .filter(h => samples[h] && samples[h].length > 0)
+    .map(h => `    - ${h}: ${samples[h].slice(0, 3).join(" | ")}`);
+
+  return `
+    I have a CSV report from an eCommerce marketplace (like Amazon MTR or Flipkart Tax report). 
+    Here are the headers found in the file: ${headers.join(", ")}.
+    ${sampleLines.length > 0 ? `\n    Sample values per header:\n${sampleLines.join("\n")}\n` : ""}
+    Identify which header corresponds to the following fields:
+    - date (The invoice or transaction date)
+    - invoiceNo (The unique invoice or order ID)
+    - customerName (Recipient name)
+    - state (Place of supply or customer state)
+    - taxableValue (Net value before tax)
+    - igst (Integrated GST amount)
+    - cgst (Central GST amount)
+    - sgst (State GST amount)
+    - totalAmount (Gross amount including tax)
+    - gstRate (The tax percentage rate)
+    - productName (The SKU, item description, or product name)
+    - quantity (Number of items sold)
+    - transactionType (Transaction or event type, e.g. Shipment, Refund, Return, Cancel)
+    - originalInvoiceNo (For returns, the original invoice number the credit note refers to)
+    - hsn (HSN or SAC code of the item)
+    - buyerGstin (The buyer's 15-character GSTIN, present only for B2B invoices)
+    - fulfilmentChannel (Who fulfilled the order, e.g. AFN/MFN or FBA/merchant)
+    - sku (Seller SKU, ASIN or FSN identifying the item)
+
+    Return ONLY a JSON object mapping these fields to the headers provided. 
+    If a field is not found, leave the value as an empty string.
+  `;
+};
+
+// Models occasionally invent headers or drop keys; keep only exact header names
+export const coerceMapping = (raw: unknown, headers: string[]): ColumnMapping => {
+  const source = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const mapping = {} as ColumnMapping;
+  MAPPING_KEYS.forEach(key => {
+    const value = source[key];
+    mapping[key] = typeof value === "string" && headers.includes(value) ? value : "";
+  });
+  return mapping;
+};
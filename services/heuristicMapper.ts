@@ -0,0 +1,201 @@
+
+import { ColumnMapping, MappingConfidence } from "../types";
+import { createEmptyMapping } from "./columnMapping";
+
+type FieldKind = "date" | "id" | "text" | "amount" | "rate" | "count";
+
+const FIELD_HINTS: Record<keyof ColumnMapping, { kind: FieldKind; synonyms: string[] }> = {
+  date: {
+    kind: "date",
+    synonyms: ["invoice date", "date", "order date", "transaction date", "bill date", "document date", "buyer invoice date", "created at", "shipment date"]
+  },
+  invoiceNo: {
+    kind: "id",
+    synonyms: ["invoice number", "invoice no", "invoice id", "invoice", "bill no", "buyer invoice id", "voucher no", "order id", "order number", "sub order num"]
+  },
+  customerName: {
+    kind: "text",
+    synonyms: ["customer name", "buyer name", "billing name", "party name", "recipient name", "ship to name", "customer", "buyer"]
+  },
+  state: {
+    kind: "text",
+    synonyms: ["state", "place of supply", "pos", "ship to state", "customer state", "delivery state", "customer s delivery state", "billing state", "billing province name", "end customer state"]
+  },
+  taxableValue: {
+    kind: "amount",
+    synonyms: ["taxable value", "taxable amount", "tax exclusive gross", "principal amount", "net amount", "assessable value", "subtotal", "total taxable sale value"]
+  },
+  igst: {
+    kind: "amount",
+    synonyms: ["igst", "igst amount", "igst tax", "integrated tax", "integrated gst"]
+  },
+  cgst: {
+    kind: "amount",
+    synonyms: ["cgst", "cgst amount", "cgst tax", "central tax", "central gst"]
+  },
+  sgst: {
+    kind: "amount",
+    synonyms: ["sgst", "sgst amount", "sgst tax", "state tax", "state gst", "utgst", "sgst utgst amount"]
+  },
+  totalAmount: {
+    kind: "amount",
+    synonyms: ["invoice amount", "total amount", "invoice value", "gross amount", "total", "grand total", "final invoice amount", "total invoice value", "amount"]
+  },
+  gstRate: {
+    kind: "rate",
+    synonyms: ["gst rate", "tax rate", "rate", "gst", "gst percentage", "tax percentage", "igst rate"]
+  },
+  productName: {
+    kind: "text",
+    synonyms: ["product name", "item description", "product title", "product description", "item name", "description", "product", "item", "sku", "lineitem name"]
+  },
+  quantity: {
+    kind: "count",
+    synonyms: ["quantity", "qty", "item quantity", "units", "no of items", "lineitem quantity"]
+  },
+  transactionType: {
+    kind: "text",
+    synonyms: ["transaction type", "event type", "type", "document type", "order status", "financial status"]
+  },
+  originalInvoiceNo: {
+    kind: "id",
+    synonyms: ["original invoice number", "original invoice no", "original invoice id", "reference invoice", "against invoice"]
+  },
+  hsn: {
+    kind: "id",
+    synonyms: ["hsn", "hsn code", "hsn sac", "sac", "hsn sac code", "hsn number"]
+  },
+  buyerGstin: {
+    kind: "id",
+    synonyms: ["buyer gstin", "customer gstin", "gstin", "customer bill to gstid", "bill to gstin", "recipient gstin", "gst number", "gstin uin of recipient"]
+  },
+  fulfilmentChannel: {
+    kind: "text",
+    synonyms: ["fulfillment channel", "fulfilment channel", "fulfillment type", "fulfilment type", "fulfilled by", "fulfillment"]
+  },
+  sku: {
+    kind: "id",
+    synonyms: ["sku", "seller sku", "sku code", "sku id", "item sku", "lineitem sku", "asin", "fsn", "product id"]
+  }
+};
+
+// Below this a field is left for the user rather than guessed
+const MIN_CONFIDENCE = 0.45;
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const bigrams = (value: string) => {
+  const grams: string[] = [];
+  const compact = value.replace(/ /g, "");
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+};
+
+// Sørensen–Dice coefficient over character bigrams
+const diceSimilarity = (a: string, b: string) => {
+  const ga = bigrams(a);
+  const gb = bigrams(b);
+  if (ga.length === 0 || gb.length === 0) return a === b ? 1 : 0;
+  const counts = new Map<string, number>();
+  ga.forEach(g => counts.set(g, (counts.get(g) || 0) + 1));
+  let overlap = 0;
+  gb.forEach(g => {
+    const n = counts.get(g) || 0;
+    if (n > 0) {
+      overlap++;
+      counts.set(g, n - 1);
+    }
+  });
+  return (2 * overlap) / (ga.length + gb.length);
+};
+
+const nameScore = (header: string, synonyms: string[]) => {
+  const h = normalize(header);
+  let best = 0;
+  synonyms.forEach(syn => {
+    let score: number;
+    if (h === syn) {
+      score = 1;
+    } else if (` ${h} `.includes(` ${syn} `)) {
+      // Whole-phrase containment, weighted by how much of the header it explains
+      score = 0.7 + 0.25 * (syn.length / h.length);
+    } else {
+      score = diceSimilarity(h, syn) * 0.85;
+    }
+    best = Math.max(best, score);
+  });
+  return best;
+};
+
+const toNumber = (value: string) => {
+  const cleaned = value.replace(/[₹,\s%]/g, "");
+  if (cleaned === "" || !/^-?\d*\.?\d+$/.test(cleaned)) return null;
+  return Number(cleaned);
+};
+
+const DATE_PATTERN = /^\d{1,4}[-/.](\d{1,2}|[a-z]{3})[-/.]\d{1,4}/i;
+
+// Fraction of non-empty sample values that look like the field's kind
+const valueScore = (kind: FieldKind, samples: string[]) => {
+  const values = samples.map(v => v.trim()).filter(v => v !== "");
+  if (values.length === 0) return 0.5;
+
+  const matches = values.filter(v => {
+    const num = toNumber(v);
+    switch (kind) {
+      case "date":
+        return DATE_PATTERN.test(v) || (num !== null && num > 20000 && num < 80000);
+      case "id":
+        return /[a-z0-9]/i.test(v) && !/\s{2,}/.test(v);
+      case "text":
+        return num === null;
+      case "amount":
+        return num !== null;
+      case "rate":
+        return num !== null && num >= 0 && num <= 28;
+      case "count":
+        return num !== null && Number.isInteger(num);
+    }
+  });
+  return matches.length / values.length;
+};
+
+export interface HeuristicMappingResult {
+  mapping: ColumnMapping;
+  confidence: MappingConfidence;
+}
+
+// Offline header matcher used when no AI provider is reachable. Every
+// (field, header) pair is scored on name similarity and sample values, then
+// assigned greedily from the strongest pair down so each header is used once.
+export const mapHeadersHeuristically = (
+  headers: string[],
+  samples: Record<string, string[]> = {}
+): HeuristicMappingResult => {
+  const mapping = createEmptyMapping();
+  const confidence: MappingConfidence = {};
+
+  const pairs: { field: keyof ColumnMapping; header: string; score: number }[] = [];
+  (Object.keys(FIELD_HINTS) as (keyof ColumnMapping)[]).forEach(field => {
+    const { kind, synonyms } = FIELD_HINTS[field];
+    headers.forEach(header => {
+      if (!header) return;
+      const byName = nameScore(header, synonyms);
+      if (byName === 0) return;
+      const byValue = valueScore(kind, samples[header] || []);
+      pairs.push({ field, header, score: byName * (0.6 + 0.4 * byValue) });
+    });
+  });
+
+  const usedHeaders = new Set<string>();
+  pairs
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ field, header, score }) => {
+      if (score < MIN_CONFIDENCE || mapping[field] || usedHeaders.has(header)) return;
+      mapping[field] = header;
+      confidence[field] = Math.round(score * 100) / 100;
+      usedHeaders.add(header);
+    });
+
+  return { mapping, confidence };
+};
@@ -0,0 +1,65 @@
+
+import { LedgerRule, LedgerRuleCondition, LedgerRuleField, LedgerRuleOperator, MarketplaceTransaction } from "../types";
+
+export const LEDGER_RULE_FIELDS: { field: LedgerRuleField; label: string }[] = [
+  { field: "marketplace", label: "Marketplace" },
+  { field: "fulfilmentChannel", label: "Fulfilment channel" },
+  { field: "state", label: "State" },
+  { field: "gstRate", label: "GST rate" },
+  { field: "productName", label: "Product" },
+  { field: "sku", label: "SKU" },
+  { field: "hsn", label: "HSN" },
+  { field: "transactionType", label: "Transaction type" },
+  { field: "customerName", label: "Customer" },
+  { field: "buyerGstin", label: "Buyer GSTIN" }
+];
+
+export const LEDGER_RULE_OPERATORS: { operator: LedgerRuleOperator; label: string }[] = [
+  { operator: "equals", label: "is" },
+  { operator: "notEquals", label: "is not" },
+  { operator: "contains", label: "contains" },
+  { operator: "startsWith", label: "starts with" },
+  { operator: "isEmpty", label: "is empty" }
+];
+
+export const createLedgerRule = (name: string): LedgerRule => ({
+  id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  conditions: [{ field: "marketplace", operator: "equals", value: "" }],
+  salesLedger: "",
+  igstLedger: "",
+  cgstLedger: "",
+  sgstLedger: "",
+  partyLedger: ""
+});
+
+// Rates compare as numbers so "18" matches 18 and "5" matches 5.0
+const fieldValue = (tx: MarketplaceTransaction, field: LedgerRuleField) =>
+  field === "gstRate" ? String(tx.gstRate || 18) : String(tx[field] ?? "").trim().toLowerCase();
+
+const conditionHolds = (tx: MarketplaceTransaction, { field, operator, value }: LedgerRuleCondition) => {
+  const actual = fieldValue(tx, field);
+  const expected = field === "gstRate" ? String(parseFloat(value) || 0) : value.trim().toLowerCase();
+  switch (operator) {
+    case "isEmpty": return actual === "";
+    case "notEquals": return actual !== expected;
+    case "contains": return actual.includes(expected);
+    case "startsWith": return actual.startsWith(expected);
+    case "equals":
+    default:
+      return actual === expected;
+  }
+};
+
+export const ruleMatches = (rule: LedgerRule, tx: MarketplaceTransaction) =>
+  rule.conditions.every(condition => conditionHolds(tx, condition));
+
+export const findLedgerRule = (tx: MarketplaceTransaction, rules: LedgerRule[] = []) =>
+  rules.find(rule => ruleMatches(rule, tx)) || null;
+
+// Blank templates fall back to the default ledger name
+export const expandLedgerTemplate = (template: string, rate: number, fallback: string) => {
+  const trimmed = (template || "").trim();
+  if (!trimmed) return fallback;
+  return trimmed.replace(/\{rate\}/gi, String(rate)).replace(/\{half\}/gi, String(rate / 2));
+};
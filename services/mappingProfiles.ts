@@ -0,0 +1,95 @@
+
+import { ColumnMapping, MappingProfile } from "../types";
+import { MAPPING_KEYS } from "./columnMapping";
+
+const PROFILES_KEY = "tallybridge.mappingProfiles";
+const EXPORT_FORMAT = "tallybridge.mappingProfiles";
+const EXPORT_VERSION = 1;
+
+// Column order and spelling quirks (case, spacing) don't make a different
+// report, so headers are compared as a normalized, sorted set
+export const headerFingerprint = (headers: string[]) =>
+  Array.from(new Set(headers.map(h => h.trim().toLowerCase().replace(/\s+/g, " ")).filter(Boolean)))
+    .sort()
+    .join("|");
+
+export const createMappingProfile = (
+  name: string,
+  headers: string[],
+  mapping: ColumnMapping,
+  ledgerOverrides: Record<string, string>
+): MappingProfile => ({
+  id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  fingerprint: headerFingerprint(headers),
+  mapping,
+  ledgerOverrides,
+  updatedAt: new Date().toISOString()
+});
+
+export const findProfileForHeaders = (profiles: MappingProfile[], headers: string[]) => {
+  const fingerprint = headerFingerprint(headers);
+  const matches = profiles.filter(p => p.fingerprint === fingerprint);
+  // The most recently saved wins when several profiles share a layout
+  return matches.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] || null;
+};
+
+// Saving under an existing name for the same layout updates that profile
+export const upsertProfile = (profiles: MappingProfile[], profile: MappingProfile): MappingProfile[] => {
+  const existing = profiles.find(p => p.id === profile.id || (p.name === profile.name && p.fingerprint === profile.fingerprint));
+  if (!existing) return [...profiles, profile];
+  return profiles.map(p => (p === existing ? { ...profile, id: existing.id } : p));
+};
+
+const isProfile = (value: unknown): value is MappingProfile => {
+  const p = value as MappingProfile;
+  return !!p && typeof p.name === "string" && typeof p.fingerprint === "string" &&
+    !!p.mapping && typeof p.mapping === "object" &&
+    !!p.ledgerOverrides && typeof p.ledgerOverrides === "object";
+};
+
+// Older or hand-edited files may lack newer mapping keys
+const withMappingKeys = (profile: MappingProfile): MappingProfile => {
+  const mapping = { ...profile.mapping };
+  MAPPING_KEYS.forEach(key => {
+    if (typeof mapping[key] !== "string") mapping[key] = "";
+  });
+  return { ...profile, mapping, updatedAt: profile.updatedAt || new Date(0).toISOString() };
+};
+
+export const loadMappingProfiles = (): MappingProfile[] => {
+  try {
+    const stored = localStorage.getItem(PROFILES_KEY);
+    const profiles: unknown[] = stored ? JSON.parse(stored) : [];
+    return profiles.filter(isProfile).map(withMappingKeys);
+  } catch {
+    return [];
+  }
+};
+
+export const saveMappingProfiles = (profiles: MappingProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const exportProfilesJson = (profiles: MappingProfile[]) =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, profiles }, null, 2);
+
+// Accepts the export file or a bare array of profiles. Throws with a message
+// for the user when the file is not a profile export.
+export const parseProfilesJson = (text: string): MappingProfile[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const list = Array.isArray(data) ? data : (data as { profiles?: unknown })?.profiles;
+  if (!Array.isArray(list)) {
+    throw new Error("No mapping profiles found in the file.");
+  }
+  const profiles = list.filter(isProfile);
+  if (profiles.length === 0) {
+    throw new Error("No mapping profiles found in the file.");
+  }
+  return profiles.map(withMappingKeys);
+};
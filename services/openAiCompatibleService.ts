@@ -0,0 +1,53 @@
+
+import { ColumnMapping, HeaderIdentifier } from "../types";
+import { buildHeaderPrompt, coerceMapping } from "./headerPrompt";
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+export const identifyHeadersOpenAICompatible = async (
+  config: OpenAICompatibleConfig,
+  headers: string[],
+  samples: Record<string, string[]> = {}
+): Promise<ColumnMapping> => {
+  if (!config.baseUrl || !config.model) {
+    throw new Error("OpenAI-compatible endpoint URL and model are required.");
+  }
+
+  const url = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model: config.model,
+      temperature: 0,
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: "You map spreadsheet headers to accounting fields and reply with JSON only." },
+        { role: "user", content: buildHeaderPrompt(headers, samples) }
+      ]
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Header mapping request failed with HTTP ${response.status}.`);
+  }
+
+  const body = await response.json();
+  const content: string = body?.choices?.[0]?.message?.content || "{}";
+  // Some local models wrap the JSON in a markdown fence despite response_format
+  const json = content.replace(/^\s*```(?:json)?/i, "").replace(/```\s*$/, "");
+  return coerceMapping(JSON.parse(json), headers);
+};
+
+export const createOpenAICompatibleIdentifier = (config: OpenAICompatibleConfig): HeaderIdentifier => ({
+  kind: "openai-compatible",
+  label: `${config.model} @ ${config.baseUrl}`,
+  identify: (headers, samples) => identifyHeadersOpenAICompatible(config, headers, samples)
+});
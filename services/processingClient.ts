@@ -0,0 +1,67 @@
+
+import { ColumnMapping, MarketplaceTransaction, SignConvention } from "../types";
+import { FileDateFormat } from "./conversionPipeline";
+import { ProcessingMessage, ProcessingProgress, ProcessingRequest, XmlExportKind } from "./processingWorker";
+import { ReportFile, ReportReadResult } from "./reportFiles";
+import { TallyXmlOptions } from "./tallyXmlGenerator";
+
+export interface ProcessingJob<T> {
+  // Resolves to null when the job is cancelled
+  result: Promise<T | null>;
+  cancel: () => void;
+}
+
+const runInWorker = <T>(request: ProcessingRequest, onProgress: (progress: ProcessingProgress) => void): ProcessingJob<T> => {
+  const worker = new Worker(new URL("./processingWorker.ts", import.meta.url), { type: "module" });
+  let cancel = () => {};
+
+  const result = new Promise<T | null>((resolve, reject) => {
+    const finish = (settle: () => void) => {
+      worker.terminate();
+      settle();
+    };
+    cancel = () => finish(() => resolve(null));
+    worker.onmessage = (event: MessageEvent<ProcessingMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") onProgress(message.progress);
+      else if (message.type === "done") finish(() => resolve(message.result as T));
+      else finish(() => reject(new Error(message.message)));
+    };
+    worker.onerror = event => finish(() => reject(new Error(event.message || "The processing worker failed.")));
+  });
+
+  worker.postMessage(request);
+  return { result, cancel: () => cancel() };
+};
+
+export const readReportFilesInWorker = (files: File[], onProgress: (progress: ProcessingProgress) => void) =>
+  runInWorker<ReportReadResult>({ task: "read", files }, onProgress);
+
+export const buildTransactionsInWorker = (
+  files: ReportFile[],
+  mapping: ColumnMapping,
+  dateFormats: FileDateFormat[],
+  signConvention: SignConvention | undefined,
+  homeState: string,
+  onProgress: (progress: ProcessingProgress) => void
+) =>
+  runInWorker<MarketplaceTransaction[]>(
+    {
+      task: "transactions",
+      // The other sheets of a workbook aren't needed to read its rows, so don't copy them over
+      files: files.map(({ workbook, ...file }) => file),
+      mapping,
+      dateFormats,
+      signConvention,
+      homeState
+    },
+    onProgress
+  );
+
+export const generateXmlInWorker = (
+  kind: XmlExportKind,
+  transactions: MarketplaceTransaction[],
+  ledgerOverrides: Record<string, string>,
+  options: TallyXmlOptions,
+  onProgress: (progress: ProcessingProgress) => void
+) => runInWorker<Blob>({ task: "xml", kind, transactions, ledgerOverrides, options }, onProgress);
@@ -0,0 +1,77 @@
+
+import { ColumnMapping, MarketplaceTransaction, SignConvention } from "../types";
+import { buildTransactions, FileDateFormat } from "./conversionPipeline";
+import { readReportFiles, ReportFile, ReportReadResult } from "./reportFiles";
+import { generateCombinedTallyXmlParts, generateTallyMastersXmlParts } from "./tallyMasterGenerator";
+import { generateTallyXmlParts, TallyXmlOptions } from "./tallyXmlGenerator";
+
+// Runs the heavy steps off the main thread: parsing uploads, reading rows into
+// transactions and writing the XML. Each job gets its own worker, and
+// cancelling a job terminates it, so none of the steps needs to check for it.
+
+export type XmlExportKind = "vouchers" | "masters" | "combined";
+
+export type ProcessingRequest =
+  | { task: "read"; files: File[] }
+  | {
+      task: "transactions";
+      files: ReportFile[];
+      mapping: ColumnMapping;
+      dateFormats: FileDateFormat[];
+      signConvention?: SignConvention;
+      // Seller's state code, to split a single tax column
+      homeState: string;
+    }
+  | {
+      task: "xml";
+      kind: XmlExportKind;
+      transactions: MarketplaceTransaction[];
+      ledgerOverrides: Record<string, string>;
+      options: TallyXmlOptions;
+    };
+
+export interface ProcessingProgress {
+  stage: string;
+  // 0 to 1 within the stage
+  fraction: number;
+}
+
+export type ProcessingMessage =
+  | { type: "progress"; progress: ProcessingProgress }
+  | { type: "done"; result: ReportReadResult | MarketplaceTransaction[] | Blob }
+  | { type: "error"; message: string };
+
+const post = (message: ProcessingMessage) => self.postMessage(message);
+
+const report = (stage: string, done: number, total: number) =>
+  post({ type: "progress", progress: { stage, fraction: total > 0 ? done / total : 1 } });
+
+const run = async (request: ProcessingRequest) => {
+  switch (request.task) {
+    case "read":
+      return readReportFiles(request.files, (name, fraction) => report(`Reading ${name}`, fraction, 1));
+    case "transactions":
+      return buildTransactions(request.files, request.mapping, request.dateFormats, request.signConvention, request.homeState, (done, total) =>
+        report(`Reading rows (${done.toLocaleString()} of ${total.toLocaleString()})`, done, total)
+      );
+    case "xml": {
+      const { kind, transactions, ledgerOverrides, options } = request;
+      const onProgress = (done: number, total: number) => report(`Writing vouchers (${done.toLocaleString()} of ${total.toLocaleString()})`, done, total);
+      // The parts go into the Blob as they are, so the file never exists as one string
+      const parts = kind === "masters"
+        ? generateTallyMastersXmlParts(transactions, ledgerOverrides, options)
+        : kind === "combined"
+          ? generateCombinedTallyXmlParts(transactions, ledgerOverrides, options, onProgress)
+          : generateTallyXmlParts(transactions, ledgerOverrides, options, onProgress);
+      return new Blob(parts, { type: "text/xml" });
+    }
+  }
+};
+
+self.onmessage = async (event: MessageEvent<ProcessingRequest>) => {
+  try {
+    post({ type: "done", result: await run(event.data) });
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
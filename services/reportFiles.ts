@@ -0,0 +1,86 @@
+
+import { CsvParseError, parseCSVFile } from "./csvParser";
+import { detectHeaderRow, isSpreadsheetFile, pickDefaultSheet, readWorkbook, WorkbookSheet } from "./spreadsheetParser";
+
+export interface ReportFile {
+  name: string;
+  headers: string[];
+  rawData: string[][];
+  parseErrors: CsvParseError[];
+  // Explicit date format for this file; empty means detect from the values
+  dateFormat: string;
+  workbook?: {
+    sheets: WorkbookSheet[];
+    sheetName: string;
+    headerRow: number;
+  };
+}
+
+export const buildWorkbookReportFile = (name: string, sheets: WorkbookSheet[], sheetName: string, headerRow?: number): ReportFile => {
+  const sheet = sheets.find(s => s.name === sheetName) || sheets[0];
+  const headerIdx = headerRow ?? detectHeaderRow(sheet.rows);
+  return {
+    name,
+    headers: sheet.rows[headerIdx] || [],
+    rawData: sheet.rows.slice(headerIdx + 1),
+    parseErrors: [],
+    dateFormat: "",
+    workbook: { sheets, sheetName: sheet.name, headerRow: headerIdx }
+  };
+};
+
+// A file that could not be turned into a ReportFile. index is its position in
+// the list given to readReportFiles, so callers with same-named files can tell
+// which one it was.
+export interface ReportReadError {
+  index: number;
+  name: string;
+  message: string;
+}
+
+export interface ReportReadResult {
+  files: ReportFile[];
+  errors: ReportReadError[];
+}
+
+// Reads CSVs and workbooks alike; unreadable workbooks and empty files come
+// back in errors instead. Takes browser uploads or Node `File`s, so the CLI
+// shares it. onProgress gets the file being read and how far through it the
+// parser is.
+export const readReportFiles = async (
+  files: ArrayLike<File>,
+  onProgress?: (name: string, fraction: number) => void
+): Promise<ReportReadResult> => {
+  const result: ReportReadResult = { files: [], errors: [] };
+  const fail = (index: number, message: string) => result.errors.push({ index, name: files[index].name, message });
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    onProgress?.(file.name, 0);
+    if (isSpreadsheetFile(file.name)) {
+      try {
+        const sheets = await readWorkbook(file);
+        const sheet = pickDefaultSheet(sheets);
+        if (sheet) result.files.push(buildWorkbookReportFile(file.name, sheets, sheet.name));
+        else fail(i, "The workbook has no sheets.");
+      } catch (err) {
+        fail(i, `Not a readable workbook (${err instanceof Error ? err.message : String(err)}).`);
+      }
+      continue;
+    }
+    const { rows, errors } = await parseCSVFile(file, {
+      onProgress: onProgress && (fraction => onProgress(file.name, fraction))
+    });
+    if (rows.length > 0) {
+      result.files.push({
+        name: file.name,
+        headers: rows[0],
+        rawData: rows.slice(1),
+        parseErrors: errors,
+        dateFormat: ""
+      });
+    } else {
+      fail(i, "The file has no rows.");
+    }
+  }
+  return result;
+};
@@ -0,0 +1,183 @@
+
+import { ColumnMapping, ReportProfile } from "../types";
+import { createEmptyMapping } from "./columnMapping";
+
+export const REPORT_PROFILES: ReportProfile[] = [
+  {
+    id: "amazon-mtr-b2b",
+    name: "Amazon MTR (B2B)",
+    marketplace: "Amazon",
+    fingerprint: [
+      "Invoice Number", "Invoice Date", "Transaction Type", "Ship To State",
+      "Tax Exclusive Gross", "Igst Tax", "Cgst Tax", "Sgst Tax", "Invoice Amount",
+      "Customer Bill To Gstid", "Buyer Name"
+    ],
+    mapping: {
+      ...createEmptyMapping(),
+      date: "Invoice Date",
+      invoiceNo: "Invoice Number",
+      customerName: "Buyer Name",
+      state: "Ship To State",
+      taxableValue: "Tax Exclusive Gross",
+      igst: "Igst Tax",
+      cgst: "Cgst Tax",
+      sgst: "Sgst Tax",
+      totalAmount: "Invoice Amount",
+      productName: "Item Description",
+      quantity: "Quantity",
+      transactionType: "Transaction Type",
+      hsn: "Hsn/sac",
+      buyerGstin: "Customer Bill To Gstid",
+      fulfilmentChannel: "Fulfillment Channel",
+      sku: "Sku"
+    },
+    signConvention: "signed",
+    dateFormat: "dd-MM-yyyy HH:mm:ss",
+    unavailableFields: ["gstRate"]
+  },
+  {
+    id: "amazon-mtr-b2c",
+    name: "Amazon MTR (B2C)",
+    marketplace: "Amazon",
+    fingerprint: [
+      "Invoice Number", "Invoice Date", "Transaction Type", "Ship To State",
+      "Tax Exclusive Gross", "Igst Tax", "Cgst Tax", "Sgst Tax", "Invoice Amount"
+    ],
+    mapping: {
+      ...createEmptyMapping(),
+      date: "Invoice Date",
+      invoiceNo: "Invoice Number",
+      state: "Ship To State",
+      taxableValue: "Tax Exclusive Gross",
+      igst: "Igst Tax",
+      cgst: "Cgst Tax",
+      sgst: "Sgst Tax",
+      totalAmount: "Invoice Amount",
+      productName: "Item Description",
+      quantity: "Quantity",
+      transactionType: "Transaction Type",
+      hsn: "Hsn/sac",
+      fulfilmentChannel: "Fulfillment Channel",
+      sku: "Sku"
+    },
+    signConvention: "signed",
+    dateFormat: "dd-MM-yyyy HH:mm:ss",
+    unavailableFields: ["customerName", "gstRate"]
+  },
+  {
+    id: "flipkart-sales",
+    name: "Flipkart Sales Report",
+    marketplace: "Flipkart",
+    fingerprint: [
+      "Order ID", "Order Item ID", "FSN", "Event Type",
+      "Buyer Invoice ID", "Buyer Invoice Date", "Customer's Delivery State"
+    ],
+    mapping: {
+      ...createEmptyMapping(),
+      date: "Buyer Invoice Date",
+      invoiceNo: "Buyer Invoice ID",
+      state: "Customer's Delivery State",
+      taxableValue: "Taxable Value (Final Invoice Amount -Taxes)",
+      igst: "IGST Amount",
+      cgst: "CGST Amount",
+      sgst: "SGST Amount (Or UTGST as applicable)",
+      totalAmount: "Final Invoice Amount (Price after discount+Shipping Charges)",
+      productName: "Product Title/Description",
+      quantity: "Item Quantity",
+      transactionType: "Event Type",
+      hsn: "HSN Code",
+      sku: "FSN"
+    },
+    signConvention: "signed",
+    dateFormat: "yyyy-MM-dd HH:mm:ss",
+    unavailableFields: ["customerName", "gstRate"]
+  },
+  {
+    id: "meesho-gst",
+    name: "Meesho GST Report",
+    marketplace: "Meesho",
+    fingerprint: [
+      "sub_order_num", "order_date", "gst_rate", "total_taxable_sale_value",
+      "tax_amount", "total_invoice_value", "end_customer_state_new"
+    ],
+    mapping: {
+      ...createEmptyMapping(),
+      date: "order_date",
+      invoiceNo: "sub_order_num",
+      state: "end_customer_state_new",
+      taxableValue: "total_taxable_sale_value",
+      totalAmount: "total_invoice_value",
+      gstRate: "gst_rate",
+      quantity: "quantity",
+      hsn: "hsn_code"
+    },
+    signConvention: "signed",
+    dateFormat: "yyyy-MM-dd",
+    unavailableFields: ["customerName", "productName"],
+    taxColumn: "tax_amount"
+  },
+  {
+    id: "shopify-orders",
+    name: "Shopify Orders Export",
+    marketplace: "Shopify",
+    fingerprint: [
+      "Name", "Financial Status", "Created at", "Subtotal", "Taxes", "Total",
+      "Lineitem name", "Lineitem quantity", "Billing Name"
+    ],
+    mapping: {
+      ...createEmptyMapping(),
+      date: "Created at",
+      invoiceNo: "Name",
+      customerName: "Billing Name",
+      state: "Billing Province Name",
+      taxableValue: "Subtotal",
+      totalAmount: "Total",
+      productName: "Lineitem name",
+      quantity: "Lineitem quantity",
+      transactionType: "Financial Status",
+      sku: "Lineitem sku"
+    },
+    signConvention: "unsigned",
+    dateFormat: "yyyy-MM-dd HH:mm:ss Z",
+    unavailableFields: ["gstRate"],
+    taxColumn: "Taxes",
+    // Financial Status is the order's payment state today, one row per order.
+    // A refunded order was still sold, and its refund isn't in this export;
+    // a voided one was never paid.
+    typeLabels: { refunded: "Sale", partially_refunded: "Sale", voided: "Cancel" }
+  }
+];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, " ");
+
+export interface ProfileMatch {
+  profile: ReportProfile;
+  // Profile mapping rewritten to the exact header spellings found in the file
+  mapping: ColumnMapping;
+  // The profile's taxColumn as spelled in the file; empty when it has none
+  taxColumn: string;
+}
+
+// Returns the most specific profile whose fingerprint headers are all present.
+// Profile columns the file lacks (e.g. an older export without "Billing
+// Province Name") are left unmapped rather than failing the match.
+export const detectReportProfile = (headers: string[]): ProfileMatch | null => {
+  const byNormalized = new Map<string, string>();
+  headers.forEach(h => byNormalized.set(normalizeHeader(h), h));
+
+  const candidates = REPORT_PROFILES
+    .filter(p => p.fingerprint.every(h => byNormalized.has(normalizeHeader(h))))
+    .sort((a, b) => b.fingerprint.length - a.fingerprint.length);
+
+  const profile = candidates[0];
+  if (!profile) return null;
+
+  const mapping = createEmptyMapping();
+  (Object.keys(profile.mapping) as (keyof ColumnMapping)[]).forEach(key => {
+    const header = profile.mapping[key];
+    mapping[key] = header ? byNormalized.get(normalizeHeader(header)) || "" : "";
+  });
+
+  const taxColumn = profile.taxColumn ? byNormalized.get(normalizeHeader(profile.taxColumn)) || "" : "";
+  return { profile, mapping, taxColumn };
+};
@@ -0,0 +1,162 @@
+
+import { SettlementComponent, SettlementEntry, SettlementMapping } from "../types";
+import { parseDate, resolveDateFormat, toIsoDate } from "./dateParser";
+
+export const SETTLEMENT_MAPPING_KEYS: (keyof SettlementMapping)[] = [
+  "date", "settlementId", "orderId", "amountType", "amountDescription", "amount",
+  "netPayout", "commission", "closingFee", "shippingFee", "otherFees", "feeGst", "tcs", "tds"
+];
+
+export const createEmptySettlementMapping = (): SettlementMapping => {
+  const mapping = {} as SettlementMapping;
+  SETTLEMENT_MAPPING_KEYS.forEach(key => {
+    mapping[key] = "";
+  });
+  return mapping;
+};
+
+// Header spellings seen in Amazon's settlement flat file and Flipkart's
+// settlement report, compared after lower-casing and dropping punctuation
+const SETTLEMENT_SYNONYMS: Record<keyof SettlementMapping, string[]> = {
+  date: ["posted date", "posted date time", "deposit date", "payment date", "settlement date", "date"],
+  settlementId: ["settlement id", "settlement ref no", "settlement reference", "neft id", "utr"],
+  orderId: ["order id", "order item id", "sub order num", "order number"],
+  amountType: ["amount type", "transaction type"],
+  amountDescription: ["amount description", "description", "fee type"],
+  amount: ["amount"],
+  netPayout: ["bank settlement value rs", "bank settlement value", "settlement value", "net payout", "final settlement amount"],
+  commission: ["commission rs", "commission", "referral fee", "marketplace fee"],
+  closingFee: ["fixed fee rs", "fixed fee", "closing fee"],
+  shippingFee: ["shipping fee rs", "shipping fee", "collection fee rs", "collection fee", "fulfilment fee", "pick and pack fee"],
+  otherFees: ["other fees", "other charges", "reverse shipping fee rs", "reverse shipping fee"],
+  feeGst: ["taxes rs", "gst on fees", "tax on fees", "taxes"],
+  tcs: ["tcs rs", "tcs", "tcs amount"],
+  tds: ["tds rs", "tds", "tds amount"]
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// Exact matches only: settlement columns are few and their names stable, and
+// a wrong guess here moves money between ledgers.
+export const mapSettlementHeaders = (headers: string[]): SettlementMapping => {
+  const mapping = createEmptySettlementMapping();
+  const used = new Set<string>();
+  SETTLEMENT_MAPPING_KEYS.forEach(key => {
+    for (const synonym of SETTLEMENT_SYNONYMS[key]) {
+      const header = headers.find(h => !used.has(h) && normalize(h) === synonym);
+      if (header) {
+        mapping[key] = header;
+        used.add(header);
+        break;
+      }
+    }
+  });
+  return mapping;
+};
+
+export const isLongLayout = (mapping: SettlementMapping) => !!(mapping.amount && mapping.amountDescription);
+
+const FEE_PATTERN = /fee|commission|closing|pick|pack|weight|fba|storage|shippinghb|collection/i;
+const GST_PATTERN = /\b(gst|igst|cgst|sgst|tax)\b/i;
+
+// Sorts one long-layout amount by its type and description, e.g. "ItemFees /
+// Commission" is a referral fee and "other-transaction / TCS-IGST" is TCS.
+export const classifySettlementAmount = (amountType: string, description: string): SettlementComponent => {
+  const text = `${amountType} ${description}`;
+  if (/\btcs\b/i.test(text)) return "tcs";
+  if (/\btds\b|194-?o/i.test(text)) return "tds";
+  const isFee = FEE_PATTERN.test(text);
+  if (isFee && GST_PATTERN.test(description)) return "feeGst";
+  if (isFee) {
+    if (/commission|referral/i.test(text)) return "referralFee";
+    if (/closing|fixed/i.test(text)) return "closingFee";
+    if (/shipping|pick|pack|weight|fba|delivery|collection|storage/i.test(text)) return "fulfilmentFee";
+    return "otherFee";
+  }
+  if (/principal|itemprice|product ?tax|^\s*tax\s*$|shipping|gift ?wrap|promotion|rebate|order/i.test(text)) return "sale";
+  return "otherFee";
+};
+
+const WIDE_COLUMNS: [keyof SettlementMapping, SettlementComponent][] = [
+  ["commission", "referralFee"],
+  ["closingFee", "closingFee"],
+  ["shippingFee", "fulfilmentFee"],
+  ["otherFees", "otherFee"],
+  ["feeGst", "feeGst"],
+  ["tcs", "tcs"],
+  ["tds", "tds"]
+];
+
+const parseAmount = (value: string) => parseFloat((value || "").replace(/[^0-9.-]+/g, "")) || 0;
+
+// Turns a settlement report into signed entries. Long reports are signed. A
+// wide report that prints any fee, tax or TCS/TDS amount with a minus sign is
+// signed too, and its positive amounts are reversals and refunded fees; one
+// that prints none negative lists its deductions unsigned.
+export const buildSettlementEntries = (
+  headers: string[],
+  rows: string[][],
+  mapping: SettlementMapping,
+  dateFormat?: string
+): SettlementEntry[] => {
+  const column = (key: keyof SettlementMapping) => headers.indexOf(mapping[key]);
+  const get = (row: string[], key: keyof SettlementMapping) => {
+    const idx = column(key);
+    return idx === -1 ? "" : (row[idx] ?? "").trim();
+  };
+
+  const dateIdx = column("date");
+  const format = resolveDateFormat(
+    dateIdx === -1 ? [] : rows.slice(0, 200).map(row => row[dateIdx] ?? ""),
+    dateFormat
+  );
+  const deductionsUnsigned = !WIDE_COLUMNS.some(([key]) => rows.some(row => parseAmount(get(row, key)) < 0));
+  // Amazon only fills settlement-id and deposit-date on the first data row,
+  // so both carry forward
+  let lastSettlementId = "";
+  let lastDate = "";
+
+  const entries: SettlementEntry[] = [];
+  rows.forEach(row => {
+    const parsed = format ? parseDate(get(row, "date"), format) : null;
+    const date = parsed ? toIsoDate(parsed) : lastDate;
+    const settlementId = get(row, "settlementId") || lastSettlementId;
+    lastDate = date;
+    lastSettlementId = settlementId;
+    const orderId = get(row, "orderId");
+    const base = { date, settlementId, orderId };
+
+    if (isLongLayout(mapping)) {
+      const amountText = get(row, "amount");
+      if (!amountText) return;
+      const description = get(row, "amountDescription");
+      entries.push({
+        ...base,
+        component: classifySettlementAmount(get(row, "amountType"), description),
+        description,
+        amount: parseAmount(amountText)
+      });
+      return;
+    }
+
+    WIDE_COLUMNS.forEach(([key, component]) => {
+      const amount = parseAmount(get(row, key));
+      if (amount !== 0) {
+        entries.push({ ...base, component, description: mapping[key], amount: deductionsUnsigned ? -amount : amount });
+      }
+    });
+    const payout = parseAmount(get(row, "netPayout"));
+    if (payout !== 0) {
+      entries.push({ ...base, component: "payout", description: mapping.netPayout, amount: payout });
+    }
+  });
+  return entries;
+};
+
+// Amazon's flat file is the only long layout; Flipkart's report names its
+// payout column "Bank Settlement Value". "" when the report is neither.
+export const detectSettlementMarketplace = (headers: string[], mapping: SettlementMapping) => {
+  if (isLongLayout(mapping)) return "Amazon";
+  if (headers.some(h => normalize(h).startsWith("bank settlement value"))) return "Flipkart";
+  return "";
+};
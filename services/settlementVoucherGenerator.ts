@@ -0,0 +1,224 @@
+
+import { SettlementComponent, SettlementEntry, TallyExportSettings } from "../types";
+import { DEFAULT_EXPORT_SETTINGS, resolveB2cPartyLedger } from "./clientConfig";
+import { resolveLedgerName, sanitize, wrapEnvelope } from "./tallyXmlGenerator";
+
+// Default ledger per settlement component; renamed through the same overrides as sales ledgers
+export const SETTLEMENT_LEDGERS: Record<Exclude<SettlementComponent, "sale" | "payout">, string> = {
+  referralFee: "Marketplace Commission",
+  closingFee: "Marketplace Closing Fee",
+  fulfilmentFee: "Marketplace Shipping & Fulfilment Fee",
+  otherFee: "Marketplace Other Charges",
+  feeGst: "Input IGST on Marketplace Fees",
+  tcs: "TCS Receivable (Sec 52)",
+  tds: "TDS Receivable (Sec 194-O)"
+};
+
+// GST on fees charged within the seller's state; feeGst above is the IGST one
+export const FEE_LOCAL_GST_LEDGERS = {
+  cgst: "Input CGST on Marketplace Fees",
+  sgst: "Input SGST on Marketplace Fees"
+};
+
+const FEE_COMPONENTS: (keyof typeof SETTLEMENT_LEDGERS)[] = ["referralFee", "closingFee", "fulfilmentFee", "otherFee"];
+
+// The marketplaces bill their fees from a registration in the seller's state,
+// so with that state known the GST on them is CGST + SGST, half each
+const feeGstLines = (paise: number, homeState: string, getLedgerName: (name: string) => string): JournalLine[] => {
+  if (!homeState) return [{ ledger: getLedgerName(SETTLEMENT_LEDGERS.feeGst), amount: paise }];
+  const cgst = Math.round(paise / 2);
+  return [
+    { ledger: getLedgerName(FEE_LOCAL_GST_LEDGERS.cgst), amount: cgst },
+    { ledger: getLedgerName(FEE_LOCAL_GST_LEDGERS.sgst), amount: paise - cgst }
+  ];
+};
+
+export interface SettlementSummary {
+  settlementId: string;
+  marketplace: string;
+  // Latest date in the settlement, i.e. when the payout was made
+  date: string;
+  orderCount: number;
+  // Signed totals in paise per component, deductions negative
+  totals: Record<SettlementComponent, number>;
+  // Net amount paid to the bank, in paise
+  payout: number;
+}
+
+const toPaise = (value: number) => Math.round(value * 100);
+const formatPaise = (paise: number) => (paise / 100).toFixed(2);
+
+const emptyTotals = (): Record<SettlementComponent, number> => ({
+  sale: 0, referralFee: 0, closingFee: 0, fulfilmentFee: 0, otherFee: 0, feeGst: 0, tcs: 0, tds: 0, payout: 0
+});
+
+// Rolls entries up per settlement. The payout is the report's own figure when
+// it has one (wide layouts), otherwise the sum of every amount.
+export const summarizeSettlements = (entries: SettlementEntry[], marketplace: string): SettlementSummary[] => {
+  const byId = new Map<string, { entries: SettlementEntry[] }>();
+  entries.forEach(entry => {
+    const key = entry.settlementId || entry.date;
+    if (!byId.has(key)) byId.set(key, { entries: [] });
+    byId.get(key)!.entries.push(entry);
+  });
+
+  return Array.from(byId.entries()).map(([settlementId, { entries: group }]) => {
+    const totals = emptyTotals();
+    group.forEach(e => {
+      totals[e.component] += toPaise(e.amount);
+    });
+    const hasPayout = group.some(e => e.component === "payout");
+    const payout = hasPayout
+      ? totals.payout
+      : Object.entries(totals).reduce((sum, [component, paise]) => (component === "payout" ? sum : sum + paise), 0);
+    return {
+      settlementId,
+      marketplace,
+      date: group.reduce((latest, e) => (e.date > latest ? e.date : latest), ""),
+      orderCount: new Set(group.map(e => e.orderId).filter(Boolean)).size,
+      totals,
+      payout
+    };
+  });
+};
+
+// Settlements left out of the export, with the reason for each
+export const findHeldBackSettlements = (settlements: SettlementSummary[]) =>
+  settlements.flatMap(settlement =>
+    settlement.date
+      ? []
+      : [{ settlement, reason: `Settlement ${settlement.settlementId || "(no ID)"}: no date could be read, so its vouchers are not exported.` }]
+  );
+
+interface JournalLine {
+  ledger: string;
+  // Tally convention: negative is a debit
+  amount: number;
+}
+
+const ledgerEntry = ({ ledger, amount }: JournalLine) => `
+            <ALLLEDGERENTRIES.LIST>
+              <LEDGERNAME>${ledger}</LEDGERNAME>
+              <ISDEEMEDPOSITIVE>${amount < 0 ? "Yes" : "No"}</ISDEEMEDPOSITIVE>
+              <AMOUNT>${formatPaise(amount)}</AMOUNT>
+            </ALLLEDGERENTRIES.LIST>`;
+
+const voucher = (voucherType: string, date: string, reference: string, narration: string, lines: JournalLine[]) => `
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <VOUCHER VCHTYPE="${voucherType}" ACTION="Create" OBJVIEW="Accounting Voucher View">
+            <DATE>${date.replace(/-/g, "")}</DATE>
+            <VOUCHERTYPENAME>${voucherType}</VOUCHERTYPENAME>
+            <REFERENCE>${reference}</REFERENCE>
+            <NARRATION>${narration}</NARRATION>
+            <PERSISTEDVIEW>Accounting Voucher View</PERSISTEDVIEW>${lines.filter(l => l.amount !== 0).map(ledgerEntry).join("")}
+          </VOUCHER>
+        </TALLYMESSAGE>`;
+
+// Per settlement: a journal for fees with their input GST, one each for TCS
+// and TDS, and a receipt for the payout. Deductions debit their ledger and
+// credit the ledger the marketplace's B2C sales were debited to, so the
+// receivable clears as the money lands. homeState is the seller's state code.
+export const buildSettlementMessages = (
+  settlements: SettlementSummary[],
+  ledgerOverrides: Record<string, string> = {},
+  settings: TallyExportSettings = DEFAULT_EXPORT_SETTINGS,
+  homeState: string = ""
+): string => {
+  const getLedgerName = (defaultName: string) => resolveLedgerName(defaultName, ledgerOverrides);
+
+  // Undated settlements are held back; see findHeldBackSettlements
+  return settlements.filter(s => s.date).map(s => {
+    const marketplaceLedger = getLedgerName(resolveB2cPartyLedger(settings, s.marketplace));
+    const reference = sanitize(s.settlementId);
+    const label = `${sanitize(s.marketplace || "Marketplace")} settlement ${reference}`;
+    let xml = "";
+
+    const feeLines = [
+      ...FEE_COMPONENTS.map(c => ({ ledger: getLedgerName(SETTLEMENT_LEDGERS[c]), amount: s.totals[c] })),
+      ...feeGstLines(s.totals.feeGst, homeState, getLedgerName)
+    ];
+    const feeTotal = feeLines.reduce((sum, l) => sum + l.amount, 0);
+    if (feeTotal !== 0) {
+      xml += voucher("Journal", s.date, reference, `${label}: fees for ${s.orderCount} orders`, [
+        ...feeLines,
+        { ledger: marketplaceLedger, amount: -feeTotal }
+      ]);
+    }
+
+    (["tcs", "tds"] as const).forEach(c => {
+      if (s.totals[c] === 0) return;
+      xml += voucher("Journal", s.date, reference, `${label}: ${c === "tcs" ? "TCS under Section 52" : "TDS under Section 194-O"}`, [
+        { ledger: getLedgerName(SETTLEMENT_LEDGERS[c]), amount: s.totals[c] },
+        { ledger: marketplaceLedger, amount: -s.totals[c] }
+      ]);
+    });
+
+    if (s.payout !== 0) {
+      xml += voucher("Receipt", s.date, reference, `${label}: payout`, [
+        { ledger: getLedgerName(settings.bankLedger || "Bank"), amount: -s.payout },
+        { ledger: marketplaceLedger, amount: s.payout }
+      ]);
+    }
+    return xml;
+  }).join("");
+};
+
+const ledgerMaster = (name: string, parent: string, extra: string = "") => `
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <LEDGER NAME="${name}" ACTION="Create">
+            <NAME.LIST>
+              <NAME>${name}</NAME>
+            </NAME.LIST>
+            <PARENT>${parent}</PARENT>${extra}
+          </LEDGER>
+        </TALLYMESSAGE>`;
+
+export const buildSettlementMasterMessages = (
+  settlements: SettlementSummary[],
+  ledgerOverrides: Record<string, string> = {},
+  settings: TallyExportSettings = DEFAULT_EXPORT_SETTINGS,
+  homeState: string = ""
+): string => {
+  const getLedgerName = (defaultName: string) => resolveLedgerName(defaultName, ledgerOverrides);
+  const used = (c: keyof typeof SETTLEMENT_LEDGERS) => settlements.some(s => s.totals[c] !== 0);
+
+  let xml = "";
+  (["referralFee", "closingFee", "fulfilmentFee", "otherFee"] as const).filter(used).forEach(c => {
+    xml += ledgerMaster(getLedgerName(SETTLEMENT_LEDGERS[c]), "Indirect Expenses", `
+            <GSTAPPLICABLE>&#4; Not Applicable</GSTAPPLICABLE>`);
+  });
+  const gstMaster = (name: string, dutyHead: string) =>
+    ledgerMaster(getLedgerName(name), "Duties &amp; Taxes", `
+            <TAXTYPE>GST</TAXTYPE>
+            <GSTDUTYHEAD>${dutyHead}</GSTDUTYHEAD>`);
+  if (used("feeGst")) {
+    xml += homeState
+      ? gstMaster(FEE_LOCAL_GST_LEDGERS.cgst, "Central Tax") + gstMaster(FEE_LOCAL_GST_LEDGERS.sgst, "State Tax")
+      : gstMaster(SETTLEMENT_LEDGERS.feeGst, "Integrated Tax");
+  }
+  (["tcs", "tds"] as const).filter(used).forEach(c => {
+    xml += ledgerMaster(getLedgerName(SETTLEMENT_LEDGERS[c]), "Loans &amp; Advances (Asset)");
+  });
+  if (settlements.some(s => s.payout !== 0)) {
+    xml += ledgerMaster(getLedgerName(settings.bankLedger || "Bank"), "Bank Accounts");
+  }
+  new Set(settlements.map(s => resolveB2cPartyLedger(settings, s.marketplace))).forEach(name => {
+    xml += ledgerMaster(getLedgerName(name), "Sundry Debtors");
+  });
+  return xml;
+};
+
+export const generateSettlementXml = (
+  settlements: SettlementSummary[],
+  ledgerOverrides: Record<string, string> = {},
+  settings: TallyExportSettings = DEFAULT_EXPORT_SETTINGS,
+  includeMasters: boolean = false,
+  homeState: string = ""
+): string => {
+  return wrapEnvelope(
+    "Vouchers",
+    (includeMasters ? buildSettlementMasterMessages(settlements, ledgerOverrides, settings, homeState) : "") +
+      buildSettlementMessages(settlements, ledgerOverrides, settings, homeState),
+    settings.companyName
+  );
+};
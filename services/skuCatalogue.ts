@@ -0,0 +1,162 @@
+
+import { MarketplaceTransaction, SkuCatalogueEntry, TallyExportSettings } from "../types";
+import { DEFAULT_EXPORT_SETTINGS } from "./clientConfig";
+import { parseCSV } from "./csvParser";
+
+export const DEFAULT_UNIT = "Nos";
+
+export interface StockItemRef {
+  name: string;
+  unit: string;
+  hsn: string;
+  godown: string;
+  // False when the row's SKU is not in the catalogue and the product title is used
+  mapped: boolean;
+}
+
+// SKUs are matched ignoring case and surrounding spaces
+export const normalizeSku = (sku: string) => (sku || "").trim().toUpperCase();
+
+const indexes = new WeakMap<SkuCatalogueEntry[], Map<string, SkuCatalogueEntry>>();
+
+const catalogueIndex = (catalogue: SkuCatalogueEntry[]) => {
+  let index = indexes.get(catalogue);
+  if (!index) {
+    index = new Map(catalogue.map(entry => [normalizeSku(entry.sku), entry]));
+    indexes.set(catalogue, index);
+  }
+  return index;
+};
+
+export const findCatalogueEntry = (catalogue: SkuCatalogueEntry[], sku: string) =>
+  catalogueIndex(catalogue).get(normalizeSku(sku)) || null;
+
+// The stock item a row posts to: its catalogue entry when the SKU is known,
+// otherwise the marketplace title in Nos
+export const resolveStockItem = (
+  tx: MarketplaceTransaction,
+  settings: TallyExportSettings = DEFAULT_EXPORT_SETTINGS
+): StockItemRef => {
+  const entry = tx.sku ? findCatalogueEntry(settings.skuCatalogue, tx.sku) : null;
+  if (entry && entry.stockItem.trim()) {
+    return {
+      name: entry.stockItem.trim(),
+      unit: entry.unit.trim() || DEFAULT_UNIT,
+      hsn: entry.hsn.trim() || tx.hsn,
+      godown: entry.godown.trim(),
+      mapped: true
+    };
+  }
+  return { name: tx.productName || "General Item", unit: DEFAULT_UNIT, hsn: tx.hsn, godown: "", mapped: false };
+};
+
+export interface UnmappedSku {
+  sku: string;
+  productName: string;
+  hsn: string;
+  rowCount: number;
+}
+
+// SKUs in the given rows with no catalogue entry, most frequent first
+export const findUnmappedSkus = (
+  transactions: MarketplaceTransaction[],
+  catalogue: SkuCatalogueEntry[]
+): UnmappedSku[] => {
+  const unmapped = new Map<string, UnmappedSku>();
+  transactions.forEach(tx => {
+    if (!tx.sku || findCatalogueEntry(catalogue, tx.sku)) return;
+    const key = normalizeSku(tx.sku);
+    const item = unmapped.get(key) || { sku: tx.sku.trim(), productName: tx.productName, hsn: tx.hsn, rowCount: 0 };
+    item.rowCount++;
+    if (!item.hsn && tx.hsn) item.hsn = tx.hsn;
+    unmapped.set(key, item);
+  });
+  return Array.from(unmapped.values()).sort((a, b) => b.rowCount - a.rowCount);
+};
+
+// New entries replace existing ones for the same SKU
+export const upsertCatalogueEntries = (catalogue: SkuCatalogueEntry[], entries: SkuCatalogueEntry[]) => {
+  const incoming = new Map(entries.map(e => [normalizeSku(e.sku), e]));
+  const kept = catalogue.filter(e => !incoming.has(normalizeSku(e.sku)));
+  return [...kept, ...incoming.values()];
+};
+
+// Auto-created items take the marketplace title as their name
+export const catalogueEntryFromSku = (item: UnmappedSku, stockItem: string = item.productName): SkuCatalogueEntry => ({
+  sku: item.sku,
+  stockItem,
+  unit: DEFAULT_UNIT,
+  hsn: item.hsn,
+  godown: ""
+});
+
+const CATALOGUE_COLUMNS: Record<keyof SkuCatalogueEntry, string[]> = {
+  sku: ["sku", "seller sku", "asin", "fsn", "sku code", "marketplace sku"],
+  stockItem: ["stock item", "stock item name", "tally item", "tally stock item", "item name", "item"],
+  unit: ["unit", "uom", "units", "unit of measure"],
+  hsn: ["hsn", "hsn code", "hsn sac"],
+  godown: ["godown", "location", "warehouse"]
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+export interface CatalogueImport {
+  entries: SkuCatalogueEntry[];
+  // Data lines (1-based, counting the header) skipped for a missing SKU or item name
+  skippedLines: number[];
+}
+
+// Reads a catalogue CSV with at least SKU and stock item columns. Throws with
+// a message for the user when those columns can't be found.
+export const parseCatalogueCsv = (text: string): CatalogueImport => {
+  const { rows } = parseCSV(text);
+  const headers = (rows[0] || []).map(normalizeHeader);
+  const column = (key: keyof SkuCatalogueEntry) => headers.findIndex(h => CATALOGUE_COLUMNS[key].includes(h));
+  const columns = {
+    sku: column("sku"),
+    stockItem: column("stockItem"),
+    unit: column("unit"),
+    hsn: column("hsn"),
+    godown: column("godown")
+  };
+  if (columns.sku === -1 || columns.stockItem === -1) {
+    throw new Error("The catalogue needs a SKU column and a Stock Item column.");
+  }
+
+  const entries: SkuCatalogueEntry[] = [];
+  const skippedLines: number[] = [];
+  rows.slice(1).forEach((row, idx) => {
+    const get = (key: keyof SkuCatalogueEntry) => (columns[key] === -1 ? "" : (row[columns[key]] ?? "").trim());
+    if (row.every(cell => !cell.trim())) return;
+    if (!get("sku") || !get("stockItem")) {
+      skippedLines.push(idx + 2);
+      return;
+    }
+    entries.push({ sku: get("sku"), stockItem: get("stockItem"), unit: get("unit") || DEFAULT_UNIT, hsn: get("hsn"), godown: get("godown") });
+  });
+  return { entries, skippedLines };
+};
+
+const csvField = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const catalogueToCsv = (catalogue: SkuCatalogueEntry[]) =>
+  [["SKU", "Stock Item", "Unit", "HSN", "Godown"], ...catalogue.map(e => [e.sku, e.stockItem, e.unit, e.hsn, e.godown])]
+    .map(row => row.map(csvField).join(","))
+    .join("\n");
+
+// GST unit quantity codes for the Tally units sellers commonly use
+const UQC_BY_UNIT: Record<string, string> = {
+  nos: "NOS", no: "NOS", pcs: "PCS", pc: "PCS", pieces: "PCS",
+  kgs: "KGS", kg: "KGS", g: "GMS", gm: "GMS", gms: "GMS", grams: "GMS",
+  pairs: "PRS", pair: "PRS", prs: "PRS",
+  sets: "SET", set: "SET",
+  ltr: "LTR", ltrs: "LTR", l: "LTR", ml: "MLT",
+  mtr: "MTR", mtrs: "MTR", m: "MTR",
+  box: "BOX", boxes: "BOX", pac: "PAC", pack: "PAC", packs: "PAC",
+  doz: "DOZ", dozen: "DOZ", btl: "BTL", bottles: "BTL", rol: "ROL", rolls: "ROL"
+};
+
+export const uqcForUnit = (unit: string) => UQC_BY_UNIT[(unit || "").trim().toLowerCase()] || "OTH";
+
+// Units whose quantities can be fractional, created in Tally with 3 decimals
+export const isFractionalUnit = (unit: string) => ["KGS", "GMS", "LTR", "MLT", "MTR"].includes(uqcForUnit(unit));
@@ -0,0 +1,73 @@
+
+import * as XLSX from 'xlsx';
+
+export interface WorkbookSheet {
+  name: string;
+  rows: string[][];
+}
+
+const SPREADSHEET_EXTENSIONS = [".xlsx", ".xls", ".xlsm", ".xlsb", ".ods"];
+
+// How far down to look for the real header row below report titles and filter notes
+const HEADER_SCAN_LIMIT = 30;
+
+export const isSpreadsheetFile = (fileName: string) => {
+  const lower = fileName.toLowerCase();
+  return SPREADSHEET_EXTENSIONS.some(ext => lower.endsWith(ext));
+};
+
+// Whether a number format shows a date, ignoring quoted text, [colour] and
+// [$-locale] tags and escaped characters
+const isDateFormat = (format: string) => /[dy]/i.test(format.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ""));
+
+export const readWorkbook = async (file: Blob): Promise<WorkbookSheet[]> => {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: 'array', cellNF: true });
+
+  return workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name];
+    // Date cells are day numbers formatted for the author's locale, so 1 April
+    // shows as "4/1/24" and reads back as 4 January. Pass the serial on
+    // instead and let dateParser read it as an Excel date.
+    Object.keys(sheet).forEach(ref => {
+      const cell = sheet[ref] as XLSX.CellObject;
+      if (!ref.startsWith("!") && cell.t === "n" && typeof cell.z === "string" && isDateFormat(cell.z)) cell.w = String(cell.v);
+    });
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      raw: false,
+      defval: "",
+      blankrows: false
+    });
+    return {
+      name,
+      rows: rows.map(row => row.map(cell => String(cell ?? "").trim()))
+    };
+  });
+};
+
+// Marketplace exports often carry a few preamble lines (report name, period,
+// seller GSTIN) above the table. The header is taken as the first row that is
+// as wide as the widest row and made up of text labels rather than figures.
+export const detectHeaderRow = (rows: string[][]): number => {
+  const scan = rows.slice(0, HEADER_SCAN_LIMIT);
+  const filledCount = (row: string[]) => row.filter(cell => cell !== "").length;
+  const maxFilled = Math.max(0, ...scan.map(filledCount));
+  if (maxFilled === 0) return 0;
+
+  const idx = scan.findIndex(row => {
+    const filled = row.filter(cell => cell !== "");
+    const labels = filled.filter(cell => isNaN(Number(cell.replace(/,/g, ""))));
+    return filled.length >= maxFilled * 0.8 && labels.length === filled.length;
+  });
+  return idx === -1 ? 0 : idx;
+};
+
+// Picks the sheet that most likely holds transactions, e.g. "Sales Report"
+// rather than "Cash Back Report" or a summary tab.
+export const pickDefaultSheet = (sheets: WorkbookSheet[]): WorkbookSheet | undefined => {
+  if (sheets.length === 0) return undefined;
+  const named = sheets.find(s => /sales|mtr|transaction|b2c|b2b/i.test(s.name) && s.rows.length > 1);
+  if (named) return named;
+  return sheets.reduce((best, s) => (s.rows.length > best.rows.length ? s : best), sheets[0]);
+};
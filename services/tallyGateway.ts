@@ -0,0 +1,236 @@
+
+import { MarketplaceTransaction, TallyConnectionSettings } from "../types";
+import { DEFAULT_EXPORT_SETTINGS } from "./clientConfig";
+import { buildMasterMessages } from "./tallyMasterGenerator";
+import {
+  assignVoucherNumbers,
+  renderVoucherMessage,
+  tallyVouchers,
+  wrapEnvelope,
+  TallyXmlOptions,
+  VoucherGroup
+} from "./tallyXmlGenerator";
+
+const SETTINGS_KEY = "tallybridge.tallyConnection";
+
+export const DEFAULT_TALLY_CONNECTION: TallyConnectionSettings = {
+  host: "localhost",
+  port: 9000
+};
+
+export interface TallyImportResult {
+  created: number;
+  altered: number;
+  ignored: number;
+  errors: number;
+  lineErrors: string[];
+}
+
+export interface VoucherPushResult {
+  group: VoucherGroup;
+  // Absent when Tally's replies can't be read (see probeTally)
+  result?: TallyImportResult;
+  // The request failed: an HTTP error status, or Tally stopped answering
+  failure?: string;
+  // Left unsent after Tally stopped answering
+  notSent?: boolean;
+}
+
+export interface TallyPushReport {
+  masters: TallyImportResult | null;
+  vouchers: VoucherPushResult[];
+  // False when every request reached Tally but none of its replies could be
+  // read, so whether Tally accepted the vouchers is only known in Tally
+  repliesReadable: boolean;
+}
+
+// Tally's HTTP server sends no Access-Control-Allow-Origin header. A page
+// served from anywhere else can still POST to it, and Tally imports what it
+// is sent, but the browser won't let the page read the reply.
+//   readable: the page may read replies (a proxy or browser setting allows it)
+//   opaque:   requests reach Tally, replies can't be read
+export type TallyReplyAccess = "readable" | "opaque";
+
+// Thrown when nothing answers at the address, as opposed to Tally answering
+// with an error
+const unreachable = (url: string) =>
+  Object.assign(
+    new Error(`Could not reach Tally at ${url}. Check that Tally is running with its HTTP server enabled on this port.`),
+    { unreachable: true }
+  );
+
+const isUnreachable = (error: unknown) => error instanceof Error && "unreachable" in error;
+
+const tallyUrl = (connection: TallyConnectionSettings) => `http://${connection.host}:${connection.port}`;
+
+const readCount = (xml: string, tag: string) => {
+  const match = xml.match(new RegExp(`<${tag}>\\s*(-?\\d+)\\s*</${tag}>`, "i"));
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+// Handles both the bare <RESPONSE> of Tally.ERP 9 and the <ENVELOPE><IMPORTRESULT>
+// shape of TallyPrime. Regex rather than DOMParser so it also works outside a browser.
+export const parseTallyResponse = (xml: string): TallyImportResult => {
+  const lineErrors: string[] = [];
+  const pattern = /<LINEERROR>([\s\S]*?)<\/LINEERROR>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    lineErrors.push(match[1].trim());
+  }
+
+  return {
+    created: readCount(xml, "CREATED"),
+    altered: readCount(xml, "ALTERED"),
+    ignored: readCount(xml, "IGNORED"),
+    errors: Math.max(readCount(xml, "ERRORS"), lineErrors.length),
+    lineErrors
+  };
+};
+
+// A GET is answered with a status page, so it shows whether replies can be
+// read before anything is imported. Sending first and finding out after would
+// leave a voucher imported but reported as failed.
+export const probeTally = async (connection: TallyConnectionSettings, signal?: AbortSignal): Promise<TallyReplyAccess> => {
+  const url = tallyUrl(connection);
+  try {
+    await fetch(url, { signal });
+    return "readable";
+  } catch (error) {
+    if (signal?.aborted) throw error;
+  }
+  try {
+    await fetch(url, { mode: "no-cors", signal });
+    return "opaque";
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw unreachable(url);
+  }
+};
+
+// Resolves with Tally's import counts, or null when the reply can't be read.
+// text/plain keeps the POST a simple request, which needs no preflight; Tally
+// doesn't answer preflights.
+export const postToTally = async (
+  envelope: string,
+  connection: TallyConnectionSettings,
+  signal?: AbortSignal,
+  access: TallyReplyAccess = "readable"
+): Promise<TallyImportResult | null> => {
+  const url = tallyUrl(connection);
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      mode: access === "opaque" ? "no-cors" : "cors",
+      headers: { "Content-Type": "text/plain;charset=utf-8" },
+      body: envelope,
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw unreachable(url);
+  }
+
+  if (access === "opaque") return null;
+  if (!response.ok) {
+    throw new Error(`Tally responded with HTTP ${response.status}.`);
+  }
+  return parseTallyResponse(await response.text());
+};
+
+// Sends masters in one request, then each voucher on its own so every
+// LINEERROR can be traced to the rows that produced it. A voucher Tally
+// rejects doesn't stop the push; losing the connection does, and the
+// vouchers after it are listed as not sent.
+export const pushToTally = async (
+  transactions: MarketplaceTransaction[],
+  ledgerOverrides: Record<string, string>,
+  options: TallyXmlOptions,
+  connection: TallyConnectionSettings,
+  control: {
+    includeMasters?: boolean;
+    onProgress?: (done: number, total: number) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<TallyPushReport> => {
+  const settings = options.exportSettings || DEFAULT_EXPORT_SETTINGS;
+  const companyName = settings.companyName;
+  const access = await probeTally(connection, control.signal);
+  let masters: TallyImportResult | null = null;
+  if (control.includeMasters) {
+    masters = await postToTally(
+      wrapEnvelope("All Masters", buildMasterMessages(transactions, ledgerOverrides, options), companyName),
+      connection,
+      control.signal,
+      access
+    );
+  }
+
+  const groups = tallyVouchers(transactions, options);
+  const numbers = assignVoucherNumbers(groups, settings);
+  const vouchers: VoucherPushResult[] = [];
+
+  for (let i = 0; i < groups.length; i++) {
+    if (control.signal?.aborted) break;
+    const group = groups[i];
+    try {
+      const envelope = wrapEnvelope(
+        "Vouchers",
+        renderVoucherMessage(group, ledgerOverrides, settings, numbers[i]),
+        companyName
+      );
+      const result = await postToTally(envelope, connection, control.signal, access);
+      vouchers.push(result ? { group, result } : { group });
+    } catch (error) {
+      if (control.signal?.aborted) break;
+      vouchers.push({ group, failure: error instanceof Error ? error.message : String(error) });
+      // Every later voucher would fail the same way
+      if (isUnreachable(error)) {
+        groups.slice(i + 1).forEach(rest => vouchers.push({ group: rest, notSent: true }));
+        break;
+      }
+    }
+    control.onProgress?.(i + 1, groups.length);
+  }
+
+  return { masters, vouchers, repliesReadable: access === "readable" };
+};
+
+// Row index -> messages, for flagging rows in the review table
+export const mapPushErrorsToRows = (
+  transactions: MarketplaceTransaction[],
+  report: TallyPushReport
+): Record<number, string[]> => {
+  const indexOf = new Map<MarketplaceTransaction, number>();
+  transactions.forEach((tx, idx) => indexOf.set(tx, idx));
+
+  const rowErrors: Record<number, string[]> = {};
+  report.vouchers.forEach(({ group, result, failure, notSent }) => {
+    const messages = failure
+      ? [failure]
+      : notSent
+        ? ["Not sent: Tally stopped answering earlier in the push."]
+        : result && result.errors > 0
+          ? (result.lineErrors.length > 0 ? result.lineErrors : ["Tally rejected this voucher."])
+          : [];
+    if (messages.length === 0) return;
+    (group.summary?.sources || group.lines).forEach(tx => {
+      const idx = indexOf.get(tx);
+      if (idx !== undefined) rowErrors[idx] = messages;
+    });
+  });
+  return rowErrors;
+};
+
+export const loadTallyConnection = (): TallyConnectionSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_TALLY_CONNECTION, ...JSON.parse(stored) } : DEFAULT_TALLY_CONNECTION;
+  } catch {
+    return DEFAULT_TALLY_CONNECTION;
+  }
+};
+
+export const saveTallyConnection = (settings: TallyConnectionSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,283 @@
+
+import { MarketplaceTransaction } from "../types";
+import { DEFAULT_EXPORT_SETTINGS } from "./clientConfig";
+import { stateFromGstin } from "./gstin";
+import { DEFAULT_UNIT, isFractionalUnit, resolveStockItem } from "./skuCatalogue";
+import {
+  checkVoucherBalance,
+  envelopeParts,
+  isB2B,
+  isExported,
+  resolveLedgerName,
+  resolveTransactionLedgers,
+  sanitize,
+  tallyVouchers,
+  voucherMessageParts,
+  voucherTypeFor,
+  TallyXmlOptions
+} from "./tallyXmlGenerator";
+
+// Earliest date Tally accepts for GST rate details
+const GST_APPLICABLE_FROM = "20170701";
+
+// Tally ships a predefined Cash ledger, so it is never created from here
+const PREDEFINED_LEDGERS = ["Cash"];
+
+const PREDEFINED_VOUCHER_TYPES = ["Sales", "Credit Note"];
+
+const rateDetails = (rate: number) => `
+                <RATEDETAILS.LIST>
+                  <GSTRATEDUTYHEAD>Integrated Tax</GSTRATEDUTYHEAD>
+                  <GSTRATEVALUATIONTYPE>Based on Value</GSTRATEVALUATIONTYPE>
+                  <GSTRATE>${rate}</GSTRATE>
+                </RATEDETAILS.LIST>
+                <RATEDETAILS.LIST>
+                  <GSTRATEDUTYHEAD>Central Tax</GSTRATEDUTYHEAD>
+                  <GSTRATEVALUATIONTYPE>Based on Value</GSTRATEVALUATIONTYPE>
+                  <GSTRATE>${rate / 2}</GSTRATE>
+                </RATEDETAILS.LIST>
+                <RATEDETAILS.LIST>
+                  <GSTRATEDUTYHEAD>State Tax</GSTRATEDUTYHEAD>
+                  <GSTRATEVALUATIONTYPE>Based on Value</GSTRATEVALUATIONTYPE>
+                  <GSTRATE>${rate / 2}</GSTRATE>
+                </RATEDETAILS.LIST>`;
+
+const gstDetails = (rate: number, hsn: string = "") => `
+            <GSTAPPLICABLE>&#4; Applicable</GSTAPPLICABLE>
+            <GSTTYPEOFSUPPLY>Goods</GSTTYPEOFSUPPLY>
+            <GSTDETAILS.LIST>
+              <APPLICABLEFROM>${GST_APPLICABLE_FROM}</APPLICABLEFROM>
+              <CALCULATIONTYPE>On Value</CALCULATIONTYPE>${hsn ? `
+              <HSNCODE>${sanitize(hsn)}</HSNCODE>` : ""}
+              <TAXABILITY>Taxable</TAXABILITY>
+              <STATEWISEDETAILS.LIST>
+                <STATENAME>&#4; Any</STATENAME>${rateDetails(rate)}
+              </STATEWISEDETAILS.LIST>
+            </GSTDETAILS.LIST>`;
+
+const salesLedger = (name: string, rate: number) => `
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <LEDGER NAME="${name}" ACTION="Create">
+            <NAME.LIST>
+              <NAME>${name}</NAME>
+            </NAME.LIST>
+            <PARENT>Sales Accounts</PARENT>
+            <ISBILLWISEON>No</ISBILLWISEON>${gstDetails(rate)}
+          </LEDGER>
+        </TALLYMESSAGE>`;
+
+const taxLedger = (name: string, dutyHead: string, rate: number) => `
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <LEDGER NAME="${name}" ACTION="Create">
+            <NAME.LIST>
+              <NAME>${name}</NAME>
+            </NAME.LIST>
+            <PARENT>Duties &amp; Taxes</PARENT>
+            <TAXTYPE>GST</TAXTYPE>
+            <GSTDUTYHEAD>${dutyHead}</GSTDUTYHEAD>
+            <RATEOFTAXCALCULATION>${rate}</RATEOFTAXCALCULATION>
+          </LEDGER>
+        </TALLYMESSAGE>`;
+
+const partyLedger = (name: string, state: string, gstin: string) => `
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <LEDGER NAME="${name}" ACTION="Create">
+            <NAME.LIST>
+              <NAME>${name}</NAME>
+            </NAME.LIST>
+            <PARENT>Sundry Debtors</PARENT>
+            <ISBILLWISEON>Yes</ISBILLWISEON>
+            <COUNTRYNAME>India</COUNTRYNAME>${state ? `
+            <LEDSTATENAME>${state}</LEDSTATENAME>` : ""}${gstin ? `
+            <GSTREGISTRATIONTYPE>Regular</GSTREGISTRATIONTYPE>
+            <PARTYGSTIN>${gstin}</PARTYGSTIN>` : `
+            <GSTREGISTRATIONTYPE>Unregistered/Consumer</GSTREGISTRATIONTYPE>`}
+          </LEDGER>
+        </TALLYMESSAGE>`;
+
+const roundOffLedger = (name: string) => `
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <LEDGER NAME="${name}" ACTION="Create">
+            <NAME.LIST>
+              <NAME>${name}</NAME>
+            </NAME.LIST>
+            <PARENT>Indirect Expenses</PARENT>
+            <ISBILLWISEON>No</ISBILLWISEON>
+            <GSTAPPLICABLE>&#4; Not Applicable</GSTAPPLICABLE>
+          </LEDGER>
+        </TALLYMESSAGE>`;
+
+// Custom types such as "Amazon Sales" sit under the built-in type they extend.
+// Manual override keeps both supplied and Tally-generated numbers working.
+const voucherTypeMaster = (name: string, parent: string) => `
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <VOUCHERTYPE NAME="${name}" ACTION="Create">
+            <NAME.LIST>
+              <NAME>${name}</NAME>
+            </NAME.LIST>
+            <PARENT>${parent}</PARENT>
+            <NUMBERINGMETHOD>Automatic (Manual Override)</NUMBERINGMETHOD>
+            <ISACTIVE>Yes</ISACTIVE>
+          </VOUCHERTYPE>
+        </TALLYMESSAGE>`;
+
+const unitMaster = (name: string, decimalPlaces: number = 0) => `
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <UNIT NAME="${name}" ACTION="Create">
+            <NAME>${name}</NAME>
+            <ISSIMPLEUNIT>Yes</ISSIMPLEUNIT>
+            <DECIMALPLACES>${decimalPlaces}</DECIMALPLACES>
+          </UNIT>
+        </TALLYMESSAGE>`;
+
+const godownMaster = (name: string) => `
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <GODOWN NAME="${name}" ACTION="Create">
+            <NAME.LIST>
+              <NAME>${name}</NAME>
+            </NAME.LIST>
+          </GODOWN>
+        </TALLYMESSAGE>`;
+
+const stockItem = (name: string, unit: string, rate: number, hsn: string) => `
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+          <STOCKITEM NAME="${name}" ACTION="Create">
+            <NAME.LIST>
+              <NAME>${name}</NAME>
+            </NAME.LIST>
+            <BASEUNITS>${unit}</BASEUNITS>${gstDetails(rate, hsn)}
+          </STOCKITEM>
+        </TALLYMESSAGE>`;
+
+// Every master the vouchers refer to, in the order Tally needs them:
+// units before stock items, ledgers before the vouchers that post to them.
+export const masterMessageParts = (
+  transactions: MarketplaceTransaction[],
+  ledgerOverrides: Record<string, string> = {},
+  options: TallyXmlOptions = {}
+): string[] => {
+  const getLedgerName = (defaultName: string) => resolveLedgerName(defaultName, ledgerOverrides);
+
+  const salesLedgers = new Map<string, number>();
+  const taxLedgers = new Map<string, { dutyHead: string; rate: number }>();
+  const settings = options.exportSettings || DEFAULT_EXPORT_SETTINGS;
+  const parties = new Map<string, { state: string; gstin: string }>();
+  const items = new Map<string, { rate: number; hsn: string; unit: string }>();
+  const units = new Set<string>([DEFAULT_UNIT]);
+  const godowns = new Set<string>();
+
+  transactions.filter(tx => isExported(tx, options.cancelHandling)).forEach(tx => {
+    const rate = tx.gstRate || 18;
+    const ledgers = resolveTransactionLedgers(tx, settings);
+    if (!salesLedgers.has(ledgers.sales)) salesLedgers.set(ledgers.sales, rate);
+    if (tx.igst > 0) taxLedgers.set(ledgers.igst, { dutyHead: "Integrated Tax", rate });
+    if (tx.cgst > 0 || tx.sgst > 0) {
+      taxLedgers.set(ledgers.cgst, { dutyHead: "Central Tax", rate: rate / 2 });
+      taxLedgers.set(ledgers.sgst, { dutyHead: "State Tax", rate: rate / 2 });
+    }
+
+    // The consolidated B2C ledger spans many states, so it carries none. A
+    // party ledger named by a rule is shared too, so it gets no GSTIN.
+    const party = ledgers.party;
+    if (isB2B(tx) && !ledgers.rule?.partyLedger.trim()) {
+      parties.set(party, { state: stateFromGstin(tx.buyerGstin), gstin: tx.buyerGstin });
+    } else if (!parties.has(party)) {
+      parties.set(party, { state: "", gstin: "" });
+    }
+
+    const stock = resolveStockItem(tx, settings);
+    units.add(stock.unit);
+    if (stock.godown) godowns.add(stock.godown);
+    const item = items.get(stock.name);
+    if (!item || (!item.hsn && stock.hsn)) {
+      items.set(stock.name, { rate, hsn: stock.hsn || item?.hsn || "", unit: stock.unit });
+    }
+  });
+
+  const voucherTypes = new Map<string, string>();
+  let needsRoundOff = false;
+  tallyVouchers(transactions, options).forEach(group => {
+    needsRoundOff = needsRoundOff || checkVoucherBalance(group, settings).difference !== 0;
+    const name = voucherTypeFor(group, settings);
+    if (!PREDEFINED_VOUCHER_TYPES.includes(name)) {
+      voucherTypes.set(name, group.creditNote ? "Credit Note" : "Sales");
+    }
+  });
+
+  const parts: string[] = [];
+  units.forEach(unit => {
+    parts.push(unitMaster(sanitize(unit), isFractionalUnit(unit) ? 3 : 0));
+  });
+  godowns.forEach(godown => {
+    parts.push(godownMaster(sanitize(godown)));
+  });
+
+  voucherTypes.forEach((parent, name) => {
+    parts.push(voucherTypeMaster(sanitize(name), parent));
+  });
+
+  Array.from(salesLedgers.entries()).sort((a, b) => a[1] - b[1]).forEach(([name, rate]) => {
+    parts.push(salesLedger(getLedgerName(name), rate));
+  });
+  Array.from(taxLedgers.entries()).sort((a, b) => a[1].rate - b[1].rate).forEach(([name, { dutyHead, rate }]) => {
+    parts.push(taxLedger(getLedgerName(name), dutyHead, rate));
+  });
+
+  if (needsRoundOff) {
+    parts.push(roundOffLedger(getLedgerName(settings.roundOffLedger || "Round Off")));
+  }
+
+  parties.forEach(({ state, gstin }, party) => {
+    if (PREDEFINED_LEDGERS.includes(party)) return;
+    parts.push(partyLedger(sanitize(party), sanitize(state), gstin));
+  });
+
+  items.forEach(({ rate, hsn, unit }, product) => {
+    parts.push(stockItem(sanitize(product), sanitize(unit), rate, hsn));
+  });
+
+  return parts;
+};
+
+export const buildMasterMessages = (
+  transactions: MarketplaceTransaction[],
+  ledgerOverrides: Record<string, string> = {},
+  options: TallyXmlOptions = {}
+): string => masterMessageParts(transactions, ledgerOverrides, options).join("");
+
+export const generateTallyMastersXmlParts = (
+  transactions: MarketplaceTransaction[],
+  ledgerOverrides: Record<string, string> = {},
+  options: TallyXmlOptions = {}
+): string[] => {
+  const [head, tail] = envelopeParts("All Masters", options.exportSettings?.companyName);
+  return [head, ...masterMessageParts(transactions, ledgerOverrides, options), tail];
+};
+
+export const generateTallyMastersXml = (
+  transactions: MarketplaceTransaction[],
+  ledgerOverrides: Record<string, string> = {},
+  options: TallyXmlOptions = {}
+): string => generateTallyMastersXmlParts(transactions, ledgerOverrides, options).join("");
+
+// Masters followed by vouchers in one import, so a fresh company needs a single file
+export const generateCombinedTallyXmlParts = (
+  transactions: MarketplaceTransaction[],
+  ledgerOverrides: Record<string, string> = {},
+  options: TallyXmlOptions = {},
+  onProgress?: (done: number, total: number) => void
+): string[] => {
+  const [head, tail] = envelopeParts("Vouchers", options.exportSettings?.companyName);
+  return [
+    head,
+    ...masterMessageParts(transactions, ledgerOverrides, options),
+    ...voucherMessageParts(transactions, ledgerOverrides, options, onProgress),
+    tail
+  ];
+};
+
+export const generateCombinedTallyXml = (
+  transactions: MarketplaceTransaction[],
+  ledgerOverrides: Record<string, string> = {},
+  options: TallyXmlOptions = {}
+): string => generateCombinedTallyXmlParts(transactions, ledgerOverrides, options).join("");
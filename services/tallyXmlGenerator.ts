@@ -1,7 +1,334 @@
 
-import { MarketplaceTransaction } from "../types";
+import { B2cConsolidation, CancelHandling, LedgerRule, MarketplaceTransaction, TallyExportSettings } from "../types";
+import { DEFAULT_EXPORT_SETTINGS, resolveB2cPartyLedger, resolveVoucherTypes } from "./clientConfig";
+import { GST_STATE_CODES, isValidGstin, stateCodeFor } from "./gstin";
+import { expandLedgerTemplate, findLedgerRule } from "./ledgerRules";
+import { resolveStockItem } from "./skuCatalogue";
 
-const sanitize = (str: string) => {
+export interface TallyXmlOptions {
+  cancelHandling?: CancelHandling;
+  exportSettings?: TallyExportSettings;
+}
+
+// Refunds, and cancellations when reversed, post as credit notes
+export const isCreditNote = (tx: MarketplaceTransaction, cancelHandling: CancelHandling = "skip") =>
+  tx.transactionType === "Refund" || (tx.transactionType === "Cancel" && cancelHandling === "reverse");
+
+export const isExported = (tx: MarketplaceTransaction, cancelHandling: CancelHandling = "skip") =>
+  tx.transactionType !== "Cancel" || cancelHandling === "reverse";
+
+export const isB2B = (tx: MarketplaceTransaction) => isValidGstin(tx.buyerGstin);
+
+// Registered buyers get their own ledger; everyone else shares the B2C ledger
+export const resolvePartyLedger = (
+  tx: MarketplaceTransaction,
+  settings: TallyExportSettings = DEFAULT_EXPORT_SETTINGS
+) => (isB2B(tx) ? tx.customerName || tx.buyerGstin : resolveB2cPartyLedger(settings, tx.marketplace));
+
+export interface TransactionLedgers {
+  sales: string;
+  igst: string;
+  cgst: string;
+  sgst: string;
+  party: string;
+  // The ledger rule that picked these, null when all are defaults
+  rule: LedgerRule | null;
+}
+
+// Default names before ledgerOverrides are applied, unless a ledger rule
+// names its own
+export const resolveTransactionLedgers = (
+  tx: MarketplaceTransaction,
+  settings: TallyExportSettings = DEFAULT_EXPORT_SETTINGS
+): TransactionLedgers => {
+  const rate = tx.gstRate || 18;
+  const rule = findLedgerRule(tx, settings.ledgerRules);
+  return {
+    sales: expandLedgerTemplate(rule?.salesLedger || "", rate, `Sales @ ${rate}%`),
+    igst: expandLedgerTemplate(rule?.igstLedger || "", rate, `Output IGST @ ${rate}%`),
+    cgst: expandLedgerTemplate(rule?.cgstLedger || "", rate, `Output CGST @ ${rate / 2}%`),
+    sgst: expandLedgerTemplate(rule?.sgstLedger || "", rate, `Output SGST @ ${rate / 2}%`),
+    party: expandLedgerTemplate(rule?.partyLedger || "", rate, resolvePartyLedger(tx, settings)),
+    rule
+  };
+};
+
+export interface VoucherSummary {
+  invoiceCount: number;
+  firstInvoice: string;
+  lastInvoice: string;
+  // The report rows rolled into this voucher
+  sources: MarketplaceTransaction[];
+}
+
+export interface VoucherGroup {
+  creditNote: boolean;
+  lines: MarketplaceTransaction[];
+  // Set on consolidated B2C vouchers, whose lines are per-SKU totals
+  summary?: VoucherSummary;
+}
+
+const sum = (lines: MarketplaceTransaction[], pick: (tx: MarketplaceTransaction) => number) =>
+  lines.reduce((total, tx) => total + pick(tx), 0);
+
+// Amounts are balanced in whole paise so the check sees exactly what is written
+const toPaise = (value: number) => Math.round(value * 100);
+const formatPaise = (paise: number) => (paise / 100).toFixed(2);
+
+interface VoucherLedgerLines {
+  // Sales ledger -> the rows posted to it as inventory, lowest rate first
+  sales: Map<string, MarketplaceTransaction[]>;
+  // Tax ledger -> amount, in the order the ledgers are first used
+  taxes: Map<string, number>;
+}
+
+// The ledger lines a voucher is written with. Rows sharing a sales or tax
+// ledger post to it as one line.
+const voucherLedgerLines = (lines: MarketplaceTransaction[], settings: TallyExportSettings): VoucherLedgerLines => {
+  const sales = new Map<string, MarketplaceTransaction[]>();
+  const taxes = new Map<string, number>();
+  const addTax = (ledger: string, amount: number) => {
+    if (amount) taxes.set(ledger, (taxes.get(ledger) || 0) + amount);
+  };
+  [...lines].sort((a, b) => (a.gstRate || 18) - (b.gstRate || 18)).forEach(tx => {
+    const ledgers = resolveTransactionLedgers(tx, settings);
+    sales.set(ledgers.sales, [...(sales.get(ledgers.sales) || []), tx]);
+    addTax(ledgers.igst, tx.igst);
+    addTax(ledgers.cgst, tx.cgst);
+    addTax(ledgers.sgst, tx.sgst);
+  });
+  return { sales, taxes };
+};
+
+// Party amount minus the sales and tax lines, in paise, as they will be written
+const voucherDifference = (lines: MarketplaceTransaction[], settings: TallyExportSettings) => {
+  const { sales, taxes } = voucherLedgerLines(lines, settings);
+  let lineTotal = 0;
+  sales.forEach(salesLines => {
+    salesLines.forEach(tx => {
+      lineTotal += toPaise(tx.taxableValue);
+    });
+  });
+  taxes.forEach(amount => {
+    lineTotal += toPaise(amount);
+  });
+  return toPaise(sum(lines, tx => tx.totalAmount)) - lineTotal;
+};
+
+export interface VoucherBalance {
+  // Rupees the party amount exceeds the ledger lines by; negative when short
+  difference: number;
+  // Whether the difference fits within the round-off limit
+  balanced: boolean;
+}
+
+export const checkVoucherBalance = (
+  group: VoucherGroup,
+  settings: TallyExportSettings = DEFAULT_EXPORT_SETTINGS
+): VoucherBalance => {
+  const difference = voucherDifference(group.lines, settings);
+  return {
+    difference: difference / 100,
+    balanced: Math.abs(difference) <= toPaise(settings.roundOffLimit)
+  };
+};
+
+// Why a voucher can't be written as it stands, or null when it can. Nothing
+// is substituted for a missing date or a large difference; the user fixes the row.
+export const voucherProblem = (
+  group: VoucherGroup,
+  settings: TallyExportSettings = DEFAULT_EXPORT_SETTINGS
+): string | null => {
+  const invoiceNo = group.lines[0].invoiceNo || "(no invoice no.)";
+  const undated = group.lines.find(tx => !tx.date);
+  if (undated) {
+    return `Voucher ${invoiceNo}: date "${undated.rawDate}" could not be read, so the voucher is not exported.`;
+  }
+  const { difference, balanced } = checkVoucherBalance(group, settings);
+  if (!balanced) {
+    return `Voucher ${invoiceNo} is out by ₹${Math.abs(difference).toFixed(2)}, more than the ₹${settings.roundOffLimit.toFixed(2)} round-off limit. It will not be exported.`;
+  }
+  return null;
+};
+
+// Vouchers that will be written
+export const exportableVouchers = (transactions: MarketplaceTransaction[], options: TallyXmlOptions = {}) => {
+  const settings = options.exportSettings || DEFAULT_EXPORT_SETTINGS;
+  return groupIntoVouchers(transactions, options.cancelHandling)
+    .filter(group => voucherProblem(group, settings) === null);
+};
+
+// Vouchers held back from export, with the reason for each. A B2C summary
+// held back is listed as itself; its sources are under summary.sources.
+export const findHeldBackVouchers = (transactions: MarketplaceTransaction[], options: TallyXmlOptions = {}) => {
+  const settings = options.exportSettings || DEFAULT_EXPORT_SETTINGS;
+  const heldBack: { group: VoucherGroup; reason: string }[] = [];
+  groupIntoVouchers(transactions, options.cancelHandling).forEach(group => {
+    const reason = voucherProblem(group, settings);
+    if (reason) heldBack.push({ group, reason });
+  });
+  consolidateB2cVouchers(exportableVouchers(transactions, options), settings).forEach(group => {
+    const reason = group.summary ? voucherProblem(group, settings) : null;
+    if (reason) heldBack.push({ group, reason });
+  });
+  return heldBack;
+};
+
+// Rows of a multi-SKU order share the marketplace invoice number and post as a
+// single voucher. Rows without an invoice number stay on their own.
+export const groupIntoVouchers = (
+  transactions: MarketplaceTransaction[],
+  cancelHandling: CancelHandling = "skip"
+): VoucherGroup[] => {
+  const byKey = new Map<string, VoucherGroup>();
+  const groups: VoucherGroup[] = [];
+
+  transactions.forEach(tx => {
+    if (!isExported(tx, cancelHandling)) return;
+    const creditNote = isCreditNote(tx, cancelHandling);
+    if (!tx.invoiceNo) {
+      groups.push({ creditNote, lines: [tx] });
+      return;
+    }
+    const key = `${creditNote ? "CN" : "SI"}|${tx.invoiceNo}`;
+    let group = byKey.get(key);
+    if (!group) {
+      group = { creditNote, lines: [] };
+      byKey.set(key, group);
+      groups.push(group);
+    }
+    group.lines.push(tx);
+  });
+
+  return groups;
+};
+
+const summaryPeriod = (date: string, mode: B2cConsolidation) => (mode === "monthly" ? date.slice(0, 7) : date);
+
+const lastDayOfMonth = (month: string) => {
+  const days = new Date(Date.UTC(parseInt(month.slice(0, 4), 10), parseInt(month.slice(5, 7), 10), 0)).getUTCDate();
+  return `${month}-${String(days).padStart(2, "0")}`;
+};
+
+// One summary voucher from the rows sharing a period, state, rate and
+// marketplace. Quantities and amounts are summed per stock item.
+const summarizeB2cLines = (
+  creditNote: boolean,
+  sources: MarketplaceTransaction[],
+  mode: B2cConsolidation,
+  settings: TallyExportSettings
+): VoucherGroup => {
+  const head = sources[0];
+  const period = summaryPeriod(head.date, mode);
+  const stateCode = stateCodeFor(head.state);
+  const rate = head.gstRate || 18;
+  const reference = [head.marketplace || "B2C", creditNote ? "B2CR" : "B2C", period.replace(/-/g, ""), stateCode || "NA", rate].join("-");
+  const invoices = Array.from(new Set(sources.map(tx => tx.invoiceNo).filter(Boolean)))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  const byItem = new Map<string, MarketplaceTransaction>();
+  sources.forEach(tx => {
+    const productName = tx.productName || "General Item";
+    const item = resolveStockItem(tx, settings).name;
+    const line = byItem.get(item);
+    if (!line) {
+      byItem.set(item, {
+        ...tx,
+        date: mode === "monthly" ? lastDayOfMonth(period) : period,
+        invoiceNo: reference,
+        originalInvoiceNo: reference,
+        customerName: "",
+        buyerGstin: "",
+        state: GST_STATE_CODES[stateCode] || head.state,
+        productName,
+        quantity: tx.quantity || 1
+      });
+      return;
+    }
+    line.quantity += tx.quantity || 1;
+    line.taxableValue += tx.taxableValue;
+    line.igst += tx.igst;
+    line.cgst += tx.cgst;
+    line.sgst += tx.sgst;
+    line.totalAmount += tx.totalAmount;
+  });
+
+  return {
+    creditNote,
+    lines: Array.from(byItem.values()),
+    summary: {
+      invoiceCount: invoices.length,
+      firstInvoice: invoices[0] || "",
+      lastInvoice: invoices[invoices.length - 1] || "",
+      sources
+    }
+  };
+};
+
+// B2B vouchers stay as they are; B2C ones are replaced by summary vouchers,
+// which follow in date order. Rows matched by different ledger rules are
+// never summed together.
+export const consolidateB2cVouchers = (
+  groups: VoucherGroup[],
+  settings: TallyExportSettings = DEFAULT_EXPORT_SETTINGS
+): VoucherGroup[] => {
+  const mode = settings.b2cConsolidation;
+  if (mode === "none") return groups;
+  const individual: VoucherGroup[] = [];
+  const buckets = new Map<string, { creditNote: boolean; sources: MarketplaceTransaction[] }>();
+  groups.forEach(group => {
+    if (isB2B(group.lines[0])) {
+      individual.push(group);
+      return;
+    }
+    group.lines.forEach(tx => {
+      const state = stateCodeFor(tx.state) || tx.state.trim().toLowerCase();
+      const rule = findLedgerRule(tx, settings.ledgerRules);
+      const key = [summaryPeriod(tx.date, mode), group.creditNote ? "CN" : "SI", tx.marketplace, state, tx.gstRate || 18, rule?.id || ""].join("|");
+      const bucket = buckets.get(key) || { creditNote: group.creditNote, sources: [] };
+      bucket.sources.push(tx);
+      buckets.set(key, bucket);
+    });
+  });
+  const summaries = Array.from(buckets.keys()).sort().map(key => {
+    const { creditNote, sources } = buckets.get(key)!;
+    return summarizeB2cLines(creditNote, sources, mode, settings);
+  });
+  return [...individual, ...summaries];
+};
+
+// Vouchers as they are written to Tally, after any B2C consolidation. The
+// roundings of a summary's invoices add up, so a summary can go over the
+// round-off limit that each invoice kept within; it is held back like one would be.
+export const tallyVouchers = (transactions: MarketplaceTransaction[], options: TallyXmlOptions = {}) => {
+  const settings = options.exportSettings || DEFAULT_EXPORT_SETTINGS;
+  return consolidateB2cVouchers(exportableVouchers(transactions, options), settings)
+    .filter(group => !group.summary || voucherProblem(group, settings) === null);
+};
+
+export const voucherTypeFor = (group: VoucherGroup, settings: TallyExportSettings = DEFAULT_EXPORT_SETTINGS) => {
+  const types = resolveVoucherTypes(settings, group.lines[0].marketplace);
+  return group.creditNote ? types.creditNote : types.sales;
+};
+
+// VOUCHERNUMBER for each group, "" where Tally should number it. Sequences run
+// per voucher type, as Tally keeps a separate series for each.
+export const assignVoucherNumbers = (
+  groups: VoucherGroup[],
+  settings: TallyExportSettings = DEFAULT_EXPORT_SETTINGS
+): string[] => {
+  const next = new Map<string, number>();
+  return groups.map(group => {
+    if (settings.numbering === "auto") return "";
+    if (settings.numbering === "invoice") return group.lines[0].invoiceNo;
+    const voucherType = voucherTypeFor(group, settings);
+    const n = next.get(voucherType) ?? settings.sequenceStart;
+    next.set(voucherType, n + 1);
+    return `${settings.sequencePrefix}${String(n).padStart(settings.sequencePadding, "0")}`;
+  });
+};
+
+export const sanitize = (str: string) => {
   if (!str) return "";
   return str.replace(/[<>&'"]/g, (c) => {
     switch (c) {
@@ -15,25 +342,18 @@ const sanitize = (str: string) => {
   });
 };
 
-const formatDateForTally = (dateStr: string) => {
-  const date = new Date(dateStr);
-  if (isNaN(date.getTime())) return "20240401"; // Default fallback
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, '0');
-  const d = String(date.getDate()).padStart(2, '0');
-  return `${y}${m}${d}`;
-};
+// Dates arrive already parsed to ISO by dateParser; unparsed rows never get here
+export const formatDateForTally = (isoDate: string) => isoDate.replace(/-/g, "");
 
-export const generateTallyXml = (
-  transactions: MarketplaceTransaction[],
-  ledgerOverrides: Record<string, string> = {}
-): string => {
-  const getLedgerName = (defaultName: string) => {
-    const customName = ledgerOverrides[defaultName];
-    return sanitize(customName && customName.trim() !== "" ? customName : defaultName);
-  };
+export const resolveLedgerName = (defaultName: string, ledgerOverrides: Record<string, string>) => {
+  const customName = ledgerOverrides[defaultName];
+  return sanitize(customName && customName.trim() !== "" ? customName : defaultName);
+};
 
-  let xml = `<?xml version="1.0"?>
+// The envelope either side of the TALLYMESSAGE blocks, so large exports can
+// be assembled as Blob parts instead of one string
+export const envelopeParts = (reportName: string, companyName: string = ""): [string, string] => [
+  `<?xml version="1.0"?>
 <ENVELOPE>
   <HEADER>
     <TALLYREQUEST>Import Data</TALLYREQUEST>
@@ -41,98 +361,205 @@ export const generateTallyXml = (
   <BODY>
     <IMPORTDATA>
       <REQUESTDESC>
-        <REPORTNAME>Vouchers</REPORTNAME>
+        <REPORTNAME>${reportName}</REPORTNAME>${companyName.trim() ? `
         <STATICVARIABLES>
-          <SVCURRENTCOMPANY>Ecommerce Sales</SVCURRENTCOMPANY>
-        </STATICVARIABLES>
+          <SVCURRENTCOMPANY>${sanitize(companyName.trim())}</SVCURRENTCOMPANY>
+        </STATICVARIABLES>` : ""}
       </REQUESTDESC>
-      <REQUESTDATA>`;
-
-  transactions.forEach((tx) => {
-    const voucherDate = formatDateForTally(tx.date);
-    const invoiceNo = sanitize(tx.invoiceNo);
-    const partyName = sanitize(tx.customerName || "Cash");
-    const stateName = sanitize(tx.state || "Maharashtra");
-    const productName = sanitize(tx.productName || "General Item");
-    const qty = tx.quantity || 1;
-    const taxableVal = tx.taxableValue.toFixed(2);
-    const igstVal = tx.igst.toFixed(2);
-    const cgstVal = tx.cgst.toFixed(2);
-    const sgstVal = tx.sgst.toFixed(2);
-    const totalVal = tx.totalAmount.toFixed(2);
-    const rate = tx.gstRate || 18;
-
-    // Resolve ledger names via overrides
-    const salesLedger = getLedgerName(`Sales @ ${rate}%`);
-    const igstLedger = getLedgerName(`Output IGST @ ${rate}%`);
-    const cgstLedger = getLedgerName(`Output CGST @ ${rate / 2}%`);
-    const sgstLedger = getLedgerName(`Output SGST @ ${rate / 2}%`);
-
-    xml += `
+      <REQUESTDATA>`,
+  `
+      </REQUESTDATA>
+    </IMPORTDATA>
+  </BODY>
+</ENVELOPE>`
+];
+
+export const wrapEnvelope = (reportName: string, messages: string, companyName: string = "") => {
+  const [head, tail] = envelopeParts(reportName, companyName);
+  return head + messages + tail;
+};
+
+const summaryNarration = ({ creditNote, lines, summary }: VoucherGroup) => {
+  const { invoiceCount, firstInvoice, lastInvoice } = summary!;
+  const head = lines[0];
+  const range = firstInvoice === lastInvoice ? firstInvoice : `${firstInvoice} to ${lastInvoice}`;
+  return sanitize(
+    `${head.marketplace || "B2C"} ${creditNote ? "returns" : "sales"} summary, ${head.state} @ ${head.gstRate || 18}%: ` +
+      `${invoiceCount} ${creditNote ? "credit notes" : "invoices"}${range ? ` (${range})` : ""}`
+  );
+};
+
+// A single voucher's TALLYMESSAGE block
+export const renderVoucherMessage = (
+  group: VoucherGroup,
+  ledgerOverrides: Record<string, string> = {},
+  settings: TallyExportSettings = DEFAULT_EXPORT_SETTINGS,
+  voucherNumber: string = ""
+): string => {
+  const { creditNote, lines, summary } = group;
+  const getLedgerName = (defaultName: string) => resolveLedgerName(defaultName, ledgerOverrides);
+
+  const parts: string[] = [];
+
+  const head = lines[0];
+  const voucherType = sanitize(voucherTypeFor(group, settings));
+  // Sales debit the party and credit income; credit notes do the reverse
+  const partyDeemed = creditNote ? "No" : "Yes";
+  const lineDeemed = creditNote ? "Yes" : "No";
+  const partyAmount = (v: string) => (creditNote ? v : `-${v}`);
+  const lineAmount = (v: string) => (creditNote ? `-${v}` : v);
+  const originalInvoiceNo = sanitize(head.originalInvoiceNo || head.invoiceNo);
+
+  const voucherDate = formatDateForTally(head.date);
+  const invoiceNo = sanitize(head.invoiceNo);
+  const b2b = isB2B(head);
+  const partyName = sanitize(resolveTransactionLedgers(head, settings).party);
+  const stateName = sanitize(head.state || "Maharashtra");
+  const totalVal = formatPaise(toPaise(sum(lines, tx => tx.totalAmount)));
+
+  // One sales line per sales ledger and one line per tax ledger; with the
+  // default names that is one set per GST rate, as on the GST invoice
+  const { sales, taxes } = voucherLedgerLines(lines, settings);
+
+  parts.push(`
         <TALLYMESSAGE xmlns:UDF="TallyUDF">
-          <VOUCHER VCHTYPE="Sales" ACTION="Create" OBJVIEW="Accounting Voucher View">
+          <VOUCHER VCHTYPE="${voucherType}" ACTION="Create" OBJVIEW="Accounting Voucher View">
             <DATE>${voucherDate}</DATE>
-            <VOUCHERTYPENAME>Sales</VOUCHERTYPENAME>
-            <REFERENCE>${invoiceNo}</REFERENCE>
-            <PARTYLEDGERNAME>${partyName}</PARTYLEDGERNAME>
+            <VOUCHERTYPENAME>${voucherType}</VOUCHERTYPENAME>${voucherNumber ? `
+            <VOUCHERNUMBER>${sanitize(voucherNumber)}</VOUCHERNUMBER>` : ""}
+            <REFERENCE>${creditNote ? originalInvoiceNo : invoiceNo}</REFERENCE>
+            <PARTYLEDGERNAME>${partyName}</PARTYLEDGERNAME>${b2b ? `
+            <PARTYGSTIN>${head.buyerGstin}</PARTYGSTIN>` : head.customerName ? `
+            <BASICBUYERNAME>${sanitize(head.customerName)}</BASICBUYERNAME>` : ""}
             <STATENAME>${stateName}</STATENAME>
             <FBTPAYMENTTYPE>Default</FBTPAYMENTTYPE>
-            <PERSISTEDVIEW>Accounting Voucher View</PERSISTEDVIEW>
+            <PERSISTEDVIEW>Accounting Voucher View</PERSISTEDVIEW>${summary ? `
+            <NARRATION>${summaryNarration(group)}</NARRATION>` : creditNote ? `
+            <NARRATION>Credit note ${invoiceNo} against invoice ${originalInvoiceNo}</NARRATION>` : ""}
             
-            <!-- Dr Party -->
+            <!-- ${creditNote ? "Cr" : "Dr"} Party -->
             <ALLLEDGERENTRIES.LIST>
               <LEDGERNAME>${partyName}</LEDGERNAME>
-              <ISDEEMEDPOSITIVE>Yes</ISDEEMEDPOSITIVE>
-              <AMOUNT>-${totalVal}</AMOUNT>
-            </ALLLEDGERENTRIES.LIST>
+              <ISDEEMEDPOSITIVE>${partyDeemed}</ISDEEMEDPOSITIVE>
+              <AMOUNT>${partyAmount(totalVal)}</AMOUNT>${creditNote && !summary ? `
+              <BILLALLOCATIONS.LIST>
+                <NAME>${originalInvoiceNo}</NAME>
+                <BILLTYPE>Agst Ref</BILLTYPE>
+                <AMOUNT>${totalVal}</AMOUNT>
+              </BILLALLOCATIONS.LIST>` : ""}
+            </ALLLEDGERENTRIES.LIST>`);
+
+  sales.forEach((salesLines, ledger) => {
+    // The ledger amount must equal its inventory allocations to the paisa
+    const taxableVal = formatPaise(salesLines.reduce((total, tx) => total + toPaise(tx.taxableValue), 0));
+    const salesLedger = getLedgerName(ledger);
+
+    parts.push(`
 
-            <!-- Cr Sales with Inventory -->
+            <!-- ${creditNote ? "Dr" : "Cr"} ${sanitize(ledger)} with Inventory -->
             <ALLLEDGERENTRIES.LIST>
               <LEDGERNAME>${salesLedger}</LEDGERNAME>
-              <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>
-              <AMOUNT>${taxableVal}</AMOUNT>
+              <ISDEEMEDPOSITIVE>${lineDeemed}</ISDEEMEDPOSITIVE>
+              <AMOUNT>${lineAmount(taxableVal)}</AMOUNT>`);
+
+    salesLines.forEach(tx => {
+      const item = resolveStockItem(tx, settings);
+      const unit = sanitize(item.unit);
+      const qty = tx.quantity || 1;
+      const amount = lineAmount(formatPaise(toPaise(tx.taxableValue)));
+      parts.push(`
               <INVENTORYENTRIES.LIST>
-                <STOCKITEMNAME>${productName}</STOCKITEMNAME>
-                <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>
+                <STOCKITEMNAME>${sanitize(item.name)}</STOCKITEMNAME>
+                <ISDEEMEDPOSITIVE>${lineDeemed}</ISDEEMEDPOSITIVE>
                 <RATE>${(tx.taxableValue / qty).toFixed(2)}</RATE>
-                <AMOUNT>${taxableVal}</AMOUNT>
-                <ACTUALQTY>${qty} Nos</ACTUALQTY>
-                <BILLEDQTY>${qty} Nos</BILLEDQTY>
-              </INVENTORYENTRIES.LIST>
-            </ALLLEDGERENTRIES.LIST>`;
-
-    if (tx.igst > 0) {
-      xml += `
-            <ALLLEDGERENTRIES.LIST>
-              <LEDGERNAME>${igstLedger}</LEDGERNAME>
-              <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>
-              <AMOUNT>${igstVal}</AMOUNT>
-            </ALLLEDGERENTRIES.LIST>`;
-    }
-    if (tx.cgst > 0) {
-      xml += `
+                <AMOUNT>${amount}</AMOUNT>
+                <ACTUALQTY>${qty} ${unit}</ACTUALQTY>
+                <BILLEDQTY>${qty} ${unit}</BILLEDQTY>${item.godown ? `
+                <BATCHALLOCATIONS.LIST>
+                  <GODOWNNAME>${sanitize(item.godown)}</GODOWNNAME>
+                  <BATCHNAME>Primary Batch</BATCHNAME>
+                  <AMOUNT>${amount}</AMOUNT>
+                  <ACTUALQTY>${qty} ${unit}</ACTUALQTY>
+                  <BILLEDQTY>${qty} ${unit}</BILLEDQTY>
+                </BATCHALLOCATIONS.LIST>` : ""}
+              </INVENTORYENTRIES.LIST>`);
+    });
+
+    parts.push(`
+            </ALLLEDGERENTRIES.LIST>`);
+  });
+
+  // Every line voucherDifference counts is written, so Round Off balances what
+  // Tally sees. A negative tax (a correction netted in) flips to the party's side.
+  taxes.forEach((amount, ledger) => {
+    const paise = creditNote ? -toPaise(amount) : toPaise(amount);
+    if (paise === 0) return;
+    parts.push(`
             <ALLLEDGERENTRIES.LIST>
-              <LEDGERNAME>${cgstLedger}</LEDGERNAME>
-              <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>
-              <AMOUNT>${cgstVal}</AMOUNT>
-            </ALLLEDGERENTRIES.LIST>
+              <LEDGERNAME>${getLedgerName(ledger)}</LEDGERNAME>
+              <ISDEEMEDPOSITIVE>${paise < 0 ? "Yes" : "No"}</ISDEEMEDPOSITIVE>
+              <AMOUNT>${formatPaise(paise)}</AMOUNT>
+            </ALLLEDGERENTRIES.LIST>`);
+  });
+
+  // Whatever the marketplace total is off by after rounding goes to Round Off,
+  // on the sales side when the party pays more and the opposite side when less
+  const difference = voucherDifference(lines, settings);
+  if (difference !== 0) {
+    const roundOff = creditNote ? -difference : difference;
+    parts.push(`
             <ALLLEDGERENTRIES.LIST>
-              <LEDGERNAME>${sgstLedger}</LEDGERNAME>
-              <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>
-              <AMOUNT>${sgstVal}</AMOUNT>
-            </ALLLEDGERENTRIES.LIST>`;
-    }
+              <LEDGERNAME>${getLedgerName(settings.roundOffLedger || "Round Off")}</LEDGERNAME>
+              <ISDEEMEDPOSITIVE>${roundOff < 0 ? "Yes" : "No"}</ISDEEMEDPOSITIVE>
+              <AMOUNT>${formatPaise(roundOff)}</AMOUNT>
+            </ALLLEDGERENTRIES.LIST>`);
+  }
 
-    xml += `
+  parts.push(`
           </VOUCHER>
-        </TALLYMESSAGE>`;
+        </TALLYMESSAGE>`);
+
+  return parts.join("");
+};
+
+// Vouchers reported to onProgress in batches of this many
+const PROGRESS_BATCH = 500;
+
+// One TALLYMESSAGE block per voucher, without the envelope
+export const voucherMessageParts = (
+  transactions: MarketplaceTransaction[],
+  ledgerOverrides: Record<string, string> = {},
+  options: TallyXmlOptions = {},
+  onProgress?: (done: number, total: number) => void
+): string[] => {
+  const settings = options.exportSettings || DEFAULT_EXPORT_SETTINGS;
+  const groups = tallyVouchers(transactions, options);
+  const numbers = assignVoucherNumbers(groups, settings);
+  return groups.map((group, idx) => {
+    if (onProgress && idx % PROGRESS_BATCH === 0) onProgress(idx, groups.length);
+    return renderVoucherMessage(group, ledgerOverrides, settings, numbers[idx]);
   });
+};
 
-  xml += `
-      </REQUESTDATA>
-    </IMPORTDATA>
-  </BODY>
-</ENVELOPE>`;
+export const buildVoucherMessages = (
+  transactions: MarketplaceTransaction[],
+  ledgerOverrides: Record<string, string> = {},
+  options: TallyXmlOptions = {}
+): string => voucherMessageParts(transactions, ledgerOverrides, options).join("");
 
-  return xml;
+// The export as Blob parts; joined, they are exactly generateTallyXml's output
+export const generateTallyXmlParts = (
+  transactions: MarketplaceTransaction[],
+  ledgerOverrides: Record<string, string> = {},
+  options: TallyXmlOptions = {},
+  onProgress?: (done: number, total: number) => void
+): string[] => {
+  const [head, tail] = envelopeParts("Vouchers", options.exportSettings?.companyName);
+  return [head, ...voucherMessageParts(transactions, ledgerOverrides, options, onProgress), tail];
 };
+
+export const generateTallyXml = (
+  transactions: MarketplaceTransaction[],
+  ledgerOverrides: Record<string, string> = {},
+  options: TallyXmlOptions = {}
+): string => generateTallyXmlParts(transactions, ledgerOverrides, options).join("");
@@ -0,0 +1,70 @@
+
+import { CancelHandling, MarketplaceTransaction, TaxValidationSettings } from "../types";
+import { isValidGstin, normalizeGstin, stateCodeFor } from "./gstin";
+import { isExported } from "./tallyXmlGenerator";
+
+export const sellerStateCode = (settings: TaxValidationSettings) => {
+  const gstin = normalizeGstin(settings.sellerGstin);
+  return isValidGstin(gstin) ? gstin.slice(0, 2) : stateCodeFor(settings.sellerState);
+};
+
+const rupees = (value: number) => `₹${value.toFixed(2)}`;
+
+// Problems with one row's tax split, as messages for the review table. The
+// intra/inter-state check needs both the seller's and the row's state.
+export const validateTransactionTax = (
+  tx: MarketplaceTransaction,
+  settings: TaxValidationSettings,
+  homeState: string = sellerStateCode(settings)
+): string[] => {
+  const issues: string[] = [];
+  const tolerance = settings.tolerance;
+  const localTax = tx.cgst + tx.sgst;
+  const totalTax = tx.igst + localTax;
+  const supplyState = stateCodeFor(tx.state);
+
+  if (homeState && supplyState) {
+    if (homeState === supplyState) {
+      if (tx.igst > tolerance) {
+        issues.push(`Intra-state sale (${tx.state}) carries IGST ${rupees(tx.igst)}; expected CGST + SGST.`);
+      }
+      if (Math.abs(tx.cgst - tx.sgst) > tolerance) {
+        issues.push(`CGST ${rupees(tx.cgst)} and SGST ${rupees(tx.sgst)} should be equal.`);
+      }
+    } else if (localTax > tolerance) {
+      issues.push(`Inter-state sale (${tx.state}) carries CGST + SGST ${rupees(localTax)}; expected IGST.`);
+    }
+  } else if (tx.state && !supplyState) {
+    issues.push(`Place of supply "${tx.state}" is not a recognised state.`);
+  }
+
+  if (tx.gstRate > 0) {
+    const expectedTax = (tx.taxableValue * tx.gstRate) / 100;
+    if (Math.abs(expectedTax - totalTax) > tolerance) {
+      issues.push(`Tax ${rupees(totalTax)} doesn't match ${tx.gstRate}% of ${rupees(tx.taxableValue)} (${rupees(expectedTax)}).`);
+    }
+  }
+
+  const expectedTotal = tx.taxableValue + totalTax;
+  if (Math.abs(expectedTotal - tx.totalAmount) > tolerance) {
+    issues.push(`Total ${rupees(tx.totalAmount)} doesn't equal taxable value plus tax (${rupees(expectedTotal)}).`);
+  }
+
+  return issues;
+};
+
+// Row index -> messages for every exported row that fails a check
+export const validateTransactions = (
+  transactions: MarketplaceTransaction[],
+  settings: TaxValidationSettings,
+  cancelHandling: CancelHandling = "skip"
+): Record<number, string[]> => {
+  const homeState = sellerStateCode(settings);
+  const issues: Record<number, string[]> = {};
+  transactions.forEach((tx, idx) => {
+    if (!isExported(tx, cancelHandling)) return;
+    const rowIssues = validateTransactionTax(tx, settings, homeState);
+    if (rowIssues.length > 0) issues[idx] = rowIssues;
+  });
+  return issues;
+};
@@ -0,0 +1,25 @@
+
+import { SignConvention, TransactionType } from "../types";
+
+const REFUND_PATTERN = /refund|return|credit\s*note|rto|chargeback/i;
+const CANCEL_PATTERN = /cancel|void/i;
+
+// Maps a report's own type label (Amazon "Refund", Flipkart "Return") to a
+// voucher kind; the layout's typeLabels take precedence over the patterns.
+// Without a label, signed reports mark returns through negative amounts.
+export const classifyTransactionType = (
+  rawType: string,
+  totalAmount: number,
+  signConvention: SignConvention = "signed",
+  typeLabels?: Record<string, TransactionType>
+): TransactionType => {
+  if (rawType) {
+    const labelled = typeLabels?.[rawType.trim().toLowerCase()];
+    if (labelled) return labelled;
+    if (CANCEL_PATTERN.test(rawType)) return "Cancel";
+    if (REFUND_PATTERN.test(rawType)) return "Refund";
+    return "Sale";
+  }
+  if (signConvention === "signed" && totalAmount < 0) return "Refund";
+  return "Sale";
+};
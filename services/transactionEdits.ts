@@ -0,0 +1,120 @@
+
+import { EditableField, MarketplaceTransaction, TransactionEdit, TransactionEdits } from "../types";
+import { normalizeGstin } from "./gstin";
+
+// Corrections made in the review step are kept as a diff against the rows as
+// parsed, so the report's own value is always at hand and any edit can be
+// reverted without reading the file again.
+
+export const EDITABLE_FIELDS: { field: EditableField; label: string }[] = [
+  { field: "date", label: "Date" },
+  { field: "invoiceNo", label: "Invoice no." },
+  { field: "customerName", label: "Customer" },
+  { field: "buyerGstin", label: "Buyer GSTIN" },
+  { field: "state", label: "State" },
+  { field: "productName", label: "Product" },
+  { field: "hsn", label: "HSN" },
+  { field: "quantity", label: "Quantity" },
+  { field: "gstRate", label: "GST rate" },
+  { field: "taxableValue", label: "Taxable value" },
+  { field: "igst", label: "IGST" },
+  { field: "cgst", label: "CGST" },
+  { field: "sgst", label: "SGST" },
+  { field: "totalAmount", label: "Total" }
+];
+
+export interface FieldChange {
+  field: EditableField;
+  label: string;
+  from: string | number;
+  to: string | number;
+}
+
+const NUMERIC_FIELDS: EditableField[] = ["quantity", "gstRate", "taxableValue", "igst", "cgst", "sgst", "totalAmount"];
+
+export const isNumericField = (field: EditableField) => NUMERIC_FIELDS.includes(field);
+
+// Reads what was typed into a cell; null when it can't be used for that field
+export const parseFieldValue = (field: EditableField, text: string): string | number | null => {
+  const value = text.trim();
+  if (isNumericField(field)) {
+    const amount = Number(value.replace(/[₹,\s]/g, ""));
+    return value !== "" && Number.isFinite(amount) && amount >= 0 ? amount : null;
+  }
+  if (field === "date") return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) ? value : null;
+  if (field === "buyerGstin") return normalizeGstin(value);
+  return value;
+};
+
+// Unedited rows come back as the same objects, so lookups by identity keep working
+export const applyTransactionEdits = (parsed: MarketplaceTransaction[], edits: TransactionEdits): MarketplaceTransaction[] =>
+  parsed.map((tx, idx) => {
+    const changes = edits[idx]?.changes;
+    return changes && Object.keys(changes).length > 0 ? { ...tx, ...changes } : tx;
+  });
+
+export const isExcluded = (edits: TransactionEdits, index: number) => edits[index]?.excluded === true;
+
+export const includedTransactions = (transactions: MarketplaceTransaction[], edits: TransactionEdits) =>
+  transactions.filter((_, idx) => !isExcluded(edits, idx));
+
+// Rows with nothing left to record drop out, so the edit count stays honest
+const setEdit = (edits: TransactionEdits, index: number, edit: TransactionEdit) => {
+  if (Object.keys(edit.changes).length > 0 || edit.excluded) edits[index] = edit;
+  else delete edits[index];
+};
+
+// Sets one field on each row; a row whose parsed value already matches loses
+// its change to that field instead of recording a no-op
+export const editTransactions = <F extends EditableField>(
+  edits: TransactionEdits,
+  parsed: MarketplaceTransaction[],
+  indices: number[],
+  field: F,
+  value: MarketplaceTransaction[F]
+): TransactionEdits => {
+  const next = { ...edits };
+  indices.forEach(index => {
+    const current = next[index] || { changes: {}, excluded: false };
+    const changes = { ...current.changes };
+    if (parsed[index][field] === value) delete changes[field];
+    else changes[field] = value;
+    setEdit(next, index, { ...current, changes });
+  });
+  return next;
+};
+
+export const setExcluded = (edits: TransactionEdits, indices: number[], excluded: boolean): TransactionEdits => {
+  const next = { ...edits };
+  indices.forEach(index => setEdit(next, index, { changes: next[index]?.changes || {}, excluded }));
+  return next;
+};
+
+// Drops the field changes but keeps rows excluded; include them again separately
+export const revertTransactions = (edits: TransactionEdits, indices: number[]): TransactionEdits => {
+  const next = { ...edits };
+  indices.forEach(index => setEdit(next, index, { changes: {}, excluded: isExcluded(next, index) }));
+  return next;
+};
+
+export const transactionChanges = (
+  parsed: MarketplaceTransaction[],
+  edits: TransactionEdits,
+  index: number
+): FieldChange[] => {
+  const changes = edits[index]?.changes || {};
+  return EDITABLE_FIELDS.filter(({ field }) => field in changes).map(({ field, label }) => ({
+    field,
+    label,
+    from: parsed[index][field],
+    to: changes[field]!
+  }));
+};
+
+export const countEdits = (edits: TransactionEdits) => {
+  const entries = Object.values(edits);
+  return {
+    edited: entries.filter(e => Object.keys(e.changes).length > 0).length,
+    excluded: entries.filter(e => e.excluded).length
+  };
+};
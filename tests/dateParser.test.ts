@@ -0,0 +1,73 @@
+
+import { describe, expect, it } from "vitest";
+import { convertReports } from "../services/conversionPipeline";
+import { detectDateFormat, EXCEL_SERIAL_FORMAT, parseDate, resolveDateFormat, toIsoDate } from "../services/dateParser";
+import { loadFixtures, TEST_EXPORT_SETTINGS } from "./helpers";
+
+const iso = (value: string, format: string) => {
+  const parsed = parseDate(value, format);
+  return parsed ? toIsoDate(parsed) : null;
+};
+
+describe("parseDate", () => {
+  it("reads single-digit days and months", () => {
+    expect(iso("5/7/2024", "dd/MM/yyyy")).toBe("2024-07-05");
+  });
+
+  it("ignores surrounding spaces and a trailing time", () => {
+    expect(iso("  01/08/2024 ", "dd/MM/yyyy")).toBe("2024-08-01");
+    expect(iso("03-07-2024 11:42:10", "dd-MM-yyyy HH:mm:ss")).toBe("2024-07-03");
+  });
+
+  it("moves UTC timestamps to the Indian date", () => {
+    expect(iso("2024-07-05T20:00:00Z", "yyyy-MM-dd")).toBe("2024-07-06");
+    expect(iso("2024-07-05T20:00:00+05:30", "yyyy-MM-dd")).toBe("2024-07-05");
+  });
+
+  it("reads month names and two-digit years", () => {
+    expect(iso("05-Jul-24", "dd-MMM-yy")).toBe("2024-07-05");
+    expect(iso("Jul 05, 2024", "MMM dd, yyyy")).toBe("2024-07-05");
+  });
+
+  it("reads Excel serial day numbers", () => {
+    expect(iso("45478", EXCEL_SERIAL_FORMAT)).toBe("2024-07-05");
+  });
+
+  it("refuses impossible or unrelated values instead of guessing", () => {
+    expect(parseDate("31/02/2024", "dd/MM/yyyy")).toBeNull();
+    expect(parseDate("TBD", "dd/MM/yyyy")).toBeNull();
+    expect(parseDate("1234", EXCEL_SERIAL_FORMAT)).toBeNull();
+  });
+});
+
+describe("detectDateFormat", () => {
+  it("prefers day-first when both readings work", () => {
+    expect(detectDateFormat(["05/07/2024", "06/07/2024"])).toBe("dd/MM/yyyy");
+  });
+
+  it("falls back to month-first when a day-first reading is impossible", () => {
+    expect(detectDateFormat(["07/05/2024", "07/31/2024"])).toBe("MM/dd/yyyy");
+  });
+
+  it("gives up when any sample fits no format", () => {
+    expect(detectDateFormat(["05/07/2024", "TBD"])).toBeNull();
+  });
+});
+
+describe("resolveDateFormat", () => {
+  it("takes an explicit format over the profile and detection", () => {
+    expect(resolveDateFormat(["05/07/2024"], "MM/dd/yyyy", "dd/MM/yyyy")).toBe("MM/dd/yyyy");
+    expect(resolveDateFormat(["05/07/2024"], "", "dd/MM/yyyy")).toBe("dd/MM/yyyy");
+  });
+});
+
+describe("Excel serial dates", () => {
+  it("reads the date cells of an uploaded workbook, times and all", async () => {
+    const { transactions, report } = convertReports(await loadFixtures("flipkart-sales.xlsx"), { exportSettings: TEST_EXPORT_SETTINGS });
+
+    expect(report.files[0].dateFormat).toBe(EXCEL_SERIAL_FORMAT);
+    // Local times from the workbook; 23:50 on 5 April stays on the 5th
+    expect(transactions.map(tx => tx.date)).toEqual(["2024-04-01", "2024-04-05", "2024-04-09", "2024-04-18", "2024-04-12"]);
+    expect(report.heldBack).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { convertReports } from "../services/conversionPipeline";
+import { duplicateResolution, findDuplicateRows, resolveDuplicates } from "../services/duplicateDetector";
+import {
+  exportedInvoiceCount,
+  findPreviouslyExported,
+  LEDGER_MONTHS_KEPT,
+  loadExportLedger,
+  recordExportedVouchers,
+  saveExportLedger
+} from "../services/exportLedger";
+import { exportableVouchers, tallyVouchers } from "../services/tallyXmlGenerator";
+import {
+  applyTransactionEdits,
+  editTransactions,
+  includedTransactions,
+  isExcluded,
+  revertTransactions,
+  setExcluded
+} from "../services/transactionEdits";
+import { loadFixtures, TEST_EXPORT_SETTINGS } from "./helpers";
+
+// The same Flipkart report uploaded twice: every line appears in both copies
+const twiceUploaded = async () => {
+  const files = await loadFixtures("flipkart-sales.csv", "flipkart-sales.csv");
+  return convertReports([files[0], { ...files[1], name: "flipkart-sales (1).csv" }], { exportSettings: TEST_EXPORT_SETTINGS });
+};
+
+describe("duplicate lines", () => {
+  it("pairs each line with its copy from the second file", async () => {
+    const { transactions } = await twiceUploaded();
+    const groups = findDuplicateRows(transactions);
+
+    expect(groups).toHaveLength(5);
+    expect(groups[0]).toMatchObject({ invoiceNo: "FAAB2400001", totalAmount: 500, rows: [0, 5] });
+  });
+
+  it("tells a second sale of the same item apart by its amount", async () => {
+    const { transactions } = await twiceUploaded();
+    const rows = [transactions[0], { ...transactions[5], totalAmount: 250 }];
+
+    expect(findDuplicateRows(rows)).toEqual([]);
+    expect(findDuplicateRows([{ ...rows[0], invoiceNo: "" }, { ...rows[0], invoiceNo: "" }])).toEqual([]);
+  });
+
+  it("merges copies into the first line and drops the rest", async () => {
+    const { transactions: parsed } = await twiceUploaded();
+    const groups = findDuplicateRows(parsed);
+    const edits = resolveDuplicates({}, parsed, groups, "merge");
+    const included = includedTransactions(applyTransactionEdits(parsed, edits), edits);
+
+    expect(included).toHaveLength(5);
+    expect(included[2]).toMatchObject({ invoiceNo: "FAAB2400003", quantity: 4, taxableValue: 1694.92, totalAmount: 1898.32 });
+    expect(groups.every(group => duplicateResolution(edits, group) === "merge")).toBe(true);
+  });
+
+  it("drops copies, and reads a revert back as keeping them", async () => {
+    const { transactions: parsed } = await twiceUploaded();
+    const groups = findDuplicateRows(parsed);
+    const merged = resolveDuplicates({}, parsed, groups, "merge");
+    const dropped = resolveDuplicates(merged, parsed, groups, "drop");
+
+    expect(applyTransactionEdits(parsed, dropped).slice(0, 5)).toEqual(parsed.slice(0, 5));
+    expect(duplicateResolution(dropped, groups[0])).toBe("drop");
+    expect(duplicateResolution(resolveDuplicates(dropped, parsed, groups, "keep"), groups[0])).toBe("keep");
+    expect(duplicateResolution(revertTransactions(merged, [0]), groups[0])).toBe("drop");
+  });
+
+  it("leaves corrections and exclusions made by hand alone", async () => {
+    const { transactions: parsed } = await twiceUploaded();
+    const groups = findDuplicateRows(parsed);
+    const [first, copy] = groups[0].rows;
+    const corrected = setExcluded(editTransactions({}, parsed, [first], "totalAmount", 510), [groups[1].rows[1]], true);
+
+    const dropped = resolveDuplicates(corrected, parsed, groups, "drop");
+    expect(dropped[first].changes).toEqual({ totalAmount: 510 });
+    expect(isExcluded(dropped, copy)).toBe(true);
+
+    const kept = resolveDuplicates(corrected, parsed, groups, "keep");
+    expect(kept[first].changes).toEqual({ totalAmount: 510 });
+    expect(isExcluded(kept, groups[1].rows[1])).toBe(true);
+
+    // Dropping after a merge takes back the merged figures, not the rest
+    const merged = resolveDuplicates(editTransactions({}, parsed, [first], "customerName", "Asha"), parsed, groups, "merge");
+    expect(resolveDuplicates(merged, parsed, groups, "drop")[first].changes).toEqual({ customerName: "Asha" });
+  });
+
+  it("warns in the run report and exports each line once when asked", async () => {
+    const files = await loadFixtures("flipkart-sales.csv", "flipkart-sales.csv");
+    const single = convertReports(files.slice(0, 1), { exportSettings: TEST_EXPORT_SETTINGS });
+    const kept = convertReports(files, { exportSettings: TEST_EXPORT_SETTINGS });
+    const dropped = convertReports(files, { exportSettings: TEST_EXPORT_SETTINGS, duplicates: "drop" });
+
+    expect(kept.report.warnings.some(w => w.startsWith("5 invoice line(s) appear more than once, all exported"))).toBe(true);
+    expect(kept.xml).not.toBe(single.xml);
+    expect(dropped.report.warnings.some(w => w.includes("exported once: FAAB2400001"))).toBe(true);
+    expect(dropped.xml).toBe(single.xml);
+  });
+});
+
+describe("export ledger", () => {
+  it("finds invoices exported before, keeping invoices and credit notes apart", async () => {
+    const { transactions } = convertReports(await loadFixtures("flipkart-sales.csv"), { exportSettings: TEST_EXPORT_SETTINGS });
+    const groups = exportableVouchers(transactions);
+    const ledger = recordExportedVouchers({}, groups.slice(0, 2), "2024-08-01T10:00:00.000Z");
+
+    const found = findPreviouslyExported(ledger, groups);
+    expect(found.map(({ group }) => group)).toEqual(groups.slice(0, 2));
+    expect(found[0].previous).toEqual({ invoiceNo: "FAAB2400001", creditNote: false, month: "2024-07", exportedAt: "2024-08-01T10:00:00.000Z" });
+    expect(findPreviouslyExported(ledger, groups.map(group => ({ ...group, creditNote: !group.creditNote })))).toEqual([]);
+  });
+
+  it("records each invoice rolled into a B2C summary voucher", async () => {
+    const exportSettings = { ...TEST_EXPORT_SETTINGS, b2cConsolidation: "monthly" as const };
+    const { transactions } = convertReports(await loadFixtures("flipkart-sales.csv"), { exportSettings });
+    const ledger = recordExportedVouchers({}, tallyVouchers(transactions, { exportSettings }));
+
+    expect(findPreviouslyExported(ledger, exportableVouchers(transactions, { exportSettings }))).toHaveLength(
+      exportableVouchers(transactions, { exportSettings }).length
+    );
+  });
+
+  it("keeps invoice numbers per month and forgets the oldest months", async () => {
+    const { transactions } = convertReports(await loadFixtures("flipkart-sales.csv"), { exportSettings: TEST_EXPORT_SETTINGS });
+    const groups = exportableVouchers(transactions);
+    const ledger = recordExportedVouchers({}, groups, "2024-08-01T10:00:00.000Z");
+
+    expect(Object.keys(ledger)).toEqual(["2024-07"]);
+    expect(exportedInvoiceCount(ledger)).toBe(groups.length);
+    // Exporting the same invoices again adds nothing
+    expect(exportedInvoiceCount(recordExportedVouchers(ledger, groups))).toBe(groups.length);
+
+    // One invoice in each of the next LEDGER_MONTHS_KEPT months, from January 2025
+    const later = Array.from({ length: LEDGER_MONTHS_KEPT }, (_, i) => ({
+      ...groups[0],
+      lines: groups[0].lines.map(tx => ({ ...tx, date: `${2025 + Math.floor(i / 12)}-${String(1 + (i % 12)).padStart(2, "0")}-01`, invoiceNo: `LATER${i}` }))
+    }));
+    const pruned = recordExportedVouchers(ledger, later);
+    expect(Object.keys(pruned)).toHaveLength(LEDGER_MONTHS_KEPT);
+    expect(pruned["2024-07"]).toBeUndefined();
+  });
+});
+
+describe("stored export ledger", () => {
+  const storage = (setItem: (key: string, value: string) => void = () => {}) => {
+    const items = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        setItem(key, value);
+        items.set(key, value);
+      },
+      removeItem: (key: string) => items.delete(key)
+    });
+    return items;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reads a per-invoice ledger from before the monthly layout and stores it compactly", () => {
+    const items = storage();
+    items.set("tallybridge.exportedInvoices.c1", JSON.stringify({
+      "SI|A1": { invoiceNo: "A1", creditNote: false, date: "2024-07-02", exportedAt: "2024-08-01T10:00:00.000Z" },
+      "CN|A1": { invoiceNo: "A1", creditNote: true, date: "2024-07-09", exportedAt: "2024-08-02T10:00:00.000Z" }
+    }));
+
+    const ledger = loadExportLedger("c1");
+    expect(ledger).toEqual({ "2024-07": { invoices: ["A1"], creditNotes: ["A1"], exportedAt: "2024-08-02T10:00:00.000Z" } });
+    expect(JSON.parse(items.get("tallybridge.exportedInvoices.c1")!)).toEqual(ledger);
+  });
+
+  it("says so instead of throwing when the browser's storage is full", () => {
+    storage(() => {
+      throw new DOMException("The quota has been exceeded.", "QuotaExceededError");
+    });
+
+    expect(saveExportLedger("c1", { "2024-07": { invoices: ["A1"], creditNotes: [], exportedAt: "" } })).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { createEmptyMapping } from "../services/columnMapping";
+import { convertReports, ConversionOptions } from "../services/conversionPipeline";
+import { ReportFile } from "../services/reportFiles";
+import { GOLDEN_DIR, ledgerTotal, loadFixtures, TEST_EXPORT_SETTINGS, TEST_TAX_VALIDATION, voucherBlocks } from "./helpers";
+
+// Fixture reports run through the whole pipeline and compared with checked-in
+// Tally XML. After an intended change to the output, review the diff and
+// refresh the goldens with `npm run test:update`.
+
+const ODD_DATES_MAPPING = {
+  ...createEmptyMapping(),
+  date: "Bill Date",
+  invoiceNo: "Bill No",
+  customerName: "Party",
+  state: "Place",
+  taxableValue: "Taxable",
+  igst: "IGST",
+  cgst: "CGST",
+  sgst: "SGST",
+  totalAmount: "Bill Total",
+  gstRate: "Rate",
+  productName: "Item",
+  quantity: "Qty"
+};
+
+const convert = (files: ReportFile[], options: ConversionOptions = {}) =>
+  convertReports(files, {
+    exportSettings: TEST_EXPORT_SETTINGS,
+    taxValidation: TEST_TAX_VALIDATION,
+    ...options
+  });
+
+const golden = (name: string) => path.join(GOLDEN_DIR, name);
+
+describe("golden Tally XML", () => {
+  it("converts an Amazon MTR with B2B, multi-line, inter-state and refund rows", async () => {
+    const { xml, report } = convert(await loadFixtures("amazon-mtr-b2b.csv"));
+
+    expect(report.mappingSource).toBe('Report profile "Amazon MTR (B2B)"');
+    expect(report.errors).toEqual([]);
+    // Six rows: one two-line invoice, two single invoices, one refund, one skipped cancel
+    expect(report.rowCount).toBe(6);
+    expect(report.invoiceCount).toBe(4);
+    await expect(xml).toMatchFileSnapshot(golden("amazon-mtr-b2b.xml"));
+  });
+
+  it("writes masters ahead of the vouchers when asked", async () => {
+    const { xml } = convert(await loadFixtures("amazon-mtr-b2b.csv"), { includeMasters: true, cancelHandling: "reverse" });
+
+    await expect(xml).toMatchFileSnapshot(golden("amazon-mtr-b2b.masters.xml"));
+  });
+
+  it("converts a Flipkart sales report with intra- and inter-state sales and a return", async () => {
+    const { xml, report } = convert(await loadFixtures("flipkart-sales.csv"));
+
+    expect(report.files[0].marketplace).toBe("Flipkart");
+    expect(report.errors).toEqual([]);
+    await expect(xml).toMatchFileSnapshot(golden("flipkart-sales.xml"));
+  });
+
+  it("summarises B2C sales into monthly vouchers", async () => {
+    const { xml, report } = convert(await loadFixtures("flipkart-sales.csv"), {
+      exportSettings: { ...TEST_EXPORT_SETTINGS, b2cConsolidation: "monthly" }
+    });
+
+    expect(report.voucherCount).toBeLessThan(report.invoiceCount);
+    await expect(xml).toMatchFileSnapshot(golden("flipkart-sales.monthly.xml"));
+  });
+
+  it("splits a Shopify order export's single tax column by place of supply", async () => {
+    const { xml, report, transactions } = convert(await loadFixtures("shopify-orders.csv"));
+
+    expect(report.errors).toEqual([]);
+    expect(report.heldBack).toEqual([]);
+    // #1002 ships within Maharashtra, the seller's state; the rest are inter-state
+    expect(transactions.map(({ igst, cgst, sgst }) => [igst, cgst, sgst])).toEqual([
+      [180, 0, 0], [0, 45, 45], [360, 0, 0], [90, 0, 0]
+    ]);
+    expect(report.voucherCount).toBe(3);
+    await expect(xml).toMatchFileSnapshot(golden("shopify-orders.xml"));
+  });
+
+  it("converts a Meesho GST report with its one tax column and a return", async () => {
+    const { xml, report } = convert(await loadFixtures("meesho-gst.csv"));
+
+    expect(report.files[0].marketplace).toBe("Meesho");
+    expect(report.errors).toEqual([]);
+    expect(report.taxIssues).toEqual([]);
+    expect(report.voucherCount).toBe(4);
+    voucherBlocks(xml!).forEach(voucher => expect(ledgerTotal(voucher)).toBe(0));
+    await expect(xml).toMatchFileSnapshot(golden("meesho-gst.xml"));
+  });
+
+  it("holds back rows whose dates can't be read and rounds off small differences", async () => {
+    const [file] = await loadFixtures("odd-dates.csv");
+    const { xml, report } = convert([{ ...file, dateFormat: "dd/MM/yyyy" }], { mapping: ODD_DATES_MAPPING });
+
+    expect(report.heldBack).toEqual([
+      { invoiceNo: "OD-4", reason: 'Voucher OD-4: date "TBD" could not be read, so the voucher is not exported.' }
+    ]);
+    expect(xml).toContain("<LEDGERNAME>Round Off</LEDGERNAME>");
+    await expect(xml).toMatchFileSnapshot(golden("odd-dates.xml"));
+    await expect(JSON.stringify(report, null, 2)).toMatchFileSnapshot(golden("odd-dates.report.json"));
+  });
+
+  it("reports a file no date format fits instead of guessing", async () => {
+    const { report } = convert(await loadFixtures("odd-dates.csv"), { mapping: ODD_DATES_MAPPING });
+
+    expect(report.files[0].dateFormat).toBeNull();
+    expect(report.warnings.some(w => w.includes("no known date format fits odd-dates.csv"))).toBe(true);
+    expect(report.heldBack).toHaveLength(5);
+  });
+
+  it("balances every voucher in every golden", async () => {
+    const files = await loadFixtures("amazon-mtr-b2b.csv", "flipkart-sales.csv");
+    const { xml } = convert(files, { cancelHandling: "reverse" });
+
+    const vouchers = voucherBlocks(xml!);
+    expect(vouchers.length).toBeGreaterThan(0);
+    vouchers.forEach(voucher => expect(ledgerTotal(voucher)).toBe(0));
+  });
+});
+
+describe("run report", () => {
+  it("maps each layout in a folder mixing Amazon and Flipkart reports on its own", async () => {
+    const files = await loadFixtures("amazon-mtr-b2b.csv", "flipkart-sales.csv");
+    const { xml, report } = convert(files);
+    const single = [convert(files.slice(0, 1)), convert(files.slice(1))];
+
+    expect(report.errors).toEqual([]);
+    expect(report.heldBack).toEqual([]);
+    expect(report.layouts.map(({ files: names, source }) => ({ names, source }))).toEqual([
+      { names: ["amazon-mtr-b2b.csv"], source: 'Report profile "Amazon MTR (B2B)"' },
+      { names: ["flipkart-sales.csv"], source: 'Report profile "Flipkart Sales Report"' }
+    ]);
+    expect(report.files.map(file => file.marketplace)).toEqual(["Amazon", "Flipkart"]);
+    expect(report.voucherCount).toBe(single[0].report.voucherCount + single[1].report.voucherCount);
+    expect(voucherBlocks(xml!)).toEqual([...voucherBlocks(single[0].xml!), ...voucherBlocks(single[1].xml!)]);
+  });
+
+  it("names the files a given mapping doesn't fit", async () => {
+    const files = await loadFixtures("amazon-mtr-b2b.csv", "flipkart-sales.csv");
+    const { xml, report } = convert(files, { mapping: convert(files.slice(0, 1)).report.mapping });
+
+    expect(xml).toBeNull();
+    expect(report.errors).toContain(
+      'invoiceNo: "Invoice Number" is not a column in flipkart-sales.csv, which has a different layout. Upload it separately.'
+    );
+  });
+
+  it("stops before writing XML when tax validation blocks the export", async () => {
+    const { xml, report } = convert(await loadFixtures("amazon-mtr-b2b.csv"), {
+      taxValidation: { ...TEST_TAX_VALIDATION, sellerState: "Karnataka", sellerGstin: "", mode: "block" }
+    });
+
+    expect(xml).toBeNull();
+    expect(report.taxIssues.length).toBeGreaterThan(0);
+    expect(report.taxIssues[0]).toMatchObject({ file: "amazon-mtr-b2b.csv", row: 1, invoiceNo: "MH-2024-001" });
+    expect(report.errors.at(-1)).toMatch(/Export is blocked/);
+  });
+
+  it("refuses a mapping without the required fields", async () => {
+    const { xml, report } = convert(await loadFixtures("odd-dates.csv"), {
+      mapping: { ...ODD_DATES_MAPPING, invoiceNo: "" }
+    });
+
+    expect(xml).toBeNull();
+    expect(report.errors).toContain("invoiceNo: This field is required for Tally import.");
+  });
+
+  it("warns when no tax column is mapped instead of reading every row as tax-free", async () => {
+    const { report } = convert(await loadFixtures("odd-dates.csv"), {
+      mapping: { ...ODD_DATES_MAPPING, igst: "", cgst: "", sgst: "" }
+    });
+
+    expect(report.warnings).toContain(
+      "igst: No IGST, CGST or SGST column is mapped, so every row is read with no tax and won't balance against its total."
+    );
+  });
+});
@@ -0,0 +1,31 @@
+
+import { describe, expect, it } from "vitest";
+import { MarketplaceTransaction } from "../types";
+import { buildGstr1 } from "../services/gstr1Generator";
+import { TEST_EXPORT_SETTINGS, TEST_TAX_VALIDATION } from "./helpers";
+
+// ₹1.5 lakh inter-state sale to an unregistered buyer (seller in Maharashtra)
+const sale = (invoiceNo: string, date: string): MarketplaceTransaction => ({
+  date, rawDate: date, invoiceNo, customerName: "", state: "Karnataka", taxableValue: 127118.64, igst: 22881.36,
+  cgst: 0, sgst: 0, totalAmount: 150000, gstRate: 18, productName: "Espresso Machine", sku: "ESP-1", quantity: 1,
+  transactionType: "Sale", originalInvoiceNo: invoiceNo, hsn: "8516", buyerGstin: "", marketplace: "", fulfilmentChannel: ""
+});
+
+const build = (tx: MarketplaceTransaction) =>
+  buildGstr1([tx], { exportSettings: TEST_EXPORT_SETTINGS, taxValidation: TEST_TAX_VALIDATION, period: tx.date.slice(0, 7) }).json;
+
+describe("B2CL threshold", () => {
+  it("applies ₹2.5 lakh to invoices before August 2024", () => {
+    const json = build(sale("INV-JUL", "2024-07-31"));
+
+    expect(json.b2cl).toEqual([]);
+    expect(json.b2cs).toHaveLength(1);
+  });
+
+  it("applies ₹1 lakh from August 2024", () => {
+    const json = build(sale("INV-AUG", "2024-08-01"));
+
+    expect(json.b2cl[0].inv.map(inv => inv.inum)).toEqual(["INV-AUG"]);
+    expect(json.b2cs).toEqual([]);
+  });
+});
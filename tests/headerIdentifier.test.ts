@@ -0,0 +1,71 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { geminiRequests, resetGeminiStub, stubGeminiReply } from "./stubs/genai";
+import { identifyHeaders } from "../services/geminiService";
+import { createHeaderIdentifier, createMockIdentifier, DEFAULT_IDENTIFIER_SETTINGS } from "../services/headerIdentifier";
+import { mapHeadersHeuristically } from "../services/heuristicMapper";
+
+// @google/genai is aliased to tests/stubs/genai.ts, so nothing here leaves the machine
+
+const HEADERS = ["Bill No", "Bill Date", "Party", "Taxable", "Bill Total", "Rate", "Item", "Qty"];
+
+describe("Gemini header identification", () => {
+  beforeEach(() => {
+    vi.stubEnv("API_KEY", "test-key");
+    resetGeminiStub();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps only the headers the file actually has", async () => {
+    stubGeminiReply(async () => ({
+      text: JSON.stringify({ invoiceNo: "Bill No", date: "Bill Date", totalAmount: "Grand Total" })
+    }));
+
+    const mapping = await identifyHeaders(HEADERS, {}, "gemini-test");
+
+    expect(mapping.invoiceNo).toBe("Bill No");
+    expect(mapping.date).toBe("Bill Date");
+    expect(mapping.totalAmount).toBe("");
+    expect(geminiRequests).toHaveLength(1);
+    expect(geminiRequests[0].model).toBe("gemini-test");
+    expect(geminiRequests[0].contents).toContain("Bill Total");
+  });
+
+  it("rejects when the model call fails so the caller can fall back", async () => {
+    stubGeminiReply(async () => {
+      throw new Error("network down");
+    });
+
+    const identifier = createHeaderIdentifier(DEFAULT_IDENTIFIER_SETTINGS);
+    await expect(identifier.identify(HEADERS)).rejects.toThrow("network down");
+  });
+
+  it("fails fast without an API key", async () => {
+    vi.stubEnv("API_KEY", "");
+
+    await expect(identifyHeaders(HEADERS)).rejects.toThrow("Gemini API key is not configured.");
+    expect(geminiRequests).toHaveLength(0);
+  });
+});
+
+describe("offline identification", () => {
+  it("maps common header spellings without any model", () => {
+    const { mapping } = mapHeadersHeuristically(HEADERS);
+
+    expect(mapping.invoiceNo).toBe("Bill No");
+    expect(mapping.date).toBe("Bill Date");
+    expect(mapping.quantity).toBe("Qty");
+  });
+
+  it("lets the mock identifier pin fields over the heuristic guess", async () => {
+    const mapping = await createMockIdentifier({ customerName: "Party" }).identify(HEADERS);
+
+    expect(mapping.customerName).toBe("Party");
+    expect(mapping.invoiceNo).toBe("Bill No");
+  });
+});
@@ -0,0 +1,55 @@
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { TallyExportSettings, TaxValidationSettings } from "../types";
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_TAX_VALIDATION } from "../services/clientConfig";
+import { readReportFiles } from "../services/reportFiles";
+
+export const FIXTURES_DIR = path.join(__dirname, "fixtures");
+export const GOLDEN_DIR = path.join(__dirname, "golden");
+
+// Reads fixtures through the same reader as uploads and the CLI
+export const loadFixtures = async (...names: string[]) =>
+  (
+    await readReportFiles(
+      await Promise.all(names.map(async name => new File([await readFile(path.join(FIXTURES_DIR, name))], name)))
+    )
+  ).files;
+
+export const TEST_EXPORT_SETTINGS: TallyExportSettings = {
+  ...DEFAULT_EXPORT_SETTINGS,
+  companyName: "Test Traders & Co"
+};
+
+export const TEST_TAX_VALIDATION: TaxValidationSettings = {
+  ...DEFAULT_TAX_VALIDATION,
+  sellerGstin: "27AAPFU0939F1ZV",
+  sellerState: "Maharashtra"
+};
+
+export const voucherBlocks = (xml: string) => xml.match(/<VOUCHER [\s\S]*?<\/VOUCHER>/g) || [];
+
+// Sum of the ledger-level amounts in paise; zero for a voucher Tally accepts.
+// Inventory and bill allocations repeat their ledger's amount, so they're dropped.
+export const ledgerTotal = (voucher: string) =>
+  voucher
+    .replace(/<INVENTORYENTRIES\.LIST>[\s\S]*?<\/INVENTORYENTRIES\.LIST>/g, "")
+    .replace(/<BILLALLOCATIONS\.LIST>[\s\S]*?<\/BILLALLOCATIONS\.LIST>/g, "")
+    .match(/<AMOUNT>[^<]*<\/AMOUNT>/g)!
+    .map(tag => Math.round(parseFloat(tag.replace(/<\/?AMOUNT>/g, "")) * 100))
+    .reduce((sum, paise) => sum + paise, 0);
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", apos: "'", quot: '"' };
+
+export const decodeXml = (text: string) => text.replace(/&(lt|gt|amp|apos|quot);/g, (_, name: string) => ENTITIES[name]);
+
+export const elementTexts = (xml: string, tag: string) =>
+  Array.from(xml.matchAll(new RegExp(`<${tag}>([^<]*)</${tag}>`, "g")), m => decodeXml(m[1]));
+
+// Text and attribute values may only hold escaped markup characters
+export const hasOnlyEscapedText = (xml: string) => {
+  const body = xml.replace(/^<\?xml[^>]*\?>/, "").replace(/<!--[\s\S]*?-->/g, "");
+  const texts = body.split(/<[^<>]*>/);
+  const attributes = Array.from(body.matchAll(/="([^"]*)"/g), m => m[1]);
+  return [...texts, ...attributes].every(part => /^(?:[^<>&"]|&(?:lt|gt|amp|apos|quot|#\d+);)*$/.test(part));
+};
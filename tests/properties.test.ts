@@ -0,0 +1,120 @@
+
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { B2cConsolidation, MarketplaceTransaction, TransactionType } from "../types";
+import { DEFAULT_EXPORT_SETTINGS } from "../services/clientConfig";
+import { generateCombinedTallyXml } from "../services/tallyMasterGenerator";
+import { findHeldBackVouchers, generateTallyXml } from "../services/tallyXmlGenerator";
+import { elementTexts, hasOnlyEscapedText, ledgerTotal, voucherBlocks } from "./helpers";
+
+const STATES = ["Maharashtra", "Karnataka", "Tamil Nadu", "Delhi", "Gujarat"];
+const RATES = [0, 5, 12, 18, 28];
+
+// Names full of the characters XML reserves, mixed with ordinary and Indic text
+const awkwardName = fc.string({
+  unit: fc.constantFrom("<", ">", "&", "'", '"', "&amp;", "]]>", "<!--", " ", "a", "Z", "7", "-", "é", "क", "₹"),
+  minLength: 1,
+  maxLength: 24
+});
+
+const paise = (max: number) => fc.integer({ min: 0, max }).map(p => p / 100);
+
+// A report row whose amounts are as messy as real exports: tax rounded either
+// way and a total that can be off by up to two rupees
+const transaction = fc
+  .record({
+    day: fc.integer({ min: 1, max: 28 }),
+    invoice: fc.integer({ min: 1, max: 12 }),
+    customerName: awkwardName,
+    productName: awkwardName,
+    state: fc.constantFrom(...STATES),
+    taxableValue: paise(5_000_000),
+    gstRate: fc.constantFrom(...RATES),
+    quantity: fc.integer({ min: 1, max: 20 }),
+    transactionType: fc.constantFrom<TransactionType>("Sale", "Sale", "Refund", "Cancel"),
+    interState: fc.boolean(),
+    taxError: fc.integer({ min: -2, max: 2 }),
+    totalError: fc.integer({ min: -200, max: 200 })
+  })
+  .map(r => {
+    // The pipeline takes absolute amounts, so tax is never negative
+    const tax = Math.max(0, Math.round(r.taxableValue * r.gstRate + r.taxError)) / 100;
+    const half = Math.round(tax * 50) / 100;
+    const igst = r.interState ? tax : 0;
+    const cgst = r.interState ? 0 : half;
+    const sgst = r.interState ? 0 : Math.round((tax - half) * 100) / 100;
+    const prefix = r.transactionType === "Refund" ? "CN" : "INV";
+    const tx: MarketplaceTransaction = {
+      date: `2024-07-${String(r.day).padStart(2, "0")}`,
+      rawDate: "",
+      invoiceNo: `${prefix}-${r.invoice}`,
+      customerName: r.customerName,
+      state: r.state,
+      taxableValue: r.taxableValue,
+      igst,
+      cgst,
+      sgst,
+      totalAmount: Math.max(0, Math.round((r.taxableValue + igst + cgst + sgst) * 100 + r.totalError) / 100),
+      gstRate: r.gstRate,
+      productName: r.productName,
+      quantity: r.quantity,
+      transactionType: r.transactionType,
+      originalInvoiceNo: `INV-${r.invoice}`,
+      hsn: "",
+      buyerGstin: "",
+      marketplace: "Amazon",
+      fulfilmentChannel: "",
+      sku: ""
+    };
+    return tx;
+  });
+
+const consolidation = fc.constantFrom<B2cConsolidation>("none", "daily", "monthly");
+
+describe("generated vouchers", () => {
+  it("always balance, whatever the rounding in the report", () => {
+    fc.assert(
+      fc.property(fc.array(transaction, { minLength: 1, maxLength: 30 }), consolidation, fc.constantFrom("skip", "reverse"), (rows, b2cConsolidation, cancelHandling) => {
+        const options = { cancelHandling: cancelHandling as "skip" | "reverse", exportSettings: { ...DEFAULT_EXPORT_SETTINGS, b2cConsolidation } };
+        const vouchers = voucherBlocks(generateTallyXml(rows, {}, options));
+        vouchers.forEach(voucher => expect(ledgerTotal(voucher)).toBe(0));
+      })
+    );
+  });
+
+  it("hold back exactly the vouchers the round-off limit can't absorb", () => {
+    fc.assert(
+      fc.property(fc.array(transaction, { minLength: 1, maxLength: 30 }), rows => {
+        const held = findHeldBackVouchers(rows).map(h => h.group.lines[0].invoiceNo);
+        const written = voucherBlocks(generateTallyXml(rows)).map(v => v.match(/<VOUCHERNUMBER>([^<]*)</)![1]);
+        written.forEach(number => expect(held).not.toContain(number));
+      })
+    );
+  });
+});
+
+describe("XML escaping", () => {
+  it("round-trips customer and product names through the voucher XML", () => {
+    fc.assert(
+      fc.property(transaction, tx => {
+        const sale = { ...tx, transactionType: "Sale" as const, totalAmount: tx.taxableValue + tx.igst + tx.cgst + tx.sgst };
+        const xml = generateTallyXml([sale]);
+        expect(hasOnlyEscapedText(xml)).toBe(true);
+        expect(elementTexts(xml, "BASICBUYERNAME")).toEqual([sale.customerName]);
+        expect(elementTexts(xml, "STOCKITEMNAME")).toEqual([sale.productName]);
+      })
+    );
+  });
+
+  it("keeps masters well-formed for any party ledger and ledger overrides", () => {
+    fc.assert(
+      fc.property(fc.array(transaction, { minLength: 1, maxLength: 10 }), awkwardName, awkwardName, (rows, partyLedger, salesLedger) => {
+        const overrides = Object.fromEntries(RATES.map(rate => [`Sales @ ${rate}%`, salesLedger]));
+        const exportSettings = { ...DEFAULT_EXPORT_SETTINGS, b2cPartyLedgerByMarketplace: { Amazon: partyLedger }, companyName: partyLedger };
+        const xml = generateCombinedTallyXml(rows, overrides, { cancelHandling: "reverse", exportSettings });
+        expect(hasOnlyEscapedText(xml)).toBe(true);
+        expect(elementTexts(xml, "PARTYLEDGERNAME").every(name => name === (partyLedger.trim() || "Amazon Receivable"))).toBe(true);
+      })
+    );
+  });
+});
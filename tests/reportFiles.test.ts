@@ -0,0 +1,24 @@
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { readReportFiles } from "../services/reportFiles";
+import { FIXTURES_DIR } from "./helpers";
+
+const fixture = async (name: string) => new File([await readFile(path.join(FIXTURES_DIR, name))], name);
+
+describe("readReportFiles", () => {
+  it("reports each file it cannot read by its place in the upload", async () => {
+    const broken = new File([new Uint8Array([0x50, 0x4b, 0x03, 0x04, 1, 2, 3])], "sales.xlsx");
+    const empty = new File([""], "sales.csv");
+    const { files, errors } = await readReportFiles([await fixture("flipkart-sales.csv"), broken, empty, await fixture("flipkart-sales.xlsx")]);
+
+    expect(files.map(f => f.name)).toEqual(["flipkart-sales.csv", "flipkart-sales.xlsx"]);
+    expect(errors.map(({ index, name }) => ({ index, name }))).toEqual([
+      { index: 1, name: "sales.xlsx" },
+      { index: 2, name: "sales.csv" }
+    ]);
+    expect(errors[0].message).toMatch(/^Not a readable workbook/);
+    expect(errors[1].message).toBe("The file has no rows.");
+  });
+});
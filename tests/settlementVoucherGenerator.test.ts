@@ -0,0 +1,124 @@
+
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EXPORT_SETTINGS } from "../services/clientConfig";
+import { generateTallyXml } from "../services/tallyXmlGenerator";
+import { MarketplaceTransaction } from "../types";
+import { buildSettlementEntries, mapSettlementHeaders } from "../services/settlementParser";
+import { findHeldBackSettlements, generateSettlementXml, summarizeSettlements } from "../services/settlementVoucherGenerator";
+
+// A Flipkart-style wide settlement report: one column per fee
+const WIDE_HEADERS = ["Settlement Date", "Settlement Ref No", "Order ID", "Commission (Rs.)", "TCS (Rs.)", "Bank Settlement Value (Rs.)"];
+
+const wideSettlement = (rows: string[][]) =>
+  summarizeSettlements(buildSettlementEntries(WIDE_HEADERS, rows, mapSettlementHeaders(WIDE_HEADERS)), "Flipkart");
+
+// Net of every entry posted to a ledger, in paise; Tally amounts are negative for debits
+const ledgerBalance = (xml: string, ledger: string) =>
+  Array.from(xml.matchAll(new RegExp(`<LEDGERNAME>${ledger}</LEDGERNAME>\\s*<ISDEEMEDPOSITIVE>\\w+</ISDEEMEDPOSITIVE>\\s*<AMOUNT>([^<]+)</AMOUNT>`, "g")))
+    .reduce((sum, [, amount]) => sum + Math.round(parseFloat(amount) * 100), 0);
+
+const flipkartSale: MarketplaceTransaction = {
+  date: "2024-08-01",
+  rawDate: "2024-08-01",
+  invoiceNo: "FAAB2400101",
+  customerName: "",
+  state: "Karnataka",
+  taxableValue: 423.73,
+  igst: 76.27,
+  cgst: 0,
+  sgst: 0,
+  totalAmount: 500,
+  gstRate: 18,
+  productName: "Steel Bottle 1L",
+  quantity: 1,
+  transactionType: "Sale",
+  originalInvoiceNo: "FAAB2400101",
+  hsn: "7323",
+  buyerGstin: "",
+  marketplace: "Flipkart",
+  fulfilmentChannel: "",
+  sku: "BTL-1L"
+};
+
+describe("wide settlement reports", () => {
+  it("keeps the report's signs, so a refunded fee reduces the fees", () => {
+    const [settlement] = wideSettlement([
+      ["2024-08-05", "NEFT-1", "OD1", "-50.00", "-4.24", "369.76"],
+      ["2024-08-05", "NEFT-1", "OD2", "20.00", "0", "20.00"]
+    ]);
+
+    expect(settlement.totals.referralFee).toBe(-3000);
+    expect(settlement.totals.tcs).toBe(-424);
+    expect(settlement.payout).toBe(38976);
+  });
+
+  it("takes amounts as deductions when the report prints none negative", () => {
+    const [settlement] = wideSettlement([
+      ["2024-08-05", "NEFT-1", "OD1", "50.00", "4.24", "369.76"]
+    ]);
+
+    expect(settlement.totals.referralFee).toBe(-5000);
+    expect(settlement.totals.tcs).toBe(-424);
+  });
+});
+
+describe("settlement vouchers", () => {
+  it("holds back a settlement whose date can't be read instead of dropping it", () => {
+    const [dated] = wideSettlement([["2024-08-05", "NEFT-1", "OD1", "-50.00", "0", "450.00"]]);
+    const [undated] = wideSettlement([["pending", "NEFT-2", "OD2", "-20.00", "0", "180.00"]]);
+
+    expect(undated.date).toBe("");
+    expect(findHeldBackSettlements([dated, undated])).toEqual([
+      { settlement: undated, reason: "Settlement NEFT-2: no date could be read, so its vouchers are not exported." }
+    ]);
+    const xml = generateSettlementXml([dated, undated]);
+    expect(xml).toContain("NEFT-1");
+    expect(xml).not.toContain("NEFT-2");
+  });
+
+  it("clears settlements against the marketplace's receivable rather than the default B2C ledger", () => {
+    const settlements = wideSettlement([["2024-08-05", "NEFT-1", "OD1", "-50.00", "-4.24", "445.76"]]);
+    const settings = { ...DEFAULT_EXPORT_SETTINGS, b2cPartyLedger: "", b2cPartyLedgerByMarketplace: {} };
+    const xml = generateSettlementXml(settlements, {}, settings, true);
+
+    expect(xml).toContain('<LEDGER NAME="Flipkart Receivable" ACTION="Create">');
+    expect(xml).not.toContain("<LEDGERNAME>Cash</LEDGERNAME>");
+    // Fees, TCS and the payout each credit the receivable
+    expect(xml.match(/<LEDGERNAME>Flipkart Receivable<\/LEDGERNAME>/g)).toHaveLength(3);
+    expect(generateSettlementXml(settlements, { "Flipkart Receivable": "Flipkart India Pvt Ltd" })).toContain(
+      "<LEDGERNAME>Flipkart India Pvt Ltd</LEDGERNAME>"
+    );
+  });
+
+  it("clears the receivable the order's sale was debited to", () => {
+    const sales = generateTallyXml([flipkartSale]);
+    const settlement = generateSettlementXml(wideSettlement([["2024-08-05", "NEFT-1", "OD1", "-50.00", "-4.24", "445.76"]]));
+
+    expect(ledgerBalance(sales, "Flipkart Receivable")).toBe(-50000);
+    expect(ledgerBalance(sales, "Flipkart Receivable") + ledgerBalance(settlement, "Flipkart Receivable")).toBe(0);
+
+    // A ledger chosen for the marketplace's B2C sales is the one settled
+    const exportSettings = { ...DEFAULT_EXPORT_SETTINGS, b2cPartyLedgerByMarketplace: { Flipkart: "Flipkart Sales Debtor" } };
+    const renamed = generateTallyXml([flipkartSale], {}, { exportSettings });
+    const renamedSettlement = generateSettlementXml(
+      wideSettlement([["2024-08-05", "NEFT-1", "OD1", "-50.00", "-4.24", "445.76"]]), {}, exportSettings
+    );
+    expect(ledgerBalance(renamed, "Flipkart Sales Debtor") + ledgerBalance(renamedSettlement, "Flipkart Sales Debtor")).toBe(0);
+  });
+
+  it("splits GST on fees into CGST and SGST when the seller's state is known", () => {
+    const headers = [...WIDE_HEADERS.slice(0, 4), "Taxes (Rs.)", ...WIDE_HEADERS.slice(4)];
+    const [settlement] = summarizeSettlements(
+      buildSettlementEntries(headers, [["2024-08-05", "NEFT-1", "OD1", "-50.00", "-9.01", "-4.24", "436.75"]], mapSettlementHeaders(headers)),
+      "Flipkart"
+    );
+
+    const local = generateSettlementXml([settlement], {}, DEFAULT_EXPORT_SETTINGS, true, "27");
+    expect(ledgerBalance(local, "Input CGST on Marketplace Fees")).toBe(-450);
+    expect(ledgerBalance(local, "Input SGST on Marketplace Fees")).toBe(-451);
+    expect(local).toContain("<GSTDUTYHEAD>Central Tax</GSTDUTYHEAD>");
+    expect(local).not.toContain("Input IGST");
+
+    expect(ledgerBalance(generateSettlementXml([settlement]), "Input IGST on Marketplace Fees")).toBe(-901);
+  });
+});
@@ -0,0 +1,29 @@
+
+import { describe, expect, it } from "vitest";
+import { loadFixtures } from "./helpers";
+
+// flipkart-sales.xlsx holds the Flipkart fixture as Excel writes it: a summary
+// tab, report titles above the header and real date cells, some in the
+// default m/d/yy format and some in a custom dd-mm-yyyy hh:mm one.
+
+describe("readWorkbook", () => {
+  it("picks the sales sheet and the header row below the report titles", async () => {
+    const [file] = await loadFixtures("flipkart-sales.xlsx");
+
+    expect(file.workbook).toMatchObject({ sheetName: "Sales Report", headerRow: 2 });
+    expect(file.headers[4]).toBe("Buyer Invoice ID");
+    expect(file.rawData).toHaveLength(5);
+  });
+
+  it("passes date cells on as serials instead of the locale's m/d/yy text", async () => {
+    const [file] = await loadFixtures("flipkart-sales.xlsx");
+    const dates = file.rawData.map(row => row[5]);
+
+    // 1 April 2024 would otherwise read "4/1/24" and be taken as 4 January
+    expect(dates[0]).toBe("45383.42444444444");
+    expect(dates.every(value => /^\d{5}(\.\d+)?$/.test(value))).toBe(true);
+    // Numbers that aren't dates keep their formatted text
+    expect(file.rawData[0][10]).toBe("423.73");
+    expect(file.rawData[0][0]).toBe("OD1001");
+  });
+});
@@ -0,0 +1,38 @@
+
+// Offline stand-in for @google/genai. Tests queue the model's reply with
+// `stubGeminiReply`; every request is recorded in `geminiRequests`.
+
+type GenerateContent = (request: { model: string; contents: string; config?: unknown }) => Promise<{ text?: string }>;
+
+export const Type = {
+  OBJECT: "OBJECT",
+  STRING: "STRING"
+};
+
+export const geminiRequests: { model: string; contents: string }[] = [];
+
+const noReply: GenerateContent = async () => {
+  throw new Error("No Gemini reply stubbed for this test.");
+};
+
+let reply = noReply;
+
+export const stubGeminiReply = (next: GenerateContent) => {
+  reply = next;
+};
+
+export const resetGeminiStub = () => {
+  geminiRequests.length = 0;
+  reply = noReply;
+};
+
+export class GoogleGenAI {
+  models = {
+    generateContent: (request: Parameters<GenerateContent>[0]) => {
+      geminiRequests.push({ model: request.model, contents: request.contents });
+      return reply(request);
+    }
+  };
+
+  constructor(_options: { apiKey?: string }) {}
+}
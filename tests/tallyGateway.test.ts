@@ -0,0 +1,92 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MarketplaceTransaction } from "../types";
+import { convertReports } from "../services/conversionPipeline";
+import { mapPushErrorsToRows, pushToTally } from "../services/tallyGateway";
+import { loadFixtures, TEST_EXPORT_SETTINGS } from "./helpers";
+
+// fetch is stubbed per test; nothing here needs a Tally server
+
+const CONNECTION = { host: "localhost", port: 9000 };
+const OPTIONS = { exportSettings: TEST_EXPORT_SETTINGS };
+
+const reply = (errors: string[] = []) =>
+  new Response(
+    `<RESPONSE><CREATED>${errors.length ? 0 : 1}</CREATED><ERRORS>${errors.length}</ERRORS>` +
+      errors.map(e => `<LINEERROR>${e}</LINEERROR>`).join("") +
+      "</RESPONSE>"
+  );
+
+let transactions: MarketplaceTransaction[];
+let posts: RequestInit[];
+
+// Answers the status-page probe, then hands each POST to the given handler
+const stubTally = (onPost: (index: number) => Response | Promise<Response>, probe: "readable" | "opaque" = "readable") => {
+  posts = [];
+  vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit = {}) => {
+    if (init.method !== "POST") {
+      if (probe === "opaque" && init.mode !== "no-cors") throw new TypeError("Failed to fetch");
+      return new Response("<RESPONSE>TallyPrime Server is Running</RESPONSE>");
+    }
+    posts.push(init);
+    return onPost(posts.length - 1);
+  }));
+};
+
+describe("pushToTally", () => {
+  beforeEach(async () => {
+    transactions = convertReports(await loadFixtures("flipkart-sales.csv"), OPTIONS).transactions;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("carries on past a voucher Tally rejects", async () => {
+    stubTally(i => (i === 0 ? reply(["Voucher totals do not match!"]) : i === 1 ? new Response("", { status: 500 }) : reply()));
+
+    const report = await pushToTally(transactions, {}, OPTIONS, CONNECTION);
+
+    expect(report.repliesReadable).toBe(true);
+    expect(report.vouchers).toHaveLength(posts.length);
+    expect(report.vouchers[0].result?.lineErrors).toEqual(["Voucher totals do not match!"]);
+    expect(report.vouchers[1].failure).toBe("Tally responded with HTTP 500.");
+    expect(report.vouchers.slice(2).every(v => v.result?.errors === 0)).toBe(true);
+  });
+
+  it("stops when Tally stops answering and lists the rest as not sent", async () => {
+    stubTally(i => {
+      if (i === 1) throw new TypeError("Failed to fetch");
+      return reply();
+    });
+
+    const report = await pushToTally(transactions, {}, OPTIONS, CONNECTION);
+
+    expect(posts).toHaveLength(2);
+    expect(report.vouchers[1].failure).toMatch(/Could not reach Tally/);
+    const unsent = report.vouchers.slice(2);
+    expect(unsent.length).toBeGreaterThan(0);
+    expect(unsent.every(v => v.notSent)).toBe(true);
+    const rowErrors = mapPushErrorsToRows(transactions, report);
+    expect(Object.values(rowErrors).flat()).toContain("Not sent: Tally stopped answering earlier in the push.");
+  });
+
+  it("sends without claiming success when Tally's replies can't be read", async () => {
+    stubTally(() => new Response(null, { status: 200 }), "opaque");
+
+    const report = await pushToTally(transactions, {}, OPTIONS, CONNECTION);
+
+    expect(report.repliesReadable).toBe(false);
+    expect(posts.every(init => init.mode === "no-cors")).toBe(true);
+    expect(report.vouchers.every(v => !v.result && !v.failure && !v.notSent)).toBe(true);
+    expect(mapPushErrorsToRows(transactions, report)).toEqual({});
+  });
+
+  it("fails before sending anything when nothing answers", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      throw new TypeError("Failed to fetch");
+    }));
+
+    await expect(pushToTally(transactions, {}, OPTIONS, CONNECTION)).rejects.toThrow(/Could not reach Tally at http:\/\/localhost:9000/);
+  });
+});
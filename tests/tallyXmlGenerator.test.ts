@@ -0,0 +1,155 @@
+
+import { describe, expect, it } from "vitest";
+import { MarketplaceTransaction } from "../types";
+import { DEFAULT_EXPORT_SETTINGS } from "../services/clientConfig";
+import {
+  assignVoucherNumbers, findHeldBackVouchers, formatDateForTally, generateTallyXml, generateTallyXmlParts, groupIntoVouchers,
+  resolveLedgerName, sanitize, tallyVouchers
+} from "../services/tallyXmlGenerator";
+import { elementTexts, ledgerTotal, voucherBlocks } from "./helpers";
+
+const sale = (patch: Partial<MarketplaceTransaction> = {}): MarketplaceTransaction => ({
+  date: "2024-07-05",
+  rawDate: "05-07-2024",
+  invoiceNo: "INV-1",
+  customerName: "Asha",
+  state: "Maharashtra",
+  taxableValue: 100,
+  igst: 0,
+  cgst: 9,
+  sgst: 9,
+  totalAmount: 118,
+  gstRate: 18,
+  productName: "Mug",
+  quantity: 1,
+  transactionType: "Sale",
+  originalInvoiceNo: "INV-1",
+  hsn: "6912",
+  buyerGstin: "",
+  marketplace: "Amazon",
+  fulfilmentChannel: "",
+  sku: "",
+  ...patch
+});
+
+describe("sanitize", () => {
+  it("escapes the five XML special characters", () => {
+    expect(sanitize(`Tom & Jerry's <"Cafe">`)).toBe("Tom &amp; Jerry&apos;s &lt;&quot;Cafe&quot;&gt;");
+  });
+
+  it("escapes an existing entity again rather than trusting it", () => {
+    expect(sanitize("A &amp; B")).toBe("A &amp;amp; B");
+  });
+
+  it("leaves other text, including Indic scripts and the rupee sign, untouched", () => {
+    expect(sanitize("चाय ₹20")).toBe("चाय ₹20");
+  });
+
+  it("returns an empty string for empty input", () => {
+    expect(sanitize("")).toBe("");
+  });
+});
+
+describe("formatDateForTally", () => {
+  it("turns an ISO date into Tally's YYYYMMDD", () => {
+    expect(formatDateForTally("2024-07-05")).toBe("20240705");
+    expect(formatDateForTally("2025-12-31")).toBe("20251231");
+  });
+});
+
+describe("resolveLedgerName", () => {
+  it("uses a non-blank override and escapes it", () => {
+    expect(resolveLedgerName("Sales @ 18%", { "Sales @ 18%": "Sales & Services 18%" })).toBe("Sales &amp; Services 18%");
+    expect(resolveLedgerName("Sales @ 18%", { "Sales @ 18%": "  " })).toBe("Sales @ 18%");
+  });
+});
+
+describe("assignVoucherNumbers", () => {
+  const groups = groupIntoVouchers([
+    sale({ invoiceNo: "A-1" }),
+    sale({ invoiceNo: "A-2" }),
+    sale({ invoiceNo: "R-1", transactionType: "Refund", originalInvoiceNo: "A-1" })
+  ]);
+
+  it("keeps the marketplace invoice number by default", () => {
+    expect(assignVoucherNumbers(groups)).toEqual(["A-1", "A-2", "R-1"]);
+  });
+
+  it("runs a separate padded sequence per voucher type", () => {
+    const settings = { ...DEFAULT_EXPORT_SETTINGS, numbering: "sequence" as const, sequencePrefix: "TB/", sequenceStart: 7, sequencePadding: 3 };
+    expect(assignVoucherNumbers(groups, settings)).toEqual(["TB/007", "TB/008", "TB/007"]);
+  });
+});
+
+describe("generateTallyXml", () => {
+  it("posts one voucher per invoice with multi-line invoices merged", () => {
+    const xml = generateTallyXml([
+      sale(),
+      sale({ productName: "Plate", taxableValue: 200, cgst: 6, sgst: 6, totalAmount: 212, gstRate: 6 }),
+      sale({ invoiceNo: "INV-2" })
+    ]);
+    expect(voucherBlocks(xml)).toHaveLength(2);
+    expect(elementTexts(xml, "STOCKITEMNAME").sort()).toEqual(["Mug", "Mug", "Plate"]);
+  });
+
+  it("credits the party on a credit note and allocates it against the original bill", () => {
+    const [voucher] = voucherBlocks(generateTallyXml([sale({ invoiceNo: "CN-1", transactionType: "Refund" })]));
+    expect(voucher).toContain('VCHTYPE="Credit Note"');
+    expect(voucher).toContain("<BILLTYPE>Agst Ref</BILLTYPE>");
+    expect(voucher).toMatch(/<LEDGERNAME>Amazon Receivable<\/LEDGERNAME>\s*<ISDEEMEDPOSITIVE>No<\/ISDEEMEDPOSITIVE>\s*<AMOUNT>118.00<\/AMOUNT>/);
+    expect(ledgerTotal(voucher)).toBe(0);
+  });
+
+  it("leaves out cancelled orders unless they are reversed", () => {
+    const cancelled = sale({ transactionType: "Cancel" });
+    expect(voucherBlocks(generateTallyXml([cancelled]))).toHaveLength(0);
+    expect(voucherBlocks(generateTallyXml([cancelled], {}, { cancelHandling: "reverse" }))).toHaveLength(1);
+  });
+
+  it("posts a rounding difference within the limit to Round Off and holds back larger ones", () => {
+    const rounded = voucherBlocks(generateTallyXml([sale({ totalAmount: 118.4 })]));
+    expect(rounded[0]).toContain("<LEDGERNAME>Round Off</LEDGERNAME>");
+    expect(ledgerTotal(rounded[0])).toBe(0);
+    expect(voucherBlocks(generateTallyXml([sale({ totalAmount: 125 })]))).toHaveLength(0);
+  });
+
+  it("holds back a B2C summary whose invoices' roundings add up past the limit", () => {
+    const exportSettings = { ...DEFAULT_EXPORT_SETTINGS, b2cConsolidation: "daily" as const };
+    // Each invoice is 60 paise out, within the ₹1 limit; the day's summary is ₹1.20 out
+    const lines = [sale({ totalAmount: 118.6 }), sale({ invoiceNo: "INV-2", totalAmount: 118.6 })];
+
+    expect(generateTallyXml(lines, {}, { exportSettings: DEFAULT_EXPORT_SETTINGS })).toContain("<LEDGERNAME>Round Off</LEDGERNAME>");
+    expect(tallyVouchers(lines, { exportSettings })).toEqual([]);
+    expect(voucherBlocks(generateTallyXml(lines, {}, { exportSettings }))).toHaveLength(0);
+    const heldBack = findHeldBackVouchers(lines, { exportSettings });
+    expect(heldBack).toHaveLength(1);
+    expect(heldBack[0].group.summary?.sources).toEqual(lines);
+    expect(heldBack[0].reason).toBe(
+      "Voucher Amazon-B2C-20240705-27-18 is out by ₹1.20, more than the ₹1.00 round-off limit. It will not be exported."
+    );
+  });
+
+  it("writes a negative tax line on the other side instead of dropping it from a balanced voucher", () => {
+    // A credit note netting a return against an IGST correction on the same invoice
+    const lines = [
+      sale({ invoiceNo: "CN-2", transactionType: "Refund", state: "Karnataka", cgst: 0, sgst: 0, igst: 18 }),
+      sale({ invoiceNo: "CN-2", transactionType: "Refund", state: "Karnataka", cgst: 0, sgst: 0, igst: -20, taxableValue: 20, totalAmount: 0 })
+    ];
+    const [voucher] = voucherBlocks(generateTallyXml(lines));
+
+    expect(voucher).toMatch(/<LEDGERNAME>Output IGST @ 18%<\/LEDGERNAME>\s*<ISDEEMEDPOSITIVE>No<\/ISDEEMEDPOSITIVE>\s*<AMOUNT>2.00<\/AMOUNT>/);
+    expect(voucher).not.toContain("Round Off");
+    expect(ledgerTotal(voucher)).toBe(0);
+  });
+
+  it("writes the same file as Blob parts, one per voucher between the envelope halves", async () => {
+    const transactions = Array.from({ length: 1200 }, (_, i) => sale({ invoiceNo: `INV-${i}` }));
+    const progress: number[] = [];
+
+    const parts = generateTallyXmlParts(transactions, {}, {}, done => progress.push(done));
+
+    expect(parts).toHaveLength(1202);
+    expect(progress).toEqual([0, 500, 1000]);
+    expect(await new Blob(parts).text()).toBe(generateTallyXml(transactions));
+  });
+});
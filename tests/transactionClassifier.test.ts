@@ -0,0 +1,37 @@
+
+import { describe, expect, it } from "vitest";
+import { convertReports } from "../services/conversionPipeline";
+import { classifyTransactionType } from "../services/transactionClassifier";
+import { loadFixtures, TEST_EXPORT_SETTINGS } from "./helpers";
+
+describe("classifyTransactionType", () => {
+  it("reads the marketplaces' own type labels", () => {
+    expect(classifyTransactionType("Shipment", 500)).toBe("Sale");
+    expect(classifyTransactionType("Refund", 500)).toBe("Refund");
+    expect(classifyTransactionType("Return", 500, "unsigned")).toBe("Refund");
+    expect(classifyTransactionType("Cancel", 0)).toBe("Cancel");
+    expect(classifyTransactionType("Void", 500)).toBe("Cancel");
+  });
+
+  it("falls back to the sign of the amount in signed reports", () => {
+    expect(classifyTransactionType("", -500)).toBe("Refund");
+    expect(classifyTransactionType("", -500, "unsigned")).toBe("Sale");
+  });
+
+  it("lets a layout's labels override the patterns", () => {
+    expect(classifyTransactionType("Refunded", 500, "unsigned", { refunded: "Sale" })).toBe("Sale");
+  });
+});
+
+describe("Shopify orders export", () => {
+  it("books refunded orders as sales and voided ones as cancelled", async () => {
+    const { transactions } = convertReports(await loadFixtures("shopify-orders.csv"), { exportSettings: TEST_EXPORT_SETTINGS });
+
+    expect(transactions.map(tx => [tx.invoiceNo, tx.transactionType])).toEqual([
+      ["#1001", "Sale"],
+      ["#1002", "Sale"],
+      ["#1003", "Sale"],
+      ["#1004", "Cancel"]
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+
+import { describe, expect, it } from "vitest";
+import { MarketplaceTransaction } from "../types";
+import { convertReports } from "../services/conversionPipeline";
+import { generateTallyXml } from "../services/tallyXmlGenerator";
+import {
+  applyTransactionEdits, countEdits, editTransactions, includedTransactions, parseFieldValue, revertTransactions,
+  setExcluded, transactionChanges
+} from "../services/transactionEdits";
+import { elementTexts, loadFixtures, TEST_EXPORT_SETTINGS, voucherBlocks } from "./helpers";
+
+const parsedRows = async (): Promise<MarketplaceTransaction[]> =>
+  convertReports(await loadFixtures("flipkart-sales.csv"), { exportSettings: TEST_EXPORT_SETTINGS }).transactions;
+
+describe("transaction edits", () => {
+  it("records a change as a diff and leaves the parsed rows alone", async () => {
+    const parsed = await parsedRows();
+    const edits = editTransactions({}, parsed, [0], "state", "Karnataka");
+    const edited = applyTransactionEdits(parsed, edits);
+
+    expect(edited[0].state).toBe("Karnataka");
+    expect(parsed[0].state).not.toBe("Karnataka");
+    expect(edited[1]).toBe(parsed[1]);
+    expect(transactionChanges(parsed, edits, 0)).toEqual([
+      { field: "state", label: "State", from: parsed[0].state, to: "Karnataka" }
+    ]);
+  });
+
+  it("drops a change once the value is set back to the report's", async () => {
+    const parsed = await parsedRows();
+    const edits = editTransactions(editTransactions({}, parsed, [0], "gstRate", 12), parsed, [0], "gstRate", parsed[0].gstRate);
+
+    expect(edits).toEqual({});
+  });
+
+  it("applies a bulk edit to every selected row", async () => {
+    const parsed = await parsedRows();
+    const edits = editTransactions({}, parsed, [0, 1, 2], "gstRate", 40);
+
+    expect(applyTransactionEdits(parsed, edits).slice(0, 3).map(tx => tx.gstRate)).toEqual([40, 40, 40]);
+    expect(countEdits(edits)).toEqual({ edited: 3, excluded: 0 });
+  });
+
+  it("keeps exclusions through a revert and leaves excluded rows out of the XML", async () => {
+    const parsed = await parsedRows();
+    let edits = editTransactions({}, parsed, [0], "customerName", "Walk-in");
+    edits = setExcluded(edits, [0], true);
+    edits = revertTransactions(edits, [0]);
+
+    expect(countEdits(edits)).toEqual({ edited: 0, excluded: 1 });
+    const included = includedTransactions(applyTransactionEdits(parsed, edits), edits);
+    expect(included).toHaveLength(parsed.length - 1);
+    const xml = generateTallyXml(included, {}, { exportSettings: TEST_EXPORT_SETTINGS });
+    expect(elementTexts(xml, "REFERENCE")).not.toContain(parsed[0].invoiceNo);
+    expect(voucherBlocks(xml).length).toBeGreaterThan(0);
+
+    expect(setExcluded(edits, [0], false)).toEqual({});
+  });
+
+  it("fixes an unreadable date so the voucher is exported again", () => {
+    const row: MarketplaceTransaction = {
+      date: "", rawDate: "TBD", invoiceNo: "OD-4", customerName: "", state: "Maharashtra", taxableValue: 100, igst: 0,
+      cgst: 9, sgst: 9, totalAmount: 118, gstRate: 18, productName: "Mug", sku: "", quantity: 1, transactionType: "Sale",
+      originalInvoiceNo: "OD-4", hsn: "", buyerGstin: "", marketplace: "", fulfilmentChannel: ""
+    };
+
+    expect(voucherBlocks(generateTallyXml([row]))).toHaveLength(0);
+    const edits = editTransactions({}, [row], [0], "date", "2024-08-02");
+    expect(voucherBlocks(generateTallyXml(applyTransactionEdits([row], edits)))).toHaveLength(1);
+  });
+});
+
+describe("parseFieldValue", () => {
+  it("reads amounts typed with rupee signs and separators", () => {
+    expect(parseFieldValue("totalAmount", "₹1,180.50")).toBe(1180.5);
+    expect(parseFieldValue("quantity", "")).toBeNull();
+    expect(parseFieldValue("igst", "-5")).toBeNull();
+  });
+
+  it("accepts only real ISO dates", () => {
+    expect(parseFieldValue("date", "2024-07-31")).toBe("2024-07-31");
+    expect(parseFieldValue("date", "31/07/2024")).toBeNull();
+  });
+
+  it("normalizes GSTINs and trims text", () => {
+    expect(parseFieldValue("buyerGstin", " 27aapfu0939f1zv ")).toBe("27AAPFU0939F1ZV");
+    expect(parseFieldValue("customerName", "  Asha  ")).toBe("Asha");
+  });
+});
@@ -1,6 +1,9 @@
 
 export interface MarketplaceTransaction {
+  // ISO yyyy-MM-dd; empty when the report's value couldn't be parsed
   date: string;
+  // The date cell exactly as it appeared in the report
+  rawDate: string;
   invoiceNo: string;
   customerName: string;
   state: string;
@@ -11,9 +14,26 @@ export interface MarketplaceTransaction {
   totalAmount: number;
   gstRate: number;
   productName: string;
+  // Seller SKU, ASIN or FSN; looked up in the SKU catalogue
+  sku: string;
   quantity: number;
+  transactionType: TransactionType;
+  // Invoice a credit note is raised against; same as invoiceNo when the report doesn't say
+  originalInvoiceNo: string;
+  hsn: string;
+  // Normalized to upper case; B2B when it passes the checksum, B2C otherwise
+  buyerGstin: string;
+  // From the detected report profile, e.g. "Amazon"; empty when unknown
+  marketplace: string;
+  // As the report writes it, e.g. "AFN" (Amazon-fulfilled) or "MFN"; empty when unmapped
+  fulfilmentChannel: string;
 }
 
+export type TransactionType = "Sale" | "Refund" | "Cancel";
+
+// What to do with cancelled rows: drop them or post them as reversing credit notes
+export type CancelHandling = "skip" | "reverse";
+
 export interface ColumnMapping {
   date: string;
   invoiceNo: string;
@@ -27,6 +47,259 @@ export interface ColumnMapping {
   gstRate: string;
   productName: string;
   quantity: string;
+  transactionType: string;
+  originalInvoiceNo: string;
+  hsn: string;
+  buyerGstin: string;
+  fulfilmentChannel: string;
+  sku: string;
+}
+
+// Columns of a marketplace settlement (payment) report. Amazon's flat file is
+// "long", one row per amount with a description; Flipkart's is "wide", with a
+// column per fee. Whichever set of columns is mapped decides the layout.
+export interface SettlementMapping {
+  date: string;
+  settlementId: string;
+  orderId: string;
+  amountType: string;
+  amountDescription: string;
+  amount: string;
+  netPayout: string;
+  commission: string;
+  closingFee: string;
+  shippingFee: string;
+  otherFees: string;
+  feeGst: string;
+  tcs: string;
+  tds: string;
+}
+
+export type SettlementComponent =
+  | "sale"
+  | "referralFee"
+  | "closingFee"
+  | "fulfilmentFee"
+  | "otherFee"
+  | "feeGst"
+  | "tcs"
+  | "tds"
+  | "payout";
+
+export interface SettlementEntry {
+  // ISO yyyy-MM-dd; empty when unreadable
+  date: string;
+  settlementId: string;
+  orderId: string;
+  component: SettlementComponent;
+  description: string;
+  // As paid to the seller: deductions such as fees and TCS are negative
+  amount: number;
+}
+
+// Per-field match score between 0 and 1 for automatically suggested mappings
+export type MappingConfidence = Partial<Record<keyof ColumnMapping, number>>;
+
+export type HeaderIdentifierKind = "gemini" | "openai-compatible" | "mock";
+
+export interface HeaderIdentifier {
+  kind: HeaderIdentifierKind;
+  label: string;
+  identify: (headers: string[], samples?: Record<string, string[]>) => Promise<ColumnMapping>;
+}
+
+export interface HeaderIdentifierSettings {
+  provider: HeaderIdentifierKind;
+  geminiModel: string;
+  // Any /v1/chat/completions server, e.g. Ollama at http://localhost:11434/v1
+  openAiBaseUrl: string;
+  openAiModel: string;
+  // Kept for the browser session only, never in localStorage
+  openAiApiKey: string;
+  // Opt-in: sample cell values (customer names, addresses, GSTINs) leave the
+  // machine along with the headers
+  sendSampleValues: boolean;
+}
+
+export interface TallyConnectionSettings {
+  host: string;
+  port: number;
+}
+
+// "invoice" reuses the marketplace invoice number, "sequence" numbers vouchers
+// as prefix + running number, "auto" leaves numbering to the voucher type in Tally
+export type VoucherNumbering = "invoice" | "sequence" | "auto";
+
+// "none" writes one voucher per B2C invoice; the others roll B2C invoices up
+// per day or month, state, GST rate and marketplace
+export type B2cConsolidation = "none" | "daily" | "monthly";
+
+export interface VoucherTypeNames {
+  sales: string;
+  creditNote: string;
+}
+
+// Transaction fields a ledger rule can test
+export type LedgerRuleField =
+  | "marketplace"
+  | "fulfilmentChannel"
+  | "state"
+  | "gstRate"
+  | "productName"
+  | "sku"
+  | "hsn"
+  | "transactionType"
+  | "customerName"
+  | "buyerGstin";
+
+export type LedgerRuleOperator = "equals" | "notEquals" | "contains" | "startsWith" | "isEmpty";
+
+export interface LedgerRuleCondition {
+  field: LedgerRuleField;
+  operator: LedgerRuleOperator;
+  // Compared case-insensitively; ignored by isEmpty
+  value: string;
+}
+
+// First matching rule wins. Blank ledger names keep the default for that line;
+// "{rate}" and "{half}" expand to the row's GST rate and half of it.
+export interface LedgerRule {
+  id: string;
+  name: string;
+  // All must hold; a rule without conditions matches every row
+  conditions: LedgerRuleCondition[];
+  salesLedger: string;
+  igstLedger: string;
+  cgstLedger: string;
+  sgstLedger: string;
+  partyLedger: string;
+}
+
+// Maps a marketplace SKU to the Tally stock item it posts to
+export interface SkuCatalogueEntry {
+  sku: string;
+  stockItem: string;
+  // Tally unit symbol, e.g. "Nos", "Kgs", "Pairs"
+  unit: string;
+  hsn: string;
+  // Blank posts without a godown allocation
+  godown: string;
+}
+
+export interface TallyExportSettings {
+  // Blank imports into whichever company is open in Tally
+  companyName: string;
+  defaultVoucherTypes: VoucherTypeNames;
+  // Keyed by ReportProfile.marketplace; missing entries use the defaults
+  voucherTypesByMarketplace: Record<string, VoucherTypeNames>;
+  // B2C sales post to one consolidated party ledger instead of a ledger per buyer
+  b2cPartyLedger: string;
+  b2cPartyLedgerByMarketplace: Record<string, string>;
+  // Differences up to roundOffLimit rupees post here; larger ones hold the voucher back
+  roundOffLedger: string;
+  roundOffLimit: number;
+  // Ledger that receives settlement payouts
+  bankLedger: string;
+  numbering: VoucherNumbering;
+  sequencePrefix: string;
+  sequenceStart: number;
+  sequencePadding: number;
+  b2cConsolidation: B2cConsolidation;
+  ledgerRules: LedgerRule[];
+  skuCatalogue: SkuCatalogueEntry[];
+}
+
+// "block" stops export while any row fails tax validation; "warn" only flags rows
+export type TaxValidationMode = "block" | "warn";
+
+export interface TaxValidationSettings {
+  sellerGstin: string;
+  // Home state used when no seller GSTIN is set
+  sellerState: string;
+  // Rupees of difference allowed before an amount is flagged
+  tolerance: number;
+  mode: TaxValidationMode;
+}
+
+export interface ClientConfig {
+  id: string;
+  name: string;
+  exportSettings: TallyExportSettings;
+  taxValidation: TaxValidationSettings;
+}
+
+// A saved column mapping and ledger naming, applied again whenever a report
+// with the same headers is uploaded
+export interface MappingProfile {
+  id: string;
+  name: string;
+  // See headerFingerprint in services/mappingProfiles.ts
+  fingerprint: string;
+  mapping: ColumnMapping;
+  ledgerOverrides: Record<string, string>;
+  // ISO timestamp of the last save
+  updatedAt: string;
+}
+
+// How a report expresses returns: "signed" reports carry refunds as negative
+// amounts, "unsigned" ones keep amounts positive and rely on a type column.
+export type SignConvention = "signed" | "unsigned";
+
+export interface ReportProfile {
+  id: string;
+  name: string;
+  marketplace: string;
+  // Headers that must all be present for the profile to match
+  fingerprint: string[];
+  mapping: ColumnMapping;
+  signConvention: SignConvention;
+  dateFormat: string;
+  // Fields the report doesn't carry at all; the converter's defaults apply
+  unavailableFields?: (keyof ColumnMapping)[];
+  // Type labels (lower case) that mean something other than their wording suggests
+  typeLabels?: Record<string, TransactionType>;
+  // One column with the whole tax of a row, for reports that don't split it.
+  // Read when no IGST, CGST or SGST column is mapped and split by place of supply.
+  taxColumn?: string;
+}
+
+// Fields that can be corrected in the review step
+export type EditableField =
+  | "date"
+  | "invoiceNo"
+  | "customerName"
+  | "buyerGstin"
+  | "state"
+  | "productName"
+  | "hsn"
+  | "quantity"
+  | "gstRate"
+  | "taxableValue"
+  | "igst"
+  | "cgst"
+  | "sgst"
+  | "totalAmount";
+
+// A review-step correction, kept as a diff against the row as parsed
+export interface TransactionEdit {
+  changes: Partial<Pick<MarketplaceTransaction, EditableField>>;
+  // Left out of the XML, the GSTR-1 and the push to Tally
+  excluded: boolean;
+  // Set when a duplicate drop or merge excluded the row rather than the user
+  excludedAsDuplicate?: boolean;
+}
+
+// Keyed by row index into the parsed transactions
+export type TransactionEdits = Record<number, TransactionEdit>;
+
+// An invoice or credit note already written to a Tally export for a client
+export interface ExportedInvoice {
+  invoiceNo: string;
+  creditNote: boolean;
+  // yyyy-MM of the voucher date; empty when it had none
+  month: string;
+  // When that month was last exported
+  exportedAt: string;
 }
 
 export interface ProcessingResult {
@@ -39,5 +312,6 @@ export enum AppStep {
   UPLOAD,
   MAPPING,
   REVIEW,
-  EXPORT
+  EXPORT,
+  SETTLEMENT
 }
@@ -0,0 +1,16 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node'
+  },
+  resolve: {
+    alias: {
+      // The suite never talks to Gemini; see tests/stubs/genai.ts
+      '@google/genai': path.resolve(__dirname, 'tests/stubs/genai.ts'),
+      '@': path.resolve(__dirname, '.'),
+    }
+  }
+});